@@ -6,6 +6,12 @@ import { dirname, join } from 'path';
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
-// Load the compiled CLI
-const cliPath = join(__dirname, '../dist/cli/init.js');
+// Subcommands map to compiled modules; anything else runs the init wizard
+const COMMANDS = {
+  'triage-report': '../dist/cli/triage-report.js',
+  'hook': '../dist/cli/hook.js',
+  'watch': '../dist/cli/watch.js',
+};
+
+const cliPath = join(__dirname, COMMANDS[process.argv[2]] ?? '../dist/cli/init.js');
 await import(cliPath);
\ No newline at end of file
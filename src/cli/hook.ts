@@ -0,0 +1,57 @@
+// =============================================================================
+// preflight-dev hook <event> — Claude Code hook entry point
+// =============================================================================
+// Usage (in .claude/settings.json):
+//   "hooks": { "UserPromptSubmit": [{ "hooks": [{ "type": "command",
+//     "command": "npx preflight-dev hook user-prompt-submit" }] }] }
+//
+// Reads the hook payload from stdin. Passing prompts produce no output;
+// otherwise prints hook JSON that injects context or blocks the prompt.
+// Internal failures exit 0 so a preflight bug never stops the user's prompt.
+// =============================================================================
+
+interface UserPromptSubmitInput {
+  prompt?: string;
+  cwd?: string;
+  session_id?: string;
+}
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks).toString("utf-8");
+}
+
+async function userPromptSubmit(): Promise<void> {
+  const input = JSON.parse(await readStdin()) as UserPromptSubmitInput;
+  if (!input.prompt?.trim()) return;
+
+  // PROJECT_DIR is read at import time, so point it at the session's project first
+  if (!process.env.CLAUDE_PROJECT_DIR && input.cwd) process.env.CLAUDE_PROJECT_DIR = input.cwd;
+  const { decidePromptGate } = await import("../lib/prompt-gate.js");
+
+  const decision = await decidePromptGate(input.prompt);
+  if (decision.action === "block") {
+    console.log(JSON.stringify({ decision: "block", reason: decision.reason }));
+  } else if (decision.action === "inject") {
+    console.log(JSON.stringify({
+      hookSpecificOutput: { hookEventName: "UserPromptSubmit", additionalContext: decision.context },
+    }));
+  }
+}
+
+const HANDLERS: Record<string, () => Promise<void>> = {
+  "user-prompt-submit": userPromptSubmit,
+};
+
+const event = process.argv[3];
+const handler = HANDLERS[event];
+if (!handler) {
+  console.error(`Unknown hook event "${event ?? ""}". Supported: ${Object.keys(HANDLERS).join(", ")}`);
+  process.exit(1);
+}
+
+handler().catch((err) => {
+  console.error(`preflight: hook ${event} failed - ${err}`);
+  process.exit(0);
+});
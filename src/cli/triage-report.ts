@@ -0,0 +1,54 @@
+// =============================================================================
+// preflight-dev triage-report — Corpus accuracy report for CI and local use
+// =============================================================================
+// Usage: preflight-dev triage-report [--seed] [--min-accuracy <0-100>]
+// Exits 1 when accuracy falls below --min-accuracy.
+// =============================================================================
+
+import { PROJECT_DIR } from "../lib/files.js";
+import { getTriageConfig } from "../lib/config.js";
+import {
+  loadTriageCases,
+  evaluateTriageCases,
+  formatTriageReport,
+  seedTriageCases,
+  TRIAGE_CASES_DIR,
+} from "../lib/triage-corpus.js";
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(3);
+  const seed = args.includes("--seed");
+  const minIdx = args.indexOf("--min-accuracy");
+  const minAccuracy = minIdx !== -1 ? Number(args[minIdx + 1]) : undefined;
+  if (minAccuracy !== undefined && !Number.isFinite(minAccuracy)) {
+    console.error("--min-accuracy expects a number between 0 and 100");
+    process.exit(2);
+  }
+
+  const config = getTriageConfig();
+
+  if (seed) {
+    const result = await seedTriageCases(PROJECT_DIR);
+    console.log(`🌱 Seeded ${result.added} corrected prompt(s) as ambiguous into ${result.path}\n`);
+  }
+
+  const { cases, errors } = loadTriageCases(PROJECT_DIR);
+  for (const err of errors) console.warn(`⚠️  ${err}`);
+  if (cases.length === 0) {
+    console.log(`No labelled cases found in ${TRIAGE_CASES_DIR}/`);
+    return;
+  }
+
+  const report = evaluateTriageCases(cases, config);
+  console.log(formatTriageReport(report, Infinity));
+
+  if (minAccuracy !== undefined && report.accuracy * 100 < minAccuracy) {
+    console.error(`\n❌ Accuracy ${(report.accuracy * 100).toFixed(1)}% is below --min-accuracy ${minAccuracy}%`);
+    process.exit(1);
+  }
+}
+
+main().catch((err) => {
+  console.error("Error:", err);
+  process.exit(1);
+});
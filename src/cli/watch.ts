@@ -0,0 +1,52 @@
+// =============================================================================
+// preflight-dev watch — Keep an onboarded project's timeline index live
+// =============================================================================
+// Usage: preflight-dev watch [project_dir] [--debounce <ms>]
+// Tails the project's Claude Code transcripts and .git refs, indexing new
+// events into its timeline until interrupted. Defaults to the current project.
+// =============================================================================
+
+import { resolve } from "path";
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(3);
+  const debounceIdx = args.indexOf("--debounce");
+  const positional = args.filter((a, i) => !a.startsWith("--") && (debounceIdx === -1 || i !== debounceIdx + 1));
+  const projectDir = resolve(positional[0] ?? process.env.CLAUDE_PROJECT_DIR ?? process.cwd());
+
+  // PROJECT_DIR is read at import time, so point it at the watched project first:
+  // its .preflight/ config (debounce, embeddings) applies wherever this runs from
+  process.env.CLAUDE_PROJECT_DIR = projectDir;
+  const { getConfig } = await import("../lib/config.js");
+  const { watchOnboardedProject, formatWatchPass } = await import("../lib/watcher.js");
+
+  const debounceMs = debounceIdx !== -1 ? Number(args[debounceIdx + 1]) : getConfig().timeline.watch_debounce_ms;
+  if (!Number.isFinite(debounceMs) || debounceMs < 0) {
+    console.error("--debounce expects a number of milliseconds");
+    process.exit(2);
+  }
+
+  const watcher = await watchOnboardedProject(projectDir, {
+    debounceMs,
+    keepAlive: true,
+    onIngest: (pass) => console.log(`[${new Date().toLocaleTimeString()}] +${formatWatchPass(pass)}`),
+    onError: (err) => console.error(`[${new Date().toLocaleTimeString()}] ⚠️  ${err}`),
+  });
+  if (!watcher) {
+    console.error(`${projectDir} hasn't been onboarded yet — run the onboard_project tool first.`);
+    process.exit(1);
+  }
+  console.log(`👀 Watching ${projectDir} (Ctrl-C to stop)`);
+
+  const stop = async () => {
+    await watcher.stop();
+    process.exit(0);
+  };
+  process.on("SIGINT", stop);
+  process.on("SIGTERM", stop);
+}
+
+main().catch((err) => {
+  console.error("Error:", err);
+  process.exit(1);
+});
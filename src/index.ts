@@ -7,10 +7,16 @@ import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { isToolEnabled, getProfile } from "./profiles.js";
 import { getConfig, hasPreflightConfig } from "./lib/config.js";
+import { captureProjectCorrections } from "./lib/corrections.js";
+import { watchOnboardedProject, formatWatchPass } from "./lib/watcher.js";
+import { PROJECT_DIR } from "./lib/files.js";
 import { existsSync } from "fs";
 
 // Main entry point
 import { registerPreflightCheck } from "./tools/preflight-check.js";
+import { registerTestTriageRules } from "./tools/test-triage-rules.js";
+import { registerTriageReport } from "./tools/triage-report.js";
+import { registerTrainTriageModel } from "./tools/train-triage-model.js";
 // Category 1: Plans
 import { registerScopeWork } from "./tools/scope-work.js";
 // Category 2: Clarification
@@ -31,6 +37,7 @@ import { registerSessionHealth } from "./tools/session-health.js";
 import { registerLogCorrection } from "./tools/log-correction.js";
 // Category 9b: Pattern Learning
 import { registerCheckPatterns } from "./tools/check-patterns.js";
+import { registerManagePatterns } from "./tools/manage-patterns.js";
 // Category 10: Workspace Hygiene
 import { registerAuditWorkspace } from "./tools/audit-workspace.js";
 // Category 11: Cross-Session Continuity
@@ -43,6 +50,7 @@ import { registerSessionStats } from "./tools/session-stats.js";
 import { registerPromptScore } from "./tools/prompt-score.js";
 // Timeline: Project Intelligence
 import { registerOnboardProject } from "./tools/onboard-project.js";
+import { registerReembedProject } from "./tools/reembed-project.js";
 import { registerSearchHistory } from "./tools/search-history.js";
 import { registerTimeline } from "./tools/timeline-view.js";
 import { registerScanSessions } from "./tools/scan-sessions.js";
@@ -87,6 +95,9 @@ type RegisterFn = (server: McpServer) => void;
 
 const toolRegistry: Array<[string, RegisterFn]> = [
   ["preflight_check", registerPreflightCheck],
+  ["test_triage_rules", registerTestTriageRules],
+  ["triage_report", registerTriageReport],
+  ["train_triage_model", registerTrainTriageModel],
   ["scope_work", registerScopeWork],
   ["clarify_intent", registerClarifyIntent],
   ["enrich_agent_task", registerEnrichAgentTask],
@@ -97,6 +108,7 @@ const toolRegistry: Array<[string, RegisterFn]> = [
   ["check_session_health", registerSessionHealth],
   ["log_correction", registerLogCorrection],
   ["check_patterns", registerCheckPatterns],
+  ["manage_patterns", registerManagePatterns],
   ["audit_workspace", registerAuditWorkspace],
   ["session_handoff", registerSessionHandoff],
   ["what_changed", registerWhatChanged],
@@ -104,6 +116,7 @@ const toolRegistry: Array<[string, RegisterFn]> = [
   ["session_stats", registerSessionStats],
   ["prompt_score", registerPromptScore],
   ["onboard_project", registerOnboardProject],
+  ["reembed_project", registerReembedProject],
   ["search_history", registerSearchHistory],
   ["timeline_view", registerTimeline],
   ["scan_sessions", registerScanSessions],
@@ -136,6 +149,21 @@ try {
   const transport = new StdioServerTransport();
   await server.connect(transport);
   process.stderr.write("preflight: server started\n");
+  // Promote corrections from this project's transcripts in the background
+  if (isToolEnabled("log_correction")) {
+    captureProjectCorrections().then((r) => {
+      if (r?.captured) process.stderr.write(`preflight: captured ${r.captured} correction(s) from session transcripts\n`);
+    });
+  }
+  // Keep an onboarded project's timeline current so search_history sees this session
+  if (config.timeline.watch && (isToolEnabled("search_history") || isToolEnabled("timeline_view"))) {
+    watchOnboardedProject(PROJECT_DIR, {
+      debounceMs: config.timeline.watch_debounce_ms,
+      onIngest: (pass) => process.stderr.write(`preflight: indexed ${formatWatchPass(pass)}\n`),
+    }).then((w) => {
+      if (w) process.stderr.write(`preflight: watching ${PROJECT_DIR} for new session and git events\n`);
+    }).catch((err) => process.stderr.write(`preflight: timeline watcher failed to start — ${err}\n`));
+  }
 } catch (err) {
   process.stderr.write(`preflight: failed to start — ${err}\n`);
   process.exit(1);
@@ -0,0 +1,256 @@
+// =============================================================================
+// Clarification Dialog — multiple-choice questions + MCP elicitation
+// =============================================================================
+// Turns ambiguity signals into concrete questions with candidate answers
+// (which module, which file "it" means, which branch, which recent error),
+// asks them through MCP elicitation when the client supports it, and folds
+// the answers back into a sharpened prompt. Shared by preflight_check,
+// clarify_intent and sharpen_followup; clients without elicitation get the
+// same questions rendered as markdown for the model to ask.
+// =============================================================================
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { run, getDirtyFiles } from "./git.js";
+import { PROJECT_DIR } from "./files.js";
+import type { AmbiguousTarget } from "./triage.js";
+
+// --- Types ---
+
+export type ClarifyKind = "target" | "file" | "branch" | "error" | "free";
+
+export interface ClarifyQuestion {
+  /** Field name in the elicitation form. */
+  id: string;
+  kind: ClarifyKind;
+  /** The vague word in the prompt the answer replaces or qualifies ("auth", "it"). */
+  term?: string;
+  question: string;
+  /** Candidate answers. Empty means free text. */
+  options: string[];
+}
+
+export interface ClarifyOutcome {
+  status: "answered" | "declined" | "cancelled" | "unsupported" | "failed";
+  /** Answers keyed by question id; unanswered questions are absent. */
+  answers: Record<string, string>;
+  /** The prompt with answers folded in. Only set when something was answered. */
+  sharpened?: string;
+}
+
+// --- Constants ---
+
+const MAX_OPTIONS = 8;
+const PRONOUN_RE = /\b(it|them|this|that|those|these|the others?)\b/i;
+const FILE_REF_RE = /[\w\-./\\]+\.\w{1,6}/;
+const BRANCH_RE = /\b(branch|merge|rebase|pr|pull request|cherry.?pick)\b/i;
+const ERROR_RE = /\b(error|errors|bug|crash(?:es|ing)?|failing|fails|broken|exception|stack ?trace)\b/i;
+const ERROR_LOOKBACK_DAYS = 14;
+const NOTES_ID = "notes";
+
+// --- Candidate sources ---
+
+/** Dirty files first, then files from the last commit. */
+function recentFiles(): string[] {
+  const files = new Set(getDirtyFiles());
+  const last = run(["diff", "--name-only", "HEAD~1", "HEAD"]);
+  if (!last.startsWith("[")) last.split("\n").filter(Boolean).forEach(f => files.add(f));
+  return [...files];
+}
+
+function recentBranches(): string[] {
+  const out = run(["for-each-ref", "--sort=-committerdate", `--count=${MAX_OPTIONS}`, "--format=%(refname:short)", "refs/heads"]);
+  return out.startsWith("[") ? [] : out.split("\n").filter(Boolean);
+}
+
+async function recentErrors(): Promise<string[]> {
+  try {
+    // Loaded lazily: only prompts that mention errors pay for LanceDB
+    const { getTimeline } = await import("./timeline-db.js");
+    const since = new Date(Date.now() - ERROR_LOOKBACK_DAYS * 86400000).toISOString();
+    const events = await getTimeline({ project_dirs: [PROJECT_DIR], type: "error", since, limit: 200 });
+    const seen = new Set<string>();
+    const errors: string[] = [];
+    // getTimeline sorts oldest first — walk back from the newest
+    for (let i = events.length - 1; i >= 0 && errors.length < 3; i--) {
+      const line = events[i].content.split("\n").find(l => l.trim())?.trim().slice(0, 120);
+      if (line && !seen.has(line)) {
+        seen.add(line);
+        errors.push(line);
+      }
+    }
+    return errors;
+  } catch {
+    return [];
+  }
+}
+
+// --- Question generation ---
+
+/** One question per ambiguous noun, with its codebase candidates as options. */
+export function targetQuestions(targets: AmbiguousTarget[]): ClarifyQuestion[] {
+  return targets.map((t, i) => ({
+    id: `target_${i + 1}`,
+    kind: "target" as const,
+    term: t.term,
+    question: `Which "${t.term}"? I see ${t.candidates.length}`,
+    options: t.candidates.slice(0, MAX_OPTIONS),
+  }));
+}
+
+/** "What does 'it' refer to?" with candidate files, or null if the prompt has no vague pronoun. */
+export function fileQuestion(prompt: string, files: string[]): ClarifyQuestion | null {
+  const m = prompt.match(PRONOUN_RE);
+  if (!m || FILE_REF_RE.test(prompt)) return null;
+  return {
+    id: "file",
+    kind: "file",
+    term: m[0],
+    question: `What does "${m[0]}" refer to?`,
+    options: files.slice(0, MAX_OPTIONS),
+  };
+}
+
+/** A free-text question with no candidates. */
+export function freeQuestion(id: string, question: string, term?: string): ClarifyQuestion {
+  return { id, kind: "free", question, options: [], ...(term ? { term } : {}) };
+}
+
+/**
+ * Build the multiple-choice questions for a vague prompt from the repo's
+ * current state. `files` overrides the default candidates (dirty files plus
+ * the last commit's files) for "what does 'it' mean?".
+ */
+export async function buildClarifyQuestions(
+  prompt: string,
+  opts: { targets?: AmbiguousTarget[]; files?: string[] } = {},
+): Promise<ClarifyQuestion[]> {
+  const questions = targetQuestions(opts.targets ?? []);
+
+  // Skip the pronoun question when a target question already pins down the subject
+  if (questions.length === 0) {
+    const q = fileQuestion(prompt, opts.files ?? recentFiles());
+    if (q && q.options.length > 0) questions.push(q);
+  }
+
+  if (BRANCH_RE.test(prompt)) {
+    const branches = recentBranches();
+    if (branches.length > 1 && !branches.some(b => prompt.includes(b))) {
+      questions.push({ id: "branch", kind: "branch", question: "Which branch?", options: branches });
+    }
+  }
+
+  if (ERROR_RE.test(prompt) && !/["'`]/.test(prompt)) {
+    const errors = await recentErrors();
+    if (errors.length > 0) {
+      questions.push({
+        id: "error",
+        kind: "error",
+        question: `Which of these ${errors.length} recent error(s)?`,
+        options: errors,
+      });
+    }
+  }
+
+  return questions;
+}
+
+// --- Answers ---
+
+/** Fold answers back into the prompt. Unanswered questions leave the prompt alone. */
+export function applyClarifyAnswers(
+  prompt: string,
+  questions: ClarifyQuestion[],
+  answers: Record<string, string>,
+): string {
+  let sharpened = prompt.trim();
+  const extras: string[] = [];
+
+  for (const q of questions) {
+    const answer = answers[q.id]?.trim();
+    if (!answer) continue;
+    const termRe = q.term ? new RegExp(`\\b${q.term.replace(/[.*+?^${}()|[\]\\]/g, "\\$&").replace(/\s+/g, "\\s+")}\\b`, "i") : null;
+
+    switch (q.kind) {
+      case "target":
+        if (termRe?.test(sharpened)) sharpened = sharpened.replace(termRe, m => `${m} (\`${answer}\`)`);
+        else extras.push(`Target: \`${answer}\``);
+        break;
+      case "file":
+        if (termRe?.test(sharpened)) sharpened = sharpened.replace(termRe, `\`${answer}\``);
+        else extras.push(`File: \`${answer}\``);
+        break;
+      case "branch":
+        extras.push(`Branch: \`${answer}\``);
+        break;
+      case "error":
+        extras.push(`Error: ${answer}`);
+        break;
+      default:
+        extras.push(q.term ? `"${q.term}" means: ${answer}` : answer);
+    }
+  }
+
+  if (answers[NOTES_ID]?.trim()) extras.push(answers[NOTES_ID].trim());
+  return extras.length > 0 ? `${sharpened}\n\n${extras.join("\n")}` : sharpened;
+}
+
+/** Markdown fallback for clients without elicitation: one heading per question. */
+export function formatClarifyQuestions(questions: ClarifyQuestion[]): string[] {
+  return questions.map(q =>
+    q.options.length > 0
+      ? `### ${q.question}\n${q.options.map(o => `- \`${o}\``).join("\n")}`
+      : `### ${q.question}`,
+  );
+}
+
+// --- Elicitation ---
+
+/** Whether the connected client can show elicitation forms. */
+export function canElicit(server: McpServer): boolean {
+  return !!server.server.getClientCapabilities()?.elicitation;
+}
+
+/**
+ * Ask the questions through MCP elicitation and return the sharpened prompt.
+ * Never throws: unsupported clients and transport errors come back as a status
+ * so callers can fall back to markdown questions.
+ */
+export async function elicitClarification(
+  server: McpServer,
+  prompt: string,
+  questions: ClarifyQuestion[],
+): Promise<ClarifyOutcome> {
+  if (questions.length === 0) return { status: "answered", answers: {} };
+  if (!canElicit(server)) return { status: "unsupported", answers: {} };
+
+  const properties: Record<string, any> = {};
+  for (const q of questions) {
+    properties[q.id] = q.options.length > 0
+      ? { type: "string", title: q.question, enum: q.options }
+      : { type: "string", title: q.question };
+  }
+  properties[NOTES_ID] = { type: "string", title: "Anything else the agent should know?" };
+
+  try {
+    const result = await server.server.elicitInput({
+      message: `Preflight: "${prompt.slice(0, 120)}" is ambiguous. Pick what you meant — leave a field empty to skip it.`,
+      requestedSchema: { type: "object", properties },
+    });
+    if (result.action !== "accept") {
+      return { status: result.action === "decline" ? "declined" : "cancelled", answers: {} };
+    }
+
+    const answers: Record<string, string> = {};
+    for (const [k, v] of Object.entries(result.content ?? {})) {
+      if (typeof v === "string" && v.trim()) answers[k] = v.trim();
+    }
+    const answered = Object.keys(answers).length > 0;
+    return {
+      status: "answered",
+      answers,
+      ...(answered ? { sharpened: applyClarifyAnswers(prompt, questions, answers) } : {}),
+    };
+  } catch {
+    return { status: "failed", answers: {} };
+  }
+}
@@ -0,0 +1,175 @@
+// =============================================================================
+// Codebase Index — resolves prompt nouns to files, symbols and contracts
+// =============================================================================
+// Backs the "which auth bug? I see 3" check in triage: a noun that maps to
+// several distinct places in the repo is ambiguous, one that maps to exactly
+// one place is a concrete target. Built from `git ls-files`, exported symbols
+// in tracked source files, and the contract registry; cached in the state dir
+// keyed by HEAD so the hook and MCP server share one scan.
+// =============================================================================
+
+import { readFileSync, statSync } from "fs";
+import { join, basename, extname } from "path";
+import { PROJECT_DIR } from "./files.js";
+import { run } from "./git.js";
+import { loadState, saveState } from "./state.js";
+import { loadAllContracts, type Contract } from "./contracts.js";
+import type { TargetResolver } from "./triage.js";
+
+// --- Types ---
+
+export interface CodebaseSymbol {
+  name: string;
+  file: string;
+}
+
+export interface CodebaseIndex {
+  head: string;
+  files: string[];
+  symbols: CodebaseSymbol[];
+}
+
+// --- Constants ---
+
+const SOURCE_EXTS = new Set([".ts", ".tsx", ".js", ".jsx", ".mjs", ".cjs", ".py", ".go"]);
+const MAX_SCANNED_FILES = 4000;
+const MAX_FILE_BYTES = 256 * 1024;
+/** `git ls-files` output limit — ~1M paths, beyond run()'s 1 MB default. */
+const LS_FILES_MAX_BUFFER = 64 * 1024 * 1024;
+/** Shortest prefix that counts as a match between a noun and a name ("auth" ↔ "authentication"). */
+const MIN_PREFIX = 4;
+
+const EXPORT_RES: RegExp[] = [
+  /export\s+(?:default\s+)?(?:async\s+)?(?:function\*?|class|const|let|interface|type|enum)\s+([A-Za-z_$][\w$]*)/g,
+  /^(?:async\s+)?def\s+([A-Za-z_]\w*)|^class\s+([A-Za-z_]\w*)/gm,
+  /^func\s+(?:\([^)]*\)\s*)?([A-Z]\w*)/gm,
+];
+
+// --- Helpers ---
+
+/** Split identifiers and path segments into lowercase words: "getAuthToken" → get, auth, token. */
+function nameWords(name: string): string[] {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .replace(/([A-Z]+)([A-Z][a-z])/g, "$1 $2")
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((w) => w.toLowerCase());
+}
+
+function wordMatches(term: string, word: string): boolean {
+  if (term === word) return true;
+  if (term.length < MIN_PREFIX || word.length < MIN_PREFIX) return false;
+  return term.startsWith(word) || word.startsWith(term);
+}
+
+function scanSymbols(files: string[]): CodebaseSymbol[] {
+  const symbols: CodebaseSymbol[] = [];
+  const sources = files.filter((f) => SOURCE_EXTS.has(extname(f)) && !f.endsWith(".d.ts")).slice(0, MAX_SCANNED_FILES);
+
+  for (const file of sources) {
+    const full = join(PROJECT_DIR, file);
+    try {
+      if (statSync(full).size > MAX_FILE_BYTES) continue;
+      const content = readFileSync(full, "utf-8");
+      for (const re of EXPORT_RES) {
+        for (const m of content.matchAll(re)) {
+          const name = m[1] ?? m[2];
+          // Python/Go private names aren't public targets
+          if (name && !name.startsWith("_")) symbols.push({ name, file });
+        }
+      }
+    } catch { /* unreadable or deleted since ls-files */ }
+  }
+  return symbols;
+}
+
+// --- Index ---
+
+let _index: CodebaseIndex | null = null;
+
+/** Load the index for the current HEAD, rebuilding it when HEAD moves. */
+export function getCodebaseIndex(): CodebaseIndex {
+  const head = run(["rev-parse", "HEAD"]);
+  if (_index && _index.head === head) return _index;
+
+  const cached = loadState("codebase-index") as Partial<CodebaseIndex>;
+  if (cached.head === head && Array.isArray(cached.files) && Array.isArray(cached.symbols)) {
+    _index = cached as CodebaseIndex;
+    return _index;
+  }
+
+  const lsFiles = run(["ls-files"], { timeout: 15000, maxBuffer: LS_FILES_MAX_BUFFER });
+  // run() returns "[...]" strings on failure — not a git repo, git missing, etc.
+  const files = lsFiles.startsWith("[") ? [] : lsFiles.split("\n").filter(Boolean);
+  _index = { head, files, symbols: scanSymbols(files) };
+  if (files.length > 0) saveState("codebase-index", _index);
+  return _index;
+}
+
+/**
+ * Find the distinct places in the repo a noun could refer to.
+ * Path matches collapse to the shallowest matching segment, so every file
+ * under src/auth/ counts once as "src/auth/".
+ */
+export function findCandidates(term: string, index: CodebaseIndex, contracts: Contract[]): string[] {
+  const t = term.toLowerCase();
+  const candidates = new Set<string>();
+
+  for (const file of index.files) {
+    const segments = file.split("/");
+    for (let i = 0; i < segments.length; i++) {
+      const isLast = i === segments.length - 1;
+      const seg = isLast ? basename(segments[i], extname(segments[i])) : segments[i];
+      if (nameWords(seg).some((w) => wordMatches(t, w))) {
+        candidates.add(isLast ? file : segments.slice(0, i + 1).join("/") + "/");
+        break;
+      }
+    }
+  }
+
+  const coveredBy = (file: string) =>
+    [...candidates].some((c) => c === file || (c.endsWith("/") && file.startsWith(c)));
+
+  // Symbols group by file so one module exporting getAuth + AuthError counts once
+  const symbolFiles = new Map<string, string[]>();
+  for (const sym of index.symbols) {
+    if (!nameWords(sym.name).some((w) => wordMatches(t, w))) continue;
+    // A symbol inside an already-listed file or directory isn't a new place
+    if (coveredBy(sym.file)) continue;
+    const names = symbolFiles.get(sym.file) ?? [];
+    if (!names.includes(sym.name)) names.push(sym.name);
+    symbolFiles.set(sym.file, names);
+  }
+  for (const [file, names] of symbolFiles) {
+    candidates.add(`${names.slice(0, 3).join(", ")} (${file})`);
+  }
+
+  for (const c of contracts) {
+    if (!nameWords(c.name).some((w) => wordMatches(t, w))) continue;
+    if (coveredBy(c.file) || symbolFiles.has(c.file)) continue;
+    candidates.add(`${c.kind} ${c.name} (${c.file})`);
+  }
+
+  return [...candidates];
+}
+
+/**
+ * TargetResolver for triage, backed by the current repo. The index and
+ * contracts are loaded on the first lookup and shared by the rest, so one
+ * triage call checks HEAD and reads the contract registry once.
+ */
+export function createCodebaseResolver(): TargetResolver {
+  const cache = new Map<string, string[]>();
+  let sources: { index: CodebaseIndex; contracts: Contract[] } | null = null;
+  return {
+    resolve(term: string): string[] {
+      const key = term.toLowerCase();
+      if (!cache.has(key)) {
+        sources ??= { index: getCodebaseIndex(), contracts: loadAllContracts([PROJECT_DIR]) };
+        cache.set(key, findCandidates(key, sources.index, sources.contracts));
+      }
+      return cache.get(key)!;
+    },
+  };
+}
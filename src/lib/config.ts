@@ -7,11 +7,16 @@
 
 import { existsSync, readFileSync } from "fs";
 import { join } from "path";
+import { homedir } from "os";
 import { load as yamlLoad } from "js-yaml";
 import { PROJECT_DIR } from "./files.js";
+import type { TriageConfig, TriageLevel } from "./triage.js";
+import { compileTriageRules, type TriageRule, type TriageRuleSpec } from "./triage-rules.js";
+import { createCodebaseResolver } from "./codebase-index.js";
+import { EMBEDDING_PROVIDERS, type EmbeddingConfig, type EmbeddingProviderName } from "./embeddings.js";
 
 export type Profile = "minimal" | "standard" | "full";
-export type EmbeddingProvider = "local" | "openai";
+export type EmbeddingProvider = EmbeddingProviderName;
 export type TriageStrictness = "relaxed" | "standard" | "strict";
 
 export interface RelatedProject {
@@ -26,11 +31,44 @@ export interface PreflightConfig {
     session_stale_minutes: number;
     max_tool_calls_before_checkpoint: number;
     correction_pattern_threshold: number;
+    /** Cosine similarity for a correction to join an existing pattern cluster. */
+    pattern_cluster_similarity: number;
+    /** Cosine similarity between a prompt and a pattern centroid to warn. */
+    pattern_match_similarity: number;
+    /** Days for a pattern's recency weight to halve since it was last seen. */
+    pattern_half_life_days: number;
+    /** Days without a correction before a pattern stops matching (0 = never). */
+    pattern_expire_days: number;
   };
-  embeddings: {
-    provider: EmbeddingProvider;
+  /** Provider and model for every embedding (timeline, patterns, triage model); see embeddings.ts. */
+  embeddings: EmbeddingConfig & {
+    /** Older spelling of `api_key`. */
     openai_api_key?: string;
   };
+  search: {
+    /** Second-stage reranking of search_history candidates. */
+    rerank: {
+      /** Score candidates with a local cross-encoder (downloads the model on first use). */
+      enabled: boolean;
+      model: string;
+      /** Candidates retrieved and rescored; results are cut to the requested limit afterwards. */
+      top_n: number;
+    };
+    /** Applied on top of the rerank (or retrieval) score whenever reranking runs. */
+    boosts: {
+      /** Multiplier per event type; unlisted types are 1. */
+      types: Record<string, number>;
+      /** Extra weight for recent events: up to ×(1 + recency_weight), halving every half-life. */
+      recency_weight: number;
+      recency_half_life_days: number;
+    };
+  };
+  timeline: {
+    /** Keep an onboarded project's timeline index live while the MCP server runs. */
+    watch: boolean;
+    /** Quiet period after a transcript or git change before it is indexed. */
+    watch_debounce_ms: number;
+  };
   triage: {
     rules: {
       always_check: string[];
@@ -38,6 +76,21 @@ export interface PreflightConfig {
       cross_service_keywords: string[];
     };
     strictness: TriageStrictness;
+    /** User-defined classifiers from triage.yml `classifiers:` */
+    classifiers: TriageRuleSpec[];
+    /** Learned classifier (see triage-model.ts). Only used once trained. */
+    model: {
+      enabled: boolean;
+      min_confidence: number;
+      k: number;
+    };
+    /** UserPromptSubmit hook behaviour (`preflight-dev hook user-prompt-submit`). */
+    hook: {
+      /** Levels that block the prompt with clarification questions instead of injecting context. */
+      block: TriageLevel[];
+      /** Only block when triage is at least this confident. */
+      min_confidence: number;
+    };
   };
 }
 
@@ -49,10 +102,30 @@ const DEFAULT_CONFIG: PreflightConfig = {
     session_stale_minutes: 30,
     max_tool_calls_before_checkpoint: 100,
     correction_pattern_threshold: 3,
+    pattern_cluster_similarity: 0.5,
+    pattern_match_similarity: 0.45,
+    pattern_half_life_days: 30,
+    pattern_expire_days: 90,
   },
   embeddings: {
     provider: "local",
   },
+  search: {
+    rerank: {
+      enabled: false,
+      model: "Xenova/ms-marco-MiniLM-L-6-v2",
+      top_n: 30,
+    },
+    boosts: {
+      types: { correction: 1.3, commit: 1.2 },
+      recency_weight: 0.2,
+      recency_half_life_days: 30,
+    },
+  },
+  timeline: {
+    watch: true,
+    watch_debounce_ms: 2000,
+  },
   triage: {
     rules: {
       always_check: ["rewards", "permissions", "migration", "schema"],
@@ -60,10 +133,38 @@ const DEFAULT_CONFIG: PreflightConfig = {
       cross_service_keywords: ["auth", "notification", "event", "webhook"],
     },
     strictness: "standard",
+    classifiers: [],
+    model: {
+      enabled: true,
+      min_confidence: 0.6,
+      k: 7,
+    },
+    hook: {
+      block: [],
+      min_confidence: 0.7,
+    },
   },
 };
 
+/** Global timeline config; embedding settings lived here before `embeddings:` in config.yml. */
+const LEGACY_CONFIG_PATH = join(homedir(), ".preflight", "config.json");
+
+/** `embedding_provider` / `openai_api_key` from ~/.preflight/config.json, if it still has them. */
+function loadLegacyEmbeddings(): EmbeddingConfig | null {
+  try {
+    const legacy = JSON.parse(readFileSync(LEGACY_CONFIG_PATH, "utf-8"));
+    if (legacy.embedding_provider !== "local" && legacy.embedding_provider !== "openai") return null;
+    return {
+      provider: legacy.embedding_provider,
+      ...(typeof legacy.openai_api_key === "string" ? { api_key: legacy.openai_api_key } : {}),
+    };
+  } catch {
+    return null;
+  }
+}
+
 let _config: PreflightConfig | null = null;
+let _triageRules: TriageRule[] | null = null;
 
 /** Load config from .preflight/ directory or fall back to env vars */
 function loadConfig(): PreflightConfig {
@@ -74,6 +175,8 @@ function loadConfig(): PreflightConfig {
   // Start with defaults
   let config: PreflightConfig = JSON.parse(JSON.stringify(DEFAULT_CONFIG));
 
+  let embeddingsConfigured = false;
+
   // Load .preflight/config.yml if it exists
   if (existsSync(configPath)) {
     try {
@@ -85,13 +188,29 @@ function loadConfig(): PreflightConfig {
         if (configData.profile) config.profile = configData.profile;
         if (configData.related_projects) config.related_projects = configData.related_projects;
         if (configData.thresholds) config.thresholds = { ...config.thresholds, ...configData.thresholds };
-        if (configData.embeddings) config.embeddings = { ...config.embeddings, ...configData.embeddings };
+        if (configData.embeddings) {
+          embeddingsConfigured = true;
+          config.embeddings = { ...config.embeddings, ...configData.embeddings };
+          config.embeddings.api_key ??= config.embeddings.openai_api_key;
+        }
+        if (configData.search) {
+          const search = configData.search;
+          if (search.rerank) config.search.rerank = { ...config.search.rerank, ...search.rerank };
+          if (search.boosts) config.search.boosts = { ...config.search.boosts, ...search.boosts };
+        }
+        if (configData.timeline) config.timeline = { ...config.timeline, ...configData.timeline };
       }
     } catch (error) {
       console.warn(`preflight: warning - failed to parse .preflight/config.yml: ${error}`);
     }
   }
 
+  // Without an `embeddings:` block, keep what the global config.json used to select
+  if (!embeddingsConfigured) {
+    const legacy = loadLegacyEmbeddings();
+    if (legacy) config.embeddings = { ...config.embeddings, ...legacy };
+  }
+
   // Load .preflight/triage.yml if it exists
   if (existsSync(triagePath)) {
     try {
@@ -101,6 +220,9 @@ function loadConfig(): PreflightConfig {
       if (triageData) {
         if (triageData.rules) config.triage.rules = { ...config.triage.rules, ...triageData.rules };
         if (triageData.strictness) config.triage.strictness = triageData.strictness;
+        if (Array.isArray(triageData.classifiers)) config.triage.classifiers = triageData.classifiers;
+        if (triageData.model) config.triage.model = { ...config.triage.model, ...triageData.model };
+        if (triageData.hook) config.triage.hook = { ...config.triage.hook, ...triageData.hook };
       }
     } catch (error) {
       console.warn(`preflight: warning - failed to parse .preflight/triage.yml: ${error}`);
@@ -125,13 +247,17 @@ function loadConfig(): PreflightConfig {
 
     // Embedding provider
     const envProvider = process.env.EMBEDDING_PROVIDER?.toLowerCase();
-    if (envProvider === "local" || envProvider === "openai") {
-      config.embeddings.provider = envProvider;
+    if (EMBEDDING_PROVIDERS.includes(envProvider as EmbeddingProvider)) {
+      config.embeddings.provider = envProvider as EmbeddingProvider;
     }
+    if (process.env.EMBEDDING_MODEL) config.embeddings.model = process.env.EMBEDDING_MODEL;
+    if (process.env.EMBEDDING_BASE_URL) config.embeddings.base_url = process.env.EMBEDDING_BASE_URL;
+    // OPENAI_API_KEY is read by the openai provider itself (embeddings.api_key_env)
 
-    // OpenAI API key
-    if (process.env.OPENAI_API_KEY) {
-      config.embeddings.openai_api_key = process.env.OPENAI_API_KEY;
+    // Timeline watcher
+    const envWatch = process.env.PREFLIGHT_WATCH?.toLowerCase();
+    if (envWatch === "0" || envWatch === "false") {
+      config.timeline.watch = false;
     }
   }
 
@@ -154,4 +280,30 @@ export function getRelatedProjects(): string[] {
 /** Check if .preflight/ directory exists */
 export function hasPreflightConfig(): boolean {
   return existsSync(join(PROJECT_DIR, ".preflight"));
-}
\ No newline at end of file
+}
+
+/** Compiled triage classifiers. Invalid rules are skipped with a warning. */
+export function getTriageRules(): TriageRule[] {
+  if (_triageRules === null) {
+    const { rules, errors } = compileTriageRules(getConfig().triage.classifiers);
+    for (const err of errors) {
+      console.warn(`preflight: warning - .preflight/triage.yml: ${err}`);
+    }
+    _triageRules = rules;
+  }
+  return _triageRules;
+}
+
+/** Build the TriageConfig every triage caller should use, so they never disagree. */
+export function getTriageConfig(): TriageConfig {
+  const config = getConfig();
+  return {
+    alwaysCheck: config.triage.rules.always_check,
+    skip: config.triage.rules.skip,
+    crossServiceKeywords: config.triage.rules.cross_service_keywords,
+    strictness: config.triage.strictness,
+    relatedAliases: config.related_projects.map(p => p.alias),
+    rules: getTriageRules(),
+    resolver: createCodebaseResolver(),
+  };
+}
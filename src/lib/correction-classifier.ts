@@ -0,0 +1,239 @@
+/**
+ * correction-classifier.ts — Decide whether a user turn corrects the assistant.
+ *
+ * Shared by the session parser, estimate_cost and the scorecard so they agree
+ * on what counts as a correction. A turn is scored from four kinds of evidence:
+ *   - position: only a turn that follows an assistant turn can correct it
+ *   - wording: strong phrases ("wrong", "I meant", "undo"), a leading "no",
+ *     weaker hedges ("actually", "instead"), minus benign phrasing
+ *     ("no worries", "thanks", "ok now…")
+ *   - reverts: the next assistant turn runs git checkout/restore/revert/reset
+ *   - re-edits: the next assistant turn edits a file the previous one edited
+ * The score is a confidence in [0, 1]; CORRECTION_THRESHOLD decides the label.
+ *
+ * findUndoneEdits links a correction to the concrete hunks it undid: edits
+ * from the corrected turn that the next turn reverted or rewrote.
+ */
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+/** One replacement made by an edit tool. Write is a hunk with an empty `old`. */
+export interface EditHunk {
+  old: string;
+  new: string;
+}
+
+/** A tool call reduced to what the classifier looks at. */
+export interface ToolTouch {
+  name: string;
+  /** Target file for edit/write tools. */
+  file?: string;
+  /** Shell command for Bash. */
+  command?: string;
+  /** Replacements made by Edit/MultiEdit/Write, truncated. */
+  edits?: EditHunk[];
+}
+
+/** An edit from the corrected turn that the following turn took back. */
+export interface UndoneEdit {
+  file: string;
+  /** reverted: restored via git or an exact inverse edit. rewritten: edited again over the same text. */
+  kind: "reverted" | "rewritten";
+  /** What the corrected turn had written (truncated). */
+  hunk: string;
+}
+
+export interface CorrectionInput {
+  text: string;
+  /** Whether the turn directly follows an assistant turn. */
+  afterAssistant: boolean;
+  /** Tool calls in the assistant turn being responded to. */
+  before?: ToolTouch[];
+  /** Tool calls in the assistant turn that answers this one. */
+  after?: ToolTouch[];
+}
+
+export interface CorrectionScore {
+  isCorrection: boolean;
+  confidence: number;
+  /** Which evidence contributed, for metadata and debugging. */
+  signals: string[];
+}
+
+// ── Constants ──────────────────────────────────────────────────────────────
+
+export const CORRECTION_THRESHOLD = 0.5;
+
+const STRONG_PATTERNS: Array<[string, RegExp]> = [
+  ["wrong", /\bwrong\b/i],
+  ["not that", /\bnot that\b/i],
+  ["i meant", /\bi meant\b/i],
+  ["not what i", /\b(that'?s )?not what i\b/i],
+  ["that's not it", /\bthat'?s not (right|it|correct)\b/i],
+  ["undo", /\bundo\b/i],
+  ["revert", /\brevert\b/i],
+  ["try again", /\btry again\b/i],
+  ["why did you", /\bwhy did you\b/i],
+  ["you broke", /\byou (broke|deleted|removed)\b/i],
+];
+
+/** "no" / "nope" opening the message — but not "no worries", "no problem"… */
+const LEADING_NEGATION = /^\s*(no|nope|nah)\b(?![\s,]+(worries|problem|rush|need|thanks|pressure)\b)/i;
+const INNER_NEGATION = /[,.;!]\s*no\b(?!\s+(worries|problem|rush|need))/i;
+const WEAK_PATTERNS: Array<[string, RegExp]> = [
+  ["actually", /\bactually\b/i],
+  ["instead", /\binstead\b/i],
+  ["rather", /\brather than\b/i],
+];
+const BENIGN = /\b(no (worries|problem|rush)|thanks|thank you|perfect|great|looks good|lgtm|nice|awesome)\b/i;
+const CONTINUATION = /^\s*(ok(ay)?|cool|good|now|next|also|then)\b/i;
+
+const EDIT_TOOLS = new Set(["Edit", "Write", "MultiEdit", "NotebookEdit"]);
+const MAX_HUNK = 400;
+const MAX_HUNKS = 10;
+const REVERT_COMMAND = /\bgit\s+(checkout\s+(\S+\s+)?--\s|restore\b|revert\b|reset\b|stash\b)/;
+
+// ── Scoring ────────────────────────────────────────────────────────────────
+
+/** Score one user turn. Confidence is clamped to [0, 1] and rounded to 2 decimals. */
+export function scoreCorrection(input: CorrectionInput): CorrectionScore {
+  if (!input.afterAssistant) return { isCorrection: false, confidence: 0, signals: ["not after assistant"] };
+
+  const text = input.text;
+  const signals: string[] = [];
+  let score = 0;
+
+  const strong = STRONG_PATTERNS.filter(([, re]) => re.test(text)).map(([name]) => name);
+  if (strong.length > 0) {
+    score += 0.5 + 0.1 * (strong.length - 1);
+    signals.push(...strong);
+  }
+  if (LEADING_NEGATION.test(text)) {
+    score += 0.5;
+    signals.push("leading no");
+  } else if (INNER_NEGATION.test(text)) {
+    score += 0.15;
+    signals.push("no");
+  }
+  const weak = WEAK_PATTERNS.filter(([, re]) => re.test(text)).map(([name]) => name);
+  if (weak.length > 0) {
+    score += 0.25 + 0.1 * (weak.length - 1);
+    signals.push(...weak);
+  }
+  // Politeness and "ok, now…" only outweigh hedges, not an explicit "that's wrong"
+  if (strong.length === 0 && BENIGN.test(text)) {
+    score -= 0.4;
+    signals.push("-benign");
+  }
+  if (strong.length === 0 && CONTINUATION.test(text)) {
+    score -= 0.2;
+    signals.push("-continuation");
+  }
+
+  const after = input.after ?? [];
+  if (after.some((t) => t.command && REVERT_COMMAND.test(t.command))) {
+    score += 0.3;
+    signals.push("revert follows");
+  }
+  const editedBefore = new Set((input.before ?? []).filter((t) => EDIT_TOOLS.has(t.name) && t.file).map((t) => t.file));
+  if (after.some((t) => EDIT_TOOLS.has(t.name) && t.file && editedBefore.has(t.file))) {
+    score += 0.2;
+    signals.push("re-edit follows");
+  }
+
+  const confidence = Math.round(Math.max(0, Math.min(1, score)) * 100) / 100;
+  return { isCorrection: confidence >= CORRECTION_THRESHOLD, confidence, signals };
+}
+
+// ── Raw transcript helpers ─────────────────────────────────────────────────
+
+/** Reduce a tool_use name + input to a ToolTouch. */
+export function toolTouch(name: string, input: any): ToolTouch {
+  const file = input?.file_path ?? input?.notebook_path ?? input?.path;
+  const command = name === "Bash" ? input?.command : undefined;
+  const edits = editHunks(name, input);
+  return {
+    name,
+    ...(typeof file === "string" ? { file } : {}),
+    ...(typeof command === "string" ? { command: command.slice(0, 300) } : {}),
+    ...(edits.length > 0 ? { edits } : {}),
+  };
+}
+
+function editHunks(name: string, input: any): EditHunk[] {
+  const hunk = (o: unknown, n: unknown): EditHunk => ({
+    old: typeof o === "string" ? o.slice(0, MAX_HUNK) : "",
+    new: typeof n === "string" ? n.slice(0, MAX_HUNK) : "",
+  });
+  switch (name) {
+    case "Edit":
+      return [hunk(input?.old_string, input?.new_string)];
+    case "MultiEdit":
+      return Array.isArray(input?.edits)
+        ? input.edits.slice(0, MAX_HUNKS).map((e: any) => hunk(e?.old_string, e?.new_string))
+        : [];
+    case "Write":
+      return [hunk("", input?.content)];
+    case "NotebookEdit":
+      return [hunk("", input?.new_source)];
+    default:
+      return [];
+  }
+}
+
+/** Compare on the first non-blank line: truncation and re-indentation shouldn't hide an overlap. */
+function firstLine(text: string): string {
+  return text.split("\n").map((l) => l.trim()).find(Boolean) ?? "";
+}
+
+/**
+ * Edits in `before` (the corrected turn) that `after` (the next turn) undid.
+ * A git checkout/restore naming the file, or a blanket reset/stash, reverts
+ * every hunk in it; an edit whose replacement restores the original text is a
+ * revert; editing over the written text again, or rewriting the whole file,
+ * is a rewrite.
+ */
+export function findUndoneEdits(before: ToolTouch[], after: ToolTouch[]): UndoneEdit[] {
+  const undone: UndoneEdit[] = [];
+  const seen = new Set<string>();
+  const add = (file: string, kind: UndoneEdit["kind"], hunk: string) => {
+    const key = `${file}\0${kind}\0${hunk}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    undone.push({ file, kind, hunk: hunk.slice(0, 200) });
+  };
+
+  const commands = after.map((t) => t.command).filter((c): c is string => !!c && REVERT_COMMAND.test(c));
+  const blanket = commands.some((c) => /\bgit\s+(stash|reset\s+--hard)\b/.test(c));
+
+  for (const b of before) {
+    if (!b.file || !b.edits || !EDIT_TOOLS.has(b.name)) continue;
+    const base = b.file.split(/[\\/]/).pop()!;
+    const gitReverted = blanket || commands.some((c) => c.includes(base));
+    const later = after.filter((a) => a.file === b.file && EDIT_TOOLS.has(a.name));
+
+    for (const h of b.edits) {
+      if (!h.new) continue;
+      if (gitReverted) {
+        add(b.file, "reverted", h.new);
+        continue;
+      }
+      const written = firstLine(h.new);
+      for (const a of later) {
+        if (a.name === "Write") {
+          add(b.file, "rewritten", h.new);
+          continue;
+        }
+        for (const ah of a.edits ?? []) {
+          if (!ah.old) continue;
+          if (h.old && ah.new === h.old && (ah.old === h.new || ah.old.includes(written))) {
+            add(b.file, "reverted", h.new);
+          } else if (written && (ah.old.includes(written) || h.new.includes(firstLine(ah.old) || "\0"))) {
+            add(b.file, "rewritten", h.new);
+          }
+        }
+      }
+    }
+  }
+  return undone;
+}
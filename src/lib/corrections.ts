@@ -0,0 +1,333 @@
+/**
+ * Correction capture — promotes `correction` events parsed from session
+ * transcripts into corrections.jsonl, so pattern learning sees every
+ * correction the user made, not just the ones log_correction recorded.
+ *
+ * Each captured entry gets the assistant turn it corrected (text plus tool
+ * calls) as `wrong_action` and a heuristic category. Entries are keyed by
+ * transcript file + line, and skipped when a manual log_correction entry
+ * already covers the same correction. Captures also record the files the
+ * corrected turn edited and the hunks that were then undone, so a later
+ * prompt naming the same file can be warned (findFileCorrections).
+ *
+ * Startup capture streams one transcript at a time and keeps a resume cursor
+ * per file, so later starts read only what was appended.
+ */
+
+import { statSync } from "fs";
+import { relative, isAbsolute } from "path";
+import { appendLog, readLog, loadState, saveState } from "./state.js";
+import { PROJECT_DIR } from "./files.js";
+import {
+  findSessionFiles,
+  inferProject,
+  streamSessionEvents,
+  type SessionCursor,
+  type TimelineEvent,
+} from "./session-parser.js";
+import { sessionDirFor } from "./project-paths.js";
+import { refreshPatterns, formatTimeAgo } from "./patterns.js";
+import type { UndoneEdit } from "./correction-classifier.js";
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+export const CORRECTION_CATEGORIES = [
+  "vague_prompt",
+  "stale_context",
+  "wrong_assumption",
+  "wrong_file",
+  "wrong_scope",
+  "misread_intent",
+  "incomplete_work",
+  "style_mismatch",
+  "other",
+] as const;
+
+export type CorrectionCategory = (typeof CORRECTION_CATEGORIES)[number];
+
+/** Past corrections on a file the prompt mentions. */
+export interface FileCorrection {
+  /** Project-relative path as recorded. */
+  file: string;
+  count: number;
+  lastSeen: string;
+  /** What the user said in the most recent correction. */
+  user_said: string;
+  /** The most recent hunk on this file that was reverted or rewritten, if any. */
+  undone?: Omit<UndoneEdit, "file">;
+}
+
+export interface CaptureResult {
+  captured: number;
+  /** Already in the log — from an earlier capture or a manual log_correction. */
+  duplicates: number;
+  patterns: number;
+}
+
+/**
+ * How far startup capture has read a transcript. The cursor sits at the start
+ * of the last turn read, not after it: that turn is the next correction's
+ * wrong_action, and its prompt can only be labelled once the session goes on.
+ * Re-reading it is safe — captures are keyed by file and line.
+ */
+interface CapturedFile {
+  size: number;
+  cursor?: SessionCursor;
+}
+
+// ── Constants ──────────────────────────────────────────────────────────────
+
+const CAPTURE_STATE = "correction-capture";
+const MANUAL_MATCH_WINDOW_MS = 30 * 60 * 1000;
+const MAX_WRONG_ACTION = 400;
+
+/** Checked in order; the first category whose pattern matches wins. */
+const CATEGORY_RULES: Array<[CorrectionCategory, RegExp]> = [
+  ["wrong_file", /\b(wrong|different|other|that) file\b|\bnot (in )?that file\b|\bedit(ed)? the wrong\b/i],
+  ["misread_intent", /\bi meant\b|\bnot what i (asked|meant|said|wanted)\b|\bi (said|asked for)\b|\bthat's not what\b/i],
+  ["wrong_scope", /\b(only|just) (change|touch|edit|fix)\b|\bdon'?t (touch|change|modify)\b|\btoo (much|many)\b|\bleave .{1,40} alone\b|\bout of scope\b/i],
+  ["stale_context", /\b(already|no longer|outdated|out of date|was (removed|renamed|moved)|we (changed|moved|renamed))\b/i],
+  ["incomplete_work", /\b(forgot|missed|didn'?t finish|incomplete|still (fails|failing|broken|missing))\b|\byou also need\b/i],
+  ["style_mismatch", /\b(style|naming|convention|indent(ation)?|formatting|prettier|lint)\b/i],
+  ["wrong_assumption", /\bassum(e|ed|ing|ption)\b|\bdon'?t guess\b|\bthat'?s not (true|how|right)\b|\bdoesn'?t work like\b/i],
+];
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+/** Heuristic category from the user's words and what they were correcting. */
+export function categorizeCorrection(userSaid: string, wrongAction = ""): CorrectionCategory {
+  for (const [category, re] of CATEGORY_RULES) {
+    if (re.test(userSaid)) return category;
+  }
+  // "no, the other one" after a file edit is about which file, not what was done to it
+  if (/^(Edit|Write|MultiEdit):/m.test(wrongAction) && /\b(other|another) one\b/i.test(userSaid)) return "wrong_file";
+  return "other";
+}
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9\s]/g, " ").replace(/\s+/g, " ").trim();
+}
+
+function tokenOverlap(a: string, b: string): number {
+  const ta = new Set(a.split(" ").filter((w) => w.length >= 3));
+  const tb = new Set(b.split(" ").filter((w) => w.length >= 3));
+  if (ta.size === 0 || tb.size === 0) return 0;
+  let shared = 0;
+  for (const w of ta) if (tb.has(w)) shared++;
+  return shared / Math.min(ta.size, tb.size);
+}
+
+/** The assistant turn before each correction: its text and tool calls, oldest first. */
+function describeWrongAction(turn: TimelineEvent[]): string {
+  const parts: string[] = [];
+  const text = turn.filter((e) => e.type === "assistant").map((e) => e.content_preview).pop();
+  if (text) parts.push(text);
+  for (const e of turn) {
+    if (e.type === "tool_call" || e.type === "sub_agent_spawn") parts.push(e.content);
+  }
+  const joined = parts.join("\n");
+  return joined.length > MAX_WRONG_ACTION ? joined.slice(0, MAX_WRONG_ACTION) + "…" : joined;
+}
+
+/** A manual log_correction entry describing the same correction: close in time, similar words. */
+function coveredByManual(event: TimelineEvent, manual: Record<string, any>[]): boolean {
+  const said = normalize(event.content);
+  const ts = new Date(event.timestamp).getTime();
+  return manual.some((m) => {
+    const other = normalize(m.user_said ?? "");
+    if (!other) return false;
+    if (other === said || said.startsWith(other) || other.startsWith(said)) return true;
+    const mts = new Date(m.timestamp ?? "").getTime();
+    return Math.abs(mts - ts) <= MANUAL_MATCH_WINDOW_MS && tokenOverlap(said, other) >= 0.5;
+  });
+}
+
+function projectPath(file: string): string {
+  if (!isAbsolute(file)) return file;
+  const rel = relative(PROJECT_DIR, file);
+  return rel.startsWith("..") ? file : rel;
+}
+
+/** Same file if equal or one is a path-boundary suffix of the other ("jwt.ts" vs "src/auth/jwt.ts"). */
+function samePath(a: string, b: string): boolean {
+  const x = a.replace(/\\/g, "/").replace(/^\.\//, "");
+  const y = b.replace(/\\/g, "/").replace(/^\.\//, "");
+  return x === y || x.endsWith(`/${y}`) || y.endsWith(`/${x}`);
+}
+
+// ── Public API ─────────────────────────────────────────────────────────────
+
+/**
+ * Appends transcript corrections to corrections.jsonl as events are fed in.
+ * Each session's events must arrive in order so the preceding assistant turn
+ * is found; sessions may interleave.
+ */
+function createCorrectionCapture() {
+  const existing = readLog("corrections.jsonl");
+  const seen = new Set(
+    existing.filter((c) => c.source_file).map((c) => `${c.source_file}:${c.source_line}`),
+  );
+  const manual = existing.filter((c) => !c.source_file);
+
+  // Group each session's assistant/tool events into the turn preceding the next user message
+  const turns = new Map<string, TimelineEvent[]>();
+  let captured = 0;
+  let duplicates = 0;
+
+  const push = (event: TimelineEvent): void => {
+    const turn = turns.get(event.session_id) ?? [];
+    if (event.type === "assistant" || event.type === "tool_call" || event.type === "sub_agent_spawn") {
+      turn.push(event);
+      turns.set(event.session_id, turn);
+      return;
+    }
+    if (event.type !== "prompt" && event.type !== "correction") return;
+    turns.set(event.session_id, []);
+    if (event.type !== "correction") return;
+
+    const key = `${event.source_file}:${event.source_line}`;
+    if (seen.has(key) || coveredByManual(event, manual)) {
+      duplicates++;
+      return;
+    }
+    seen.add(key);
+
+    const wrongAction = describeWrongAction(turn);
+    const meta = JSON.parse(event.metadata || "{}");
+    const evidence = meta.correction_evidence as { files_edited: string[]; undone: UndoneEdit[] } | undefined;
+    appendLog("corrections.jsonl", {
+      timestamp: event.timestamp,
+      branch: event.branch,
+      user_said: event.content.slice(0, 1000),
+      wrong_action: wrongAction,
+      // Unknown for transcript captures; a fixed phrase here would make every capture look alike to clustering
+      root_cause: "",
+      category: categorizeCorrection(event.content, wrongAction),
+      confidence: meta.correction_confidence,
+      ...(evidence ? {
+        files: evidence.files_edited.map(projectPath),
+        undone: evidence.undone.map((u) => ({ ...u, file: projectPath(u.file) })),
+      } : {}),
+      source: "transcript",
+      session_id: event.session_id,
+      source_file: event.source_file,
+      source_line: event.source_line,
+    });
+    captured++;
+  };
+
+  return {
+    push,
+    /** Refresh patterns if anything new was captured. */
+    async finish(): Promise<CaptureResult> {
+      const patterns = captured > 0 ? (await refreshPatterns()).length : 0;
+      return { captured, duplicates, patterns };
+    },
+  };
+}
+
+/**
+ * Append transcript corrections to corrections.jsonl and refresh patterns if
+ * anything new was captured. Each session's events must be in order so the
+ * preceding assistant turn is found.
+ */
+export async function captureCorrections(events: TimelineEvent[]): Promise<CaptureResult> {
+  const capture = createCorrectionCapture();
+  for (const event of events) capture.push(event);
+  return capture.finish();
+}
+
+/**
+ * Capture corrections from this project's transcripts, reading each one from
+ * where the last run left it. Meant to run unawaited at server start; never throws.
+ */
+export async function captureProjectCorrections(): Promise<CaptureResult | null> {
+  try {
+    const sessionDir = sessionDirFor(PROJECT_DIR);
+    if (!sessionDir) return null;
+
+    const state = loadState(CAPTURE_STATE);
+    const files: Record<string, CapturedFile> = state.files ?? {};
+    const { project, projectName } = inferProject(sessionDir);
+    const capture = createCorrectionCapture();
+
+    for (const f of findSessionFiles(sessionDir)) {
+      let size: number;
+      try {
+        size = statSync(f.path).size;
+      } catch {
+        continue;
+      }
+      const known = files[f.path];
+      if (known?.size === size) continue;
+      // Shorter than where we stopped: rewritten, not appended to — start over
+      let resume = known?.cursor && known.cursor.offset <= size ? known.cursor : undefined;
+      let chunkStart = resume;
+      try {
+        for await (const chunk of streamSessionEvents(f.path, project, projectName, resume)) {
+          if (chunk.events.length > 0) resume = chunkStart;
+          for (const event of chunk.events) capture.push(event);
+          chunkStart = chunk.cursor;
+        }
+      } catch (err) {
+        process.stderr.write(`preflight: correction capture skipped ${f.path} — ${err}\n`);
+        continue;
+      }
+      files[f.path] = { size, ...(resume ? { cursor: resume } : {}) };
+      // Give the server's requests a turn between files
+      await new Promise((r) => setImmediate(r));
+    }
+
+    const result = await capture.finish();
+    saveState(CAPTURE_STATE, { files, last_run: new Date().toISOString(), last_captured: result.captured });
+    return result;
+  } catch (err) {
+    process.stderr.write(`preflight: correction capture failed — ${err}\n`);
+    return null;
+  }
+}
+
+/**
+ * Past corrections that touched any of `files`, most recent first. Only
+ * corrections with file evidence (transcript captures) can match.
+ */
+export function findFileCorrections(files: string[]): FileCorrection[] {
+  if (files.length === 0) return [];
+  const byFile = new Map<string, FileCorrection>();
+
+  for (const c of readLog("corrections.jsonl")) {
+    for (const file of (c.files as string[] | undefined) ?? []) {
+      if (!files.some((f) => samePath(f, file))) continue;
+      const undone = ((c.undone as UndoneEdit[] | undefined) ?? []).find((u) => u.file === file);
+      const hit = byFile.get(file);
+      if (!hit) {
+        byFile.set(file, {
+          file,
+          count: 1,
+          lastSeen: c.timestamp,
+          user_said: c.user_said ?? "",
+          ...(undone ? { undone: { kind: undone.kind, hunk: undone.hunk } } : {}),
+        });
+        continue;
+      }
+      hit.count++;
+      if ((c.timestamp ?? "") > hit.lastSeen) {
+        hit.lastSeen = c.timestamp;
+        hit.user_said = c.user_said ?? "";
+        if (undone) hit.undone = { kind: undone.kind, hunk: undone.hunk };
+      } else if (!hit.undone && undone) {
+        hit.undone = { kind: undone.kind, hunk: undone.hunk };
+      }
+    }
+  }
+  return [...byFile.values()].sort((a, b) => b.lastSeen.localeCompare(a.lastSeen));
+}
+
+/** One-line warning: "Last time you edited `src/auth/jwt.ts` you were corrected (2x, 3 days ago): …" */
+export function formatFileCorrection(fc: FileCorrection): string {
+  const said = fc.user_said.split("\n")[0].slice(0, 120);
+  const line = `Last time you edited \`${fc.file}\` you were corrected (${fc.count}x, ${formatTimeAgo(fc.lastSeen)}): "${said}"`;
+  if (!fc.undone) return line;
+  const hunk = fc.undone.hunk.split("\n").map((l) => l.trim()).find(Boolean)?.slice(0, 80) ?? "";
+  return `${line} — your change \`${hunk}\` was ${fc.undone.kind}`;
+}
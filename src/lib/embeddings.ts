@@ -1,4 +1,4 @@
-import { pipeline } from "@xenova/transformers";
+import type { FeatureExtractionPipeline } from "@xenova/transformers";
 
 // --- Types ---
 
@@ -6,6 +6,31 @@ export interface EmbeddingProvider {
   embed(text: string): Promise<number[]>;
   embedBatch(texts: string[]): Promise<number[][]>;
   dimensions: number;
+  /** Provider kind, as configured ("local", "openai", "openai-compatible", "ollama"). */
+  provider: EmbeddingProviderName;
+  model: string;
+}
+
+export type EmbeddingProviderName = "local" | "openai" | "openai-compatible" | "ollama";
+
+export const EMBEDDING_PROVIDERS: readonly EmbeddingProviderName[] = ["local", "openai", "openai-compatible", "ollama"];
+
+/** `.preflight/config.yml` `embeddings:` — every field but `provider` has a per-provider default. */
+export interface EmbeddingConfig {
+  provider: EmbeddingProviderName;
+  /** Xenova model id for local, the server's model name otherwise. */
+  model?: string;
+  /** Vector size. Required for models not in KNOWN_DIMENSIONS. */
+  dimensions?: number;
+  /** API root: `…/v1` for OpenAI-compatible servers, the Ollama host for ollama. */
+  base_url?: string;
+  /** Texts per request. */
+  batch_size?: number;
+  api_key?: string;
+  /** Environment variable to read the key from when `api_key` isn't set. */
+  api_key_env?: string;
+  /** Header carrying the key, sent raw. Default: `Authorization: Bearer <key>`. */
+  auth_header?: string;
 }
 
 // --- Text Preprocessing ---
@@ -24,25 +49,78 @@ export function preprocessText(text: string): string {
   return t;
 }
 
+// --- Defaults ---
+
+const DEFAULTS: Record<EmbeddingProviderName, { model: string; base_url: string; batch_size: number; api_key_env?: string }> = {
+  local: { model: "Xenova/all-MiniLM-L6-v2", base_url: "", batch_size: 1 },
+  openai: { model: "text-embedding-3-small", base_url: "https://api.openai.com/v1", batch_size: 100, api_key_env: "OPENAI_API_KEY" },
+  "openai-compatible": { model: "", base_url: "", batch_size: 100 },
+  ollama: { model: "nomic-embed-text", base_url: "http://localhost:11434", batch_size: 32 },
+};
+
+/** Output sizes of common embedding models, so `dimensions` can usually be left out. */
+const KNOWN_DIMENSIONS: Record<string, number> = {
+  "Xenova/all-MiniLM-L6-v2": 384,
+  "Xenova/all-MiniLM-L12-v2": 384,
+  "Xenova/paraphrase-multilingual-MiniLM-L12-v2": 384,
+  "Xenova/bge-small-en-v1.5": 384,
+  "Xenova/bge-base-en-v1.5": 768,
+  "Xenova/bge-large-en-v1.5": 1024,
+  "Xenova/all-mpnet-base-v2": 768,
+  "Xenova/gte-small": 384,
+  "Xenova/multilingual-e5-small": 384,
+  "nomic-ai/nomic-embed-text-v1.5": 768,
+  "text-embedding-3-small": 1536,
+  "text-embedding-3-large": 3072,
+  "text-embedding-ada-002": 1536,
+  "nomic-embed-text": 768,
+  "mxbai-embed-large": 1024,
+  "all-minilm": 384,
+  "bge-m3": 1024,
+  "snowflake-arctic-embed": 1024,
+};
+
+function knownDimensions(model: string): number | undefined {
+  // Ollama tags ("nomic-embed-text:latest") and gateway prefixes ("openai/text-embedding-3-small")
+  const bare = model.replace(/:[^/:]+$/, "");
+  return KNOWN_DIMENSIONS[bare] ?? KNOWN_DIMENSIONS[bare.split("/").pop() ?? bare];
+}
+
+/** Vectors must match the size tables were created with; a wrong `dimensions` fails here, not in LanceDB. */
+function checkDimensions(vectors: number[][], expected: number, model: string): number[][] {
+  const wrong = vectors.find((v) => v.length !== expected);
+  if (wrong) {
+    throw new Error(`Embedding model ${model} returned ${wrong.length}-dim vectors, expected ${expected} — set embeddings.dimensions to ${wrong.length}`);
+  }
+  return vectors;
+}
+
 // --- Local Provider (Xenova/transformers) ---
 
-let extractor: any = null;
+const extractors = new Map<string, Promise<FeatureExtractionPipeline>>();
 
-async function getExtractor(): Promise<any> {
+/** One pipeline per model; transformers is imported lazily so remote providers never load it. */
+function getExtractor(model: string): Promise<FeatureExtractionPipeline> {
+  let extractor = extractors.get(model);
   if (!extractor) {
-    extractor = await pipeline("feature-extraction", "Xenova/all-MiniLM-L6-v2");
+    extractor = import("@xenova/transformers").then(({ pipeline }) => pipeline("feature-extraction", model));
+    // A failed download shouldn't be cached for the life of the server
+    extractor.catch(() => extractors.delete(model));
+    extractors.set(model, extractor);
   }
   return extractor;
 }
 
 class LocalEmbeddingProvider implements EmbeddingProvider {
-  dimensions = 384;
+  provider = "local" as const;
+
+  constructor(public model: string, public dimensions: number) {}
 
   async embed(text: string): Promise<number[]> {
-    const ext = await getExtractor();
+    const ext = await getExtractor(this.model);
     const processed = preprocessText(text);
     const output = await ext(processed, { pooling: "mean", normalize: true });
-    return Array.from(output.data as Float32Array);
+    return checkDimensions([Array.from(output.data as Float32Array)], this.dimensions, this.model)[0];
   }
 
   async embedBatch(texts: string[]): Promise<number[][]> {
@@ -54,15 +132,18 @@ class LocalEmbeddingProvider implements EmbeddingProvider {
   }
 }
 
-// --- OpenAI Provider ---
-
-class OpenAIEmbeddingProvider implements EmbeddingProvider {
-  dimensions = 1536;
-  private apiKey: string;
+// --- OpenAI-compatible Provider ---
 
-  constructor(apiKey: string) {
-    this.apiKey = apiKey;
-  }
+/** api.openai.com or anything speaking its /embeddings API (gateways, vLLM, LiteLLM, LM Studio). */
+class OpenAICompatibleEmbeddingProvider implements EmbeddingProvider {
+  constructor(
+    public provider: "openai" | "openai-compatible",
+    public model: string,
+    public dimensions: number,
+    private baseUrl: string,
+    private batchSize: number,
+    private headers: Record<string, string>,
+  ) {}
 
   async embed(text: string): Promise<number[]> {
     const [result] = await this.embedBatch([text]);
@@ -73,29 +154,66 @@ class OpenAIEmbeddingProvider implements EmbeddingProvider {
     const results: number[][] = [];
     const processed = texts.map(preprocessText);
 
-    // Batch up to 100 at a time
-    for (let i = 0; i < processed.length; i += 100) {
-      const batch = processed.slice(i, i + 100);
-      const resp = await fetch("https://api.openai.com/v1/embeddings", {
+    for (let i = 0; i < processed.length; i += this.batchSize) {
+      const batch = processed.slice(i, i + this.batchSize);
+      const resp = await fetch(`${this.baseUrl}/embeddings`, {
         method: "POST",
-        headers: {
-          Authorization: `Bearer ${this.apiKey}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({ model: "text-embedding-3-small", input: batch }),
+        headers: { ...this.headers, "Content-Type": "application/json" },
+        body: JSON.stringify({ model: this.model, input: batch }),
       });
 
       if (!resp.ok) {
         const err = await resp.text();
-        throw new Error(`OpenAI embeddings API error ${resp.status}: ${err}`);
+        throw new Error(`Embeddings API error ${resp.status} from ${this.baseUrl}: ${err}`);
       }
 
       const data = await resp.json();
       // Sort by index to preserve order
       const sorted = data.data.sort((a: any, b: any) => a.index - b.index);
-      for (const item of sorted) {
-        results.push(item.embedding);
+      results.push(...checkDimensions(sorted.map((item: any) => item.embedding), this.dimensions, this.model));
+    }
+
+    return results;
+  }
+}
+
+// --- Ollama Provider ---
+
+class OllamaEmbeddingProvider implements EmbeddingProvider {
+  provider = "ollama" as const;
+
+  constructor(
+    public model: string,
+    public dimensions: number,
+    private baseUrl: string,
+    private batchSize: number,
+    private headers: Record<string, string>,
+  ) {}
+
+  async embed(text: string): Promise<number[]> {
+    const [result] = await this.embedBatch([text]);
+    return result;
+  }
+
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    const results: number[][] = [];
+    const processed = texts.map(preprocessText);
+
+    for (let i = 0; i < processed.length; i += this.batchSize) {
+      const batch = processed.slice(i, i + this.batchSize);
+      const resp = await fetch(`${this.baseUrl}/api/embed`, {
+        method: "POST",
+        headers: { ...this.headers, "Content-Type": "application/json" },
+        body: JSON.stringify({ model: this.model, input: batch }),
+      });
+
+      if (!resp.ok) {
+        const err = await resp.text();
+        throw new Error(`Ollama embeddings error ${resp.status} from ${this.baseUrl}: ${err}`);
       }
+
+      const data = await resp.json();
+      results.push(...checkDimensions(data.embeddings, this.dimensions, this.model));
     }
 
     return results;
@@ -104,15 +222,35 @@ class OpenAIEmbeddingProvider implements EmbeddingProvider {
 
 // --- Factory ---
 
-export interface EmbeddingConfig {
-  provider: "local" | "openai";
-  apiKey?: string;
+/** "ollama:nomic-embed-text" — what produced a set of vectors; vectors from different ids don't mix. */
+export function embeddingModelId(config: EmbeddingConfig): string {
+  return `${config.provider}:${config.model || DEFAULTS[config.provider]?.model || ""}`;
 }
 
 export function createEmbeddingProvider(config: EmbeddingConfig): EmbeddingProvider {
-  if (config.provider === "openai") {
-    if (!config.apiKey) throw new Error("OpenAI API key required for openai embedding provider");
-    return new OpenAIEmbeddingProvider(config.apiKey);
+  const defaults = DEFAULTS[config.provider];
+  if (!defaults) {
+    throw new Error(`Unknown embedding provider "${config.provider}" — expected one of ${EMBEDDING_PROVIDERS.join(", ")}`);
   }
-  return new LocalEmbeddingProvider();
+  const model = config.model || defaults.model;
+  if (!model) throw new Error(`embeddings.model is required for the ${config.provider} embedding provider`);
+  const dimensions = config.dimensions ?? knownDimensions(model);
+  if (!dimensions) throw new Error(`embeddings.dimensions is required for ${model} (its vector size isn't known to preflight)`);
+  const batchSize = Math.max(1, config.batch_size ?? defaults.batch_size);
+
+  if (config.provider === "local") return new LocalEmbeddingProvider(model, dimensions);
+
+  const baseUrl = (config.base_url || defaults.base_url).replace(/\/+$/, "");
+  if (!baseUrl) throw new Error(`embeddings.base_url is required for the ${config.provider} embedding provider`);
+  const keyEnv = config.api_key_env ?? defaults.api_key_env;
+  const apiKey = config.api_key ?? (keyEnv ? process.env[keyEnv] : undefined);
+  if (config.provider === "openai" && !apiKey) throw new Error("OpenAI API key required for openai embedding provider");
+  const headers: Record<string, string> = !apiKey
+    ? {}
+    : config.auth_header
+      ? { [config.auth_header]: apiKey }
+      : { Authorization: `Bearer ${apiKey}` };
+
+  if (config.provider === "ollama") return new OllamaEmbeddingProvider(model, dimensions, baseUrl, batchSize, headers);
+  return new OpenAICompatibleEmbeddingProvider(config.provider, model, dimensions, baseUrl, batchSize, headers);
 }
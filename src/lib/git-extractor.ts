@@ -4,8 +4,7 @@
 import { execSync } from "child_process";
 import { existsSync } from "fs";
 import { join } from "path";
-import { randomUUID } from "crypto";
-import type { TimelineEvent } from "./session-parser.js";
+import { eventId, type TimelineEvent } from "./session-parser.js";
 
 // In git --format, %% produces a literal %. So we use %%…%% in the format
 // string, but the actual output contains %…%. We need separate constants.
@@ -17,12 +16,73 @@ const COMMIT_SEP = "%COMMIT_START%";
 const COMMIT_END = "%COMMIT_END%";
 const FIELD_SEP = "%F%";
 
+/** Whether `hash` names a commit in the repo (it may have been rebased away). */
+export function commitExists(projectDir: string, hash: string): boolean {
+  if (!/^[0-9a-f]{7,40}$/i.test(hash)) return false;
+  try {
+    execSync(`git cat-file -e ${hash}^{commit}`, { cwd: projectDir, stdio: "pipe" });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** The subset of `hashes` that name commits in the repo, in one git call. */
+function existingCommits(projectDir: string, hashes: string[]): string[] {
+  if (hashes.length === 0) return [];
+  try {
+    const out = execSync("git cat-file --batch-check", {
+      cwd: projectDir,
+      input: hashes.join("\n") + "\n",
+      encoding: "utf-8",
+      stdio: ["pipe", "pipe", "pipe"],
+    });
+    return out.split("\n").filter((l) => / commit /.test(l)).map((l) => l.split(" ")[0]);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * The commit every ref (and HEAD) points at, deduplicated. Recorded after
+ * indexing so the next pass can leave out everything reachable from any of
+ * them — including branches that don't share history with HEAD.
+ */
+export function gitRefTips(projectDir: string): string[] {
+  const tips = new Set<string>();
+  try {
+    const refs = execSync("git for-each-ref --format='%(objectname) %(objecttype) %(*objectname) %(*objecttype)'", {
+      cwd: projectDir,
+      encoding: "utf-8",
+      stdio: ["pipe", "pipe", "pipe"],
+      maxBuffer: 16 * 1024 * 1024,
+    });
+    for (const line of refs.split("\n")) {
+      const [hash, type, peeled, peeledType] = line.trim().split(" ");
+      // Annotated tags point at a tag object; take the commit it tags
+      if (type === "commit") tips.add(hash);
+      else if (peeledType === "commit") tips.add(peeled);
+    }
+  } catch {
+    // Not a repo, or no refs yet
+  }
+  // A detached HEAD isn't a ref
+  try {
+    tips.add(execSync("git rev-parse --verify -q HEAD^{commit}", { cwd: projectDir, encoding: "utf-8", stdio: "pipe" }).trim());
+  } catch {
+    // Unborn branch
+  }
+  return [...tips];
+}
+
 /**
- * Extract git commits as TimelineEvent[].
+ * Extract git commits as TimelineEvent[], newest first. `from` lists history
+ * from those commits instead of every ref. With `after`, commits reachable
+ * from any of those are left out; ones that no longer exist are ignored.
  */
 export function extractGitHistory(
   projectDir: string,
-  opts?: { since?: Date; branch?: string; maxCount?: number },
+  opts?: { since?: Date; branch?: string; maxCount?: number; from?: string[]; after?: string[] },
 ): TimelineEvent[] {
   if (!existsSync(join(projectDir, ".git"))) {
     // Try bare dir or parent — but most likely just not a repo
@@ -35,11 +95,18 @@ export function extractGitHistory(
 
   const args: string[] = ["git", "log"];
 
+  // Revisions go on stdin: a repo can have more refs than fit on a command line
+  const revs: string[] = [];
   if (opts?.branch) {
     args.push(opts.branch);
+  } else if (opts?.from) {
+    if (opts.from.length === 0) return [];
+    revs.push(...opts.from);
   } else {
     args.push("--all");
   }
+  revs.push(...existingCommits(projectDir, opts?.after ?? []).map((hash) => `^${hash}`));
+  if (revs.length > 0) args.push("--stdin");
 
   const maxCount = opts?.maxCount ?? 10000;
   args.push(`--max-count=${maxCount}`);
@@ -58,6 +125,7 @@ export function extractGitHistory(
   try {
     output = execSync(args.join(" "), {
       cwd: projectDir,
+      input: revs.join("\n"),
       encoding: "utf-8",
       maxBuffer: 50 * 1024 * 1024,
       stdio: ["pipe", "pipe", "pipe"],
@@ -74,6 +142,20 @@ export function extractGitHistory(
   return parseGitOutput(output, projectDir, projectName);
 }
 
+/** Commits whose author contains any of `authors` (case-insensitive); all of them if none are given. */
+export function filterCommitsByAuthor(events: TimelineEvent[], authors?: string[]): TimelineEvent[] {
+  if (!authors || authors.length === 0) return events;
+  const patterns = authors.map((a) => a.toLowerCase());
+  return events.filter((e) => {
+    try {
+      const author = String(JSON.parse(e.metadata || "{}").author ?? "").toLowerCase();
+      return patterns.some((p) => author.includes(p));
+    } catch {
+      return true;
+    }
+  });
+}
+
 // ── Internal ───────────────────────────────────────────────────────────────
 
 function parseGitOutput(raw: string, project: string, projectName: string): TimelineEvent[] {
@@ -115,7 +197,7 @@ function parseGitOutput(raw: string, project: string, projectName: string): Time
       });
 
       events.push({
-        id: randomUUID(),
+        id: eventId(`git:${hash}`, 0),
         timestamp: new Date(dateStr).toISOString(),
         type: "commit",
         project,
@@ -7,14 +7,14 @@ import type { RunError } from "../types.js";
  * Accepts an array of args (preferred) or a string (split on whitespace for backward compat).
  * Returns stdout on success. On failure, returns a descriptive error string.
  */
-export function run(argsOrCmd: string | string[], opts: { timeout?: number } = {}): string {
+export function run(argsOrCmd: string | string[], opts: { timeout?: number; maxBuffer?: number } = {}): string {
   const args = typeof argsOrCmd === "string" ? argsOrCmd.split(/\s+/) : argsOrCmd;
   try {
     return execFileSync("git", args, {
       cwd: PROJECT_DIR,
       encoding: "utf-8",
       timeout: opts.timeout || 10000,
-      maxBuffer: 1024 * 1024,
+      maxBuffer: opts.maxBuffer ?? 1024 * 1024,
       stdio: ["pipe", "pipe", "pipe"],
     }).trim();
   } catch (e: any) {
@@ -22,6 +22,8 @@ export function run(argsOrCmd: string | string[], opts: { timeout?: number } = {
     if (timedOut) {
       return `[timed out after ${opts.timeout || 10000}ms]`;
     }
+    // Partial stdout would pass for the whole output
+    if (e.code === "ENOBUFS") return `[output of git ${args.join(" ")} exceeded ${opts.maxBuffer ?? 1024 * 1024} bytes]`;
     // Return stderr/stdout if available, otherwise the error message
     const output = e.stdout?.trim() || e.stderr?.trim();
     if (output) return output;
@@ -40,6 +42,22 @@ export function getBranch(): string {
   return run(["branch", "--show-current"]);
 }
 
+/**
+ * Paths with uncommitted changes, from `git status --porcelain`; a rename
+ * gives its new path. Empty when git fails.
+ */
+export function getDirtyFiles(): string[] {
+  const status = run(["status", "--porcelain"]);
+  if (status.startsWith("[")) return [];
+  const files = new Set<string>();
+  for (const line of status.split("\n")) {
+    // run() trims output, so the first line may have lost its leading status space
+    const path = line.replace(/^[ MADRCU?!]{1,2}\s+/, "").split(" -> ").pop()?.trim();
+    if (path) files.add(path);
+  }
+  return [...files];
+}
+
 /** Get short git status. */
 export function getStatus(): string {
   return run(["status", "--short"]);
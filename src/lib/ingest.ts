@@ -0,0 +1,250 @@
+/**
+ * ingest.ts — Streaming ingestion of sessions and git history into LanceDB.
+ *
+ * file → records → events → embedding batches → LanceDB writes, as a chain
+ * of async iterators. Each batch is embedded and written before the parser
+ * is asked for more, so memory holds one batch (plus the turn being parsed)
+ * regardless of session size. After every write the file's cursor is saved
+ * to the project's ingestion ledger, so an interrupted or repeated onboarding
+ * resumes at the first record that wasn't stored, and files that haven't
+ * grown are skipped. The ledger also records the ref tips git was indexed up to.
+ * Sessions that gained events get their summary (session-summary.ts) rebuilt last.
+ */
+import { statSync } from "fs";
+import { resolve, basename } from "path";
+import {
+  findSessionFiles,
+  streamSessionEvents,
+  type SessionCursor,
+  type TimelineEvent,
+} from "./session-parser.js";
+import type { EmbeddingProvider } from "./embeddings.js";
+import type { GitScope } from "./timeline-db.js";
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+export interface IngestProgress {
+  /** Bytes of session files read, then one unit per git event. */
+  progress: number;
+  total: number;
+  message: string;
+}
+
+export interface IngestOptions {
+  projectDir: string;
+  embedder: EmbeddingProvider;
+  /** ~/.claude/projects/<encoded> directory holding the project's sessions. */
+  sessionDir?: string;
+  /** Already-extracted git events, written after the sessions. */
+  gitEvents?: TimelineEvent[];
+  /** Ref tips `gitEvents` were listed up to; recorded once they're stored. */
+  gitTips?: string[];
+  /** Authors and start date `gitEvents` were filtered to; recorded with the tips. */
+  gitScope?: GitScope;
+  /** Events per embedding call and LanceDB write. */
+  batchSize?: number;
+  /** Ignore the saved ledger and read every session file from the start. */
+  reset?: boolean;
+  /** Leave the open last turn of a session file modified this recently for a later pass (see streamSessionEvents). */
+  settleMs?: number;
+  /** Compact the table and fold new rows into its indices afterwards (default true). The full-text index is created either way. */
+  optimize?: boolean;
+  /** Rebuild the summaries of sessions that stored events (default true). Off for a caller that throttles them itself. */
+  summaries?: boolean;
+  onProgress?: (progress: IngestProgress) => void | Promise<void>;
+  /** Stop after the batch being written; everything stored so far stays resumable. */
+  signal?: AbortSignal;
+}
+
+export interface IngestResult {
+  /** Session files read (fully or from a cursor). */
+  files: number;
+  /** Files picked up from a saved cursor rather than the start. */
+  resumed: number;
+  /** Files skipped because nothing was appended since the last run. */
+  unchanged: number;
+  /** Files whose open last turn was left for a later pass (see `settleMs`). */
+  held: number;
+  events: number;
+  byType: Record<string, number>;
+  /** Sessions that stored events, whose summaries are now out of date. */
+  sessions: string[];
+}
+
+interface PlannedFile {
+  path: string;
+  size: number;
+  mtime: Date;
+  from?: SessionCursor;
+}
+
+// ── Constants ──────────────────────────────────────────────────────────────
+
+const DEFAULT_BATCH_SIZE = 50;
+
+// ── Batching ───────────────────────────────────────────────────────────────
+
+/**
+ * Embeds and writes events in fixed-size batches. `add` resolves only once
+ * any full batch is stored — that await is the pipeline's backpressure.
+ */
+function createBatchWriter(opts: IngestOptions, result: IngestResult) {
+  const size = opts.batchSize ?? DEFAULT_BATCH_SIZE;
+  let buffer: TimelineEvent[] = [];
+  const sessions = new Set<string>();
+
+  const write = async (events: TimelineEvent[]) => {
+    const { insertEvents } = await import("./timeline-db.js");
+    for (let i = 0; i < events.length; i += size) {
+      const batch = events.slice(i, i + size);
+      const vectors = await opts.embedder.embedBatch(batch.map((e) => e.content));
+      await insertEvents(
+        batch.map((e, j) => ({ ...e, vector: vectors[j] })),
+        opts.projectDir,
+        opts.embedder,
+      );
+      for (const e of batch) {
+        result.byType[e.type] = (result.byType[e.type] ?? 0) + 1;
+        if (e.session_id) sessions.add(e.session_id);
+      }
+      result.events += batch.length;
+    }
+  };
+
+  return {
+    /** Sessions that stored events — their summaries are stale. */
+    sessions,
+    /** Queue events; returns true if a write happened (queued events are now stored). */
+    async add(events: TimelineEvent[]): Promise<boolean> {
+      buffer.push(...events);
+      if (buffer.length < size) return false;
+      const full = buffer;
+      buffer = [];
+      await write(full);
+      return true;
+    },
+    async flush(): Promise<void> {
+      if (buffer.length === 0) return;
+      const rest = buffer;
+      buffer = [];
+      await write(rest);
+    },
+  };
+}
+
+// ── Public API ─────────────────────────────────────────────────────────────
+
+/**
+ * Ingest a project's session files (resuming from saved cursors) and then
+ * its git events, reporting progress after every stored batch. Holds the
+ * project's ingestion lock throughout, so concurrent callers run in turn.
+ */
+export async function ingestProject(opts: IngestOptions): Promise<IngestResult> {
+  const { acquireIngestLock } = await import("./timeline-db.js");
+  const release = await acquireIngestLock(opts.projectDir, opts.signal);
+  if (!release) return { files: 0, resumed: 0, unchanged: 0, held: 0, events: 0, byType: {}, sessions: [] };
+  try {
+    return await ingestLocked(opts);
+  } finally {
+    await release();
+  }
+}
+
+async function ingestLocked(opts: IngestOptions): Promise<IngestResult> {
+  const { loadIngestLedger, saveIngestLedger } = await import("./timeline-db.js");
+  const result: IngestResult = { files: 0, resumed: 0, unchanged: 0, held: 0, events: 0, byType: {}, sessions: [] };
+  const projectDir = resolve(opts.projectDir);
+  const aborted = () => opts.signal?.aborted === true;
+  const projectName = basename(projectDir);
+  const ledger = opts.reset ? { files: {} } : await loadIngestLedger(projectDir);
+
+  // Plan first so progress has a total: bytes still unread in every file
+  const planned: PlannedFile[] = [];
+  let sessionBytes = 0;
+  for (const f of opts.sessionDir ? findSessionFiles(opts.sessionDir) : []) {
+    let size: number;
+    try {
+      size = statSync(f.path).size;
+    } catch {
+      continue;
+    }
+    let from: SessionCursor | undefined = ledger.files[f.path]?.cursor;
+    // Shorter than where we stopped: rewritten, not appended to — start over
+    if (from && from.offset > size) from = undefined;
+    if (from && from.offset === size) {
+      result.unchanged++;
+      continue;
+    }
+    planned.push({ path: f.path, size, mtime: f.mtime, ...(from ? { from } : {}) });
+    sessionBytes += size - (from?.offset ?? 0);
+  }
+  planned.sort((a, b) => a.mtime.getTime() - b.mtime.getTime());
+
+  const gitEvents = opts.gitEvents ?? [];
+  const total = sessionBytes + gitEvents.length;
+  let done = 0;
+  const report = async (message: string) => {
+    await opts.onProgress?.({ progress: Math.min(done, total), total, message });
+  };
+
+  const writer = createBatchWriter(opts, result);
+
+  for (const file of planned) {
+    if (aborted()) break;
+    result.files++;
+    if (file.from) result.resumed++;
+    const startOffset = file.from?.offset ?? 0;
+    let readTo = startOffset;
+    let pending: SessionCursor | undefined;
+
+    const commit = async () => {
+      if (!pending) return;
+      ledger.files[file.path] = { size: file.size, mtime: file.mtime.toISOString(), cursor: pending };
+      await saveIngestLedger(projectDir, ledger);
+      done += pending.offset - readTo;
+      readTo = pending.offset;
+      await report(`${basename(file.path)}: ${result.events} events stored`);
+    };
+
+    for await (const chunk of streamSessionEvents(file.path, projectDir, projectName, file.from, { settleMs: opts.settleMs })) {
+      pending = chunk.cursor;
+      if (chunk.held) result.held++;
+      if (await writer.add(chunk.events)) {
+        await commit();
+        if (aborted()) break;
+      }
+    }
+    // The last chunk's cursor is end-of-file (or a held-back open turn); only save it once its events are stored
+    await writer.flush();
+    await commit();
+  }
+
+  for (let i = 0; i < gitEvents.length && !aborted(); i++) {
+    done++;
+    if (await writer.add([gitEvents[i]])) await report(`git history: ${i + 1}/${gitEvents.length} commits`);
+  }
+  await writer.flush();
+  if (opts.gitTips && opts.gitTips.length > 0 && !aborted()) {
+    ledger.git = { tips: opts.gitTips, ...opts.gitScope, indexed_at: new Date().toISOString() };
+    await saveIngestLedger(projectDir, ledger);
+  }
+  result.sessions = [...writer.sessions];
+  if (opts.summaries !== false && writer.sessions.size > 0 && !aborted()) {
+    const { refreshSessionSummaries } = await import("./session-summary.js");
+    await refreshSessionSummaries(projectDir, writer.sessions, opts.embedder).catch((err) => {
+      process.stderr.write(`preflight: session summaries failed — ${err}\n`);
+    });
+  }
+  if (result.events > 0) {
+    // One fragment per batch otherwise, and rows outside the full-text index until compaction.
+    // A caller that compacts on its own schedule still gets the index search expects.
+    const { optimizeEventsTable, ensureFtsIndex } = await import("./timeline-db.js");
+    await (opts.optimize !== false ? optimizeEventsTable(projectDir) : ensureFtsIndex(projectDir)).catch((err) => {
+      process.stderr.write(`preflight: timeline optimize failed — ${err}\n`);
+    });
+  }
+  done = total;
+  await report(`done: ${result.events} events stored`);
+
+  return result;
+}
@@ -0,0 +1,50 @@
+// =============================================================================
+// Dual-render tool output
+// =============================================================================
+// Tools build a typed data object alongside their markdown sections. The data
+// is always attached as MCP structured content, described by the output
+// schema each tool registers; `output_format: "json"` also makes it the text
+// content, so hooks and wrapper scripts never have to regex-scrape markdown.
+// =============================================================================
+
+import { z } from "zod";
+import type { OutputFormat, ToolResult } from "../types.js";
+import { TRIAGE_LEVELS } from "./triage-rules.js";
+
+/** Shared `output_format` parameter for tool input schemas. */
+export const outputFormatParam = z
+  .enum(["markdown", "json"])
+  .default("markdown")
+  .describe("markdown (default) for humans, json for hooks/scripts. Structured content is attached either way.");
+
+export const triageLevelSchema = z.enum(TRIAGE_LEVELS);
+
+/** A multiple-choice clarification question (see clarify.ts). */
+export const clarifyQuestionSchema = z.object({
+  id: z.string(),
+  kind: z.enum(["target", "file", "branch", "error", "free"]),
+  term: z.string().optional(),
+  question: z.string(),
+  options: z.array(z.string()),
+});
+
+/** How an elicitation round ended. */
+export const elicitationStatusSchema = z.enum(["answered", "declined", "cancelled", "unsupported", "failed"]);
+
+/** A prompt noun with several places in the repo it could mean. */
+export const ambiguousTargetSchema = z.object({
+  term: z.string(),
+  candidates: z.array(z.string()),
+});
+
+/** Build a tool result from markdown and its typed equivalent. */
+export function renderResult(
+  markdown: string,
+  data: Record<string, unknown>,
+  format: OutputFormat = "markdown",
+): ToolResult {
+  return {
+    content: [{ type: "text" as const, text: format === "json" ? JSON.stringify(data, null, 2) : markdown }],
+    structuredContent: data,
+  };
+}
@@ -2,12 +2,39 @@
  * Correction pattern learning system.
  * Analyzes correction logs and extracts recurring patterns so preflight
  * can warn about known pitfalls before they happen again.
+ *
+ * Corrections are clustered by embedding similarity (configured provider,
+ * thresholds in config.yml), so "used the wrong Prisma client" and "imported
+ * db from the legacy module" land together without sharing a keyword. When
+ * embeddings are unavailable, clustering and matching fall back to keyword
+ * overlap. Pattern IDs hash the cluster's earliest correction, so they stay
+ * stable as new corrections join.
+ *
+ * Patterns are persistent records with a lifecycle: active → acknowledged →
+ * resolved, or muted. Status survives re-extraction; a resolved pattern that
+ * is corrected again comes back as active. Patterns fade with time since
+ * they were last seen and stop matching once expired. Exporting writes them
+ * to .preflight/patterns.yml so teammates inherit them through git.
  */
 
-import { readLog, saveState, loadState } from "./state.js";
+import { createHash } from "crypto";
+import { existsSync, readFileSync, writeFileSync, mkdirSync } from "fs";
+import { join, dirname } from "path";
+import { load as yamlLoad, dump as yamlDump } from "js-yaml";
+import { readLogWithRotated, saveState, loadState } from "./state.js";
+import { getConfig } from "./config.js";
+import { PROJECT_DIR } from "./files.js";
+import type { EmbeddingProvider } from "./embeddings.js";
 
 // ── Types ──────────────────────────────────────────────────────────────────
 
+/**
+ * active: warns and can raise the triage level. acknowledged: still warns,
+ * but no longer raises triage. resolved: fixed at the root, no warnings
+ * unless it recurs. muted: never warns and is not exported.
+ */
+export type PatternStatus = "active" | "acknowledged" | "resolved" | "muted";
+
 export interface CorrectionPattern {
   id: string;
   pattern: string;
@@ -16,8 +43,42 @@ export interface CorrectionPattern {
   lastSeen: string;
   context: string;
   examples: string[];
+  /** Mean embedding of the member corrections (absent for keyword-only patterns). */
+  centroid?: number[];
+  status: PatternStatus;
+  statusChangedAt?: string;
+  /** Why the status was changed ("fixed by moving db access into repo layer"). */
+  note?: string;
+  /** "team" patterns come from .preflight/patterns.yml rather than this checkout's corrections. */
+  source?: "local" | "team";
+}
+
+/** A pattern triggered by a prompt, with how close the prompt came. */
+export interface PatternMatch extends CorrectionPattern {
+  /** Cosine similarity to the centroid, or keyword overlap when matched without embeddings. */
+  similarity: number;
+  method: "embedding" | "keyword";
+  /** Recency weight in (0, 1]: halves every `pattern_half_life_days` since lastSeen. */
+  decay: number;
+  /** The centroid came from another embedding model, so this matched by keyword until patterns are re-extracted. */
+  staleCentroid?: boolean;
+}
+
+interface CorrectionEntry {
+  key: string;
+  text: string;
+  keywords: string[];
+  timestamp: string;
+  userSaid: string;
 }
 
+// ── Constants ──────────────────────────────────────────────────────────────
+
+const VECTOR_STATE = "pattern-vectors";
+export const TEAM_PATTERNS_FILE = join(".preflight", "patterns.yml");
+const MATCHABLE: PatternStatus[] = ["active", "acknowledged"];
+const KEYWORD_CLUSTER_OVERLAP = 0.3;
+
 // ── Helpers ────────────────────────────────────────────────────────────────
 
 /** Extract meaningful keywords (3+ chars, lowercased, deduplicated). */
@@ -46,28 +107,62 @@ function keywordOverlap(a: string[], b: string[]): number {
   return shared / Math.min(a.length, b.length);
 }
 
-// ── Core Functions ─────────────────────────────────────────────────────────
+function cosine(a: number[], b: number[]): number {
+  if (a.length !== b.length) return 0;
+  let dot = 0, na = 0, nb = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    na += a[i] * a[i];
+    nb += b[i] * b[i];
+  }
+  return na === 0 || nb === 0 ? 0 : dot / Math.sqrt(na * nb);
+}
+
+function mean(vectors: number[][]): number[] {
+  const out = new Array(vectors[0].length).fill(0);
+  for (const v of vectors) for (let i = 0; i < v.length; i++) out[i] += v[i];
+  // 4 decimals keeps patterns.json readable-sized with no measurable loss
+  return out.map((x) => Math.round((x / vectors.length) * 1e4) / 1e4);
+}
+
+let _embedder: EmbeddingProvider | null = null;
+
+async function getEmbedder(): Promise<EmbeddingProvider> {
+  if (!_embedder) {
+    // Imported lazily: the keyword fallback shouldn't load transformers
+    const { createEmbeddingProvider } = await import("./embeddings.js");
+    _embedder = createEmbeddingProvider(getConfig().embeddings);
+  }
+  return _embedder;
+}
 
 /**
- * Read correction log and extract recurring patterns.
- * Groups corrections by keyword similarity. If 2+ corrections share
- * enough keywords, creates a pattern.
+ * Embed correction texts, reusing vectors cached in state. The cache is
+ * dropped when the provider or model changes, since the vectors won't line up.
  */
-export function extractPatterns(): CorrectionPattern[] {
-  const corrections = readLog("corrections.jsonl");
-  if (corrections.length === 0) return [];
+async function embedEntries(entries: CorrectionEntry[]): Promise<number[][]> {
+  const { embeddingModelId } = await import("./embeddings.js");
+  const model = embeddingModelId(getConfig().embeddings);
+  const cached = loadState(VECTOR_STATE);
+  const vectors: Record<string, number[]> = cached.model === model ? cached.vectors ?? {} : {};
 
-  // Build keyword index per correction
-  const entries = corrections.map((c) => ({
-    text: `${c.user_said || ""} ${c.wrong_action || ""} ${c.root_cause || ""}`,
-    keywords: extractKeywords(
-      `${c.user_said || ""} ${c.wrong_action || ""} ${c.root_cause || ""}`,
-    ),
-    timestamp: c.timestamp as string,
-    userSaid: (c.user_said || "") as string,
-  }));
+  const missing = entries.filter((e) => !vectors[e.key]);
+  if (missing.length > 0) {
+    const embedder = await getEmbedder();
+    const fresh = await embedder.embedBatch(missing.map((e) => e.text));
+    missing.forEach((e, i) => {
+      vectors[e.key] = fresh[i].map((x) => Math.round(x * 1e4) / 1e4);
+    });
+    // Only keep vectors for corrections that still exist
+    const live: Record<string, number[]> = {};
+    for (const e of entries) live[e.key] = vectors[e.key];
+    saveState(VECTOR_STATE, { model, vectors: live });
+  }
+  return entries.map((e) => vectors[e.key]);
+}
 
-  // Group by similarity (greedy clustering)
+/** Greedy keyword clustering — the fallback when embeddings are unavailable. */
+function clusterByKeywords(entries: CorrectionEntry[]): number[][] {
   const used = new Set<number>();
   const groups: number[][] = [];
 
@@ -77,119 +172,379 @@ export function extractPatterns(): CorrectionPattern[] {
     used.add(i);
     for (let j = i + 1; j < entries.length; j++) {
       if (used.has(j)) continue;
-      if (keywordOverlap(entries[i].keywords, entries[j].keywords) >= 0.3) {
+      if (keywordOverlap(entries[i].keywords, entries[j].keywords) >= KEYWORD_CLUSTER_OVERLAP) {
         group.push(j);
         used.add(j);
       }
     }
-    if (group.length >= 2) {
-      groups.push(group);
-    }
+    groups.push(group);
   }
+  return groups;
+}
 
-  // Convert groups to patterns
-  const patterns: CorrectionPattern[] = groups.map((group, idx) => {
-    const groupEntries = group.map((i) => entries[i]);
+/**
+ * Centroid clustering in log order: each correction joins the closest
+ * cluster whose centroid is within `threshold`, otherwise starts a new one.
+ * Log order is append-only (rotation moves older entries to .old, read
+ * first), so earlier assignments don't shift on refresh.
+ */
+function clusterByEmbedding(vectors: number[][], threshold: number): number[][] {
+  const groups: number[][] = [];
+  const centroids: number[][] = [];
 
-    // Merge keywords, ranked by frequency
-    const kwFreq: Record<string, number> = {};
-    for (const e of groupEntries) {
-      for (const kw of e.keywords) {
-        kwFreq[kw] = (kwFreq[kw] || 0) + 1;
+  for (let i = 0; i < vectors.length; i++) {
+    let best = -1;
+    let bestSim = threshold;
+    for (let g = 0; g < groups.length; g++) {
+      const sim = cosine(vectors[i], centroids[g]);
+      if (sim >= bestSim) {
+        best = g;
+        bestSim = sim;
       }
     }
-    const topKeywords = Object.entries(kwFreq)
-      .sort((a, b) => b[1] - a[1])
-      .slice(0, 8)
-      .map(([k]) => k);
-
-    // Most recent timestamp
-    const lastSeen = groupEntries
-      .map((e) => e.timestamp)
-      .filter(Boolean)
-      .sort()
-      .pop() || new Date().toISOString();
-
-    // Examples (up to 3 user_said messages)
-    const examples = groupEntries
-      .map((e) => e.userSaid)
-      .filter((s) => s.length > 0)
-      .slice(0, 3);
-
-    // Build human-readable pattern from top keywords
-    const patternDesc = `Recurring correction: ${topKeywords.slice(0, 4).join(", ")}`;
-
-    // Context from the most detailed correction
-    const longestEntry = groupEntries.sort((a, b) => b.text.length - a.text.length)[0];
-    const context = longestEntry.text.trim().slice(0, 300);
+    if (best === -1) {
+      groups.push([i]);
+      centroids.push(vectors[i]);
+    } else {
+      groups[best].push(i);
+      centroids[best] = mean(groups[best].map((j) => vectors[j]));
+    }
+  }
+  return groups;
+}
+
+function buildPattern(
+  group: number[],
+  entries: CorrectionEntry[],
+  vectors: number[][] | null,
+): CorrectionPattern {
+  const groupEntries = group.map((i) => entries[i]);
+
+  // Merge keywords, ranked by frequency
+  const kwFreq: Record<string, number> = {};
+  for (const e of groupEntries) {
+    for (const kw of e.keywords) {
+      kwFreq[kw] = (kwFreq[kw] || 0) + 1;
+    }
+  }
+  const topKeywords = Object.entries(kwFreq)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 8)
+    .map(([k]) => k);
+
+  // Most recent timestamp
+  const lastSeen = groupEntries
+    .map((e) => e.timestamp)
+    .filter(Boolean)
+    .sort()
+    .pop() || new Date().toISOString();
+
+  // Examples (up to 3 user_said messages)
+  const examples = groupEntries
+    .map((e) => e.userSaid)
+    .filter((s) => s.length > 0)
+    .slice(0, 3);
+
+  // Build human-readable pattern from top keywords
+  const patternDesc = `Recurring correction: ${topKeywords.slice(0, 4).join(", ")}`;
+
+  // Context from the most detailed correction
+  const longestEntry = [...groupEntries].sort((a, b) => b.text.length - a.text.length)[0];
+  const context = longestEntry.text.trim().slice(0, 300);
 
+  return {
+    // The earliest member never changes as the cluster grows
+    id: `p-${groupEntries[0].key.slice(0, 8)}`,
+    pattern: patternDesc,
+    keywords: topKeywords,
+    frequency: group.length,
+    lastSeen,
+    context,
+    examples,
+    ...(vectors ? { centroid: mean(group.map((i) => vectors[i])) } : {}),
+    status: "active",
+    source: "local",
+  };
+}
+
+// ── Core Functions ─────────────────────────────────────────────────────────
+
+/**
+ * Read correction log and extract recurring patterns.
+ * Groups corrections by embedding similarity (keyword overlap if embeddings
+ * fail). A cluster of 2+ corrections becomes a pattern.
+ */
+export async function extractPatterns(): Promise<CorrectionPattern[]> {
+  // Pattern ids come from the earliest member, which may have been rotated out to .old
+  const corrections = readLogWithRotated("corrections.jsonl");
+  if (corrections.length === 0) return [];
+
+  const entries: CorrectionEntry[] = corrections.map((c) => {
+    const text = `${c.user_said || ""} ${c.wrong_action || ""} ${c.root_cause || ""}`;
     return {
-      id: `p${idx + 1}`,
-      pattern: patternDesc,
-      keywords: topKeywords,
-      frequency: group.length,
-      lastSeen,
-      context,
-      examples,
+      key: createHash("sha1").update(`${c.timestamp || ""}\n${text}`).digest("hex"),
+      text,
+      keywords: extractKeywords(text),
+      timestamp: c.timestamp as string,
+      userSaid: (c.user_said || "") as string,
     };
   });
 
-  return patterns.sort((a, b) => b.frequency - a.frequency);
+  let vectors: number[][] | null = null;
+  let groups: number[][];
+  try {
+    vectors = await embedEntries(entries);
+    groups = clusterByEmbedding(vectors, getConfig().thresholds.pattern_cluster_similarity);
+  } catch (err) {
+    process.stderr.write(`preflight: pattern embeddings unavailable, using keyword clustering: ${String((err as Error)?.message ?? err).trim().split("\n")[0]}\n`);
+    vectors = null;
+    groups = clusterByKeywords(entries);
+  }
+
+  return groups
+    .filter((g) => g.length >= 2)
+    .map((g) => buildPattern(g, entries, vectors))
+    .sort((a, b) => b.frequency - a.frequency);
+}
+
+/** Keyword matching: at least 2 pattern keywords present in the prompt. */
+function matchByKeywords(prompt: string, patterns: CorrectionPattern[]): PatternMatch[] {
+  const promptLower = prompt.toLowerCase();
+  const matches: PatternMatch[] = [];
+  for (const p of patterns) {
+    const hits = p.keywords.filter((kw) => promptLower.includes(kw.toLowerCase()));
+    if (hits.length >= 2) {
+      matches.push({ ...p, similarity: hits.length / p.keywords.length, method: "keyword", decay: decayOf(p) });
+    }
+  }
+  return matches;
 }
 
 /**
  * Check if a prompt matches any known patterns.
- * Returns patterns whose keywords overlap with the prompt.
+ * Patterns with a centroid match by cosine similarity to the prompt's
+ * embedding; the rest (or all, if embedding fails) by keyword overlap. So do
+ * centroids saved by another embedding model, flagged as stale: same-size
+ * vectors from another model live in a different space.
+ * Only active/acknowledged, unexpired patterns are considered. Sorted by
+ * similarity weighted by recency, highest first.
  */
-export function matchPatterns(
+export async function matchPatterns(
   prompt: string,
   patterns: CorrectionPattern[],
-): CorrectionPattern[] {
+): Promise<PatternMatch[]> {
+  patterns = patterns.filter(isLive);
   if (patterns.length === 0) return [];
-  const promptKeywords = extractKeywords(prompt);
-  const promptLower = prompt.toLowerCase();
 
-  return patterns.filter((p) => {
-    // Direct keyword match: at least 2 keywords present in prompt
-    const hits = p.keywords.filter(
-      (kw) => promptLower.includes(kw.toLowerCase()),
-    );
-    return hits.length >= 2;
+  const embedded = patterns.filter((p) => p.centroid && p.centroid.length > 0);
+  let matches: PatternMatch[] = [];
+  let keywordOnly = patterns.filter((p) => !embedded.includes(p));
+
+  if (embedded.length > 0) {
+    try {
+      const { embeddingModelId } = await import("./embeddings.js");
+      const sameModel = loadState("patterns").model === embeddingModelId(getConfig().embeddings);
+      const vector = await (await getEmbedder()).embed(prompt);
+      const threshold = getConfig().thresholds.pattern_match_similarity;
+      const stale = embedded.filter((p) => !sameModel || p.centroid!.length !== vector.length);
+      if (stale.length > 0) {
+        process.stderr.write(`preflight: ${stale.length} pattern(s) were embedded with another model; matching them by keyword until patterns are refreshed\n`);
+        for (const m of matchByKeywords(prompt, stale)) matches.push({ ...m, staleCentroid: true });
+      }
+      for (const p of embedded) {
+        if (stale.includes(p)) continue;
+        const similarity = cosine(vector, p.centroid!);
+        if (similarity >= threshold) matches.push({ ...p, similarity, method: "embedding", decay: decayOf(p) });
+      }
+    } catch {
+      keywordOnly = patterns;
+    }
+  }
+
+  matches = [...matches, ...matchByKeywords(prompt, keywordOnly)];
+  return matches.sort((a, b) => b.similarity * b.decay - a.similarity * a.decay);
+}
+
+// ── Lifecycle ──────────────────────────────────────────────────────────────
+
+function ageDays(p: CorrectionPattern): number {
+  const t = new Date(p.lastSeen).getTime();
+  return Number.isNaN(t) ? 0 : Math.max(0, (Date.now() - t) / 86400000);
+}
+
+/** Recency weight: 1 when just seen, halving every `pattern_half_life_days`. */
+export function decayOf(p: CorrectionPattern): number {
+  const halfLife = getConfig().thresholds.pattern_half_life_days;
+  return halfLife > 0 ? Math.pow(0.5, ageDays(p) / halfLife) : 1;
+}
+
+/** Not seen for `pattern_expire_days` — kept on record but no longer matched. */
+export function isExpired(p: CorrectionPattern): boolean {
+  const expireDays = getConfig().thresholds.pattern_expire_days;
+  return expireDays > 0 && ageDays(p) > expireDays;
+}
+
+function isLive(p: CorrectionPattern): boolean {
+  return MATCHABLE.includes(p.status) && !isExpired(p);
+}
+
+/**
+ * Carry statuses over from the previous records. Resolved patterns that were
+ * corrected again after being resolved reopen as active. Records that
+ * re-extraction no longer produces are kept only if someone set their status.
+ */
+function mergeLifecycle(fresh: CorrectionPattern[], previous: CorrectionPattern[]): CorrectionPattern[] {
+  const prevById = new Map(previous.map((p) => [p.id, p]));
+  const merged = fresh.map((p) => {
+    const prev = prevById.get(p.id);
+    if (!prev || prev.status === "active") return p;
+    if (prev.status === "resolved" && prev.statusChangedAt && p.lastSeen > prev.statusChangedAt) {
+      return { ...p, status: "active" as const, statusChangedAt: p.lastSeen, note: `recurred after being resolved${prev.note ? ` (${prev.note})` : ""}` };
+    }
+    return { ...p, status: prev.status, statusChangedAt: prev.statusChangedAt, note: prev.note };
   });
+
+  const freshIds = new Set(fresh.map((p) => p.id));
+  const kept = previous.filter((p) => !freshIds.has(p.id) && p.status !== "active");
+  return [...merged, ...kept];
 }
 
-/** Save patterns to state. */
-export function savePatterns(patterns: CorrectionPattern[]): void {
-  saveState("patterns", { patterns, updated: new Date().toISOString() });
+/**
+ * Save this checkout's pattern records to state, with the embedding model id
+ * their centroids came from (kept as stored unless given).
+ */
+export function savePatterns(patterns: CorrectionPattern[], model?: string): void {
+  saveState("patterns", { patterns, model: model ?? loadState("patterns").model, updated: new Date().toISOString() });
 }
 
-/** Load patterns from state. */
-export function loadPatterns(): CorrectionPattern[] {
+/** This checkout's pattern records, without team patterns. Older records without a status are active. */
+function loadLocalPatterns(): CorrectionPattern[] {
   const state = loadState("patterns");
-  return (state.patterns as CorrectionPattern[]) || [];
+  return ((state.patterns as CorrectionPattern[]) || []).map((p) => ({ ...p, status: p.status ?? "active" }));
+}
+
+/** Team patterns from .preflight/patterns.yml. */
+export function loadTeamPatterns(projectDir: string = PROJECT_DIR): CorrectionPattern[] {
+  const path = join(projectDir, TEAM_PATTERNS_FILE);
+  if (!existsSync(path)) return [];
+  try {
+    const items = yamlLoad(readFileSync(path, "utf-8"));
+    if (!Array.isArray(items)) return [];
+    return items
+      .filter((i) => i && typeof i.id === "string" && typeof i.pattern === "string")
+      .map((i) => ({
+        id: i.id,
+        pattern: i.pattern,
+        keywords: Array.isArray(i.keywords) ? i.keywords.map(String) : [],
+        frequency: Number(i.frequency) || 1,
+        lastSeen: String(i.lastSeen ?? ""),
+        context: String(i.context ?? ""),
+        examples: Array.isArray(i.examples) ? i.examples.map(String) : [],
+        status: (["active", "acknowledged", "resolved"].includes(i.status) ? i.status : "active") as PatternStatus,
+        ...(i.note ? { note: String(i.note) } : {}),
+        source: "team" as const,
+      }));
+  } catch (error) {
+    console.warn(`preflight: warning - failed to parse ${TEAM_PATTERNS_FILE}: ${error}`);
+    return [];
+  }
+}
+
+/** Local pattern records plus team patterns. A local record wins over a team one with the same id. */
+export function loadPatterns(): CorrectionPattern[] {
+  const local = loadLocalPatterns();
+  const localIds = new Set(local.map((p) => p.id));
+  return [...local, ...loadTeamPatterns().filter((p) => !localIds.has(p.id))];
 }
 
 /**
- * Re-extract patterns from corrections log and save them.
- * Returns the updated patterns.
+ * Re-extract patterns from corrections log and save them, keeping the
+ * lifecycle status of existing records. Returns the updated patterns.
  */
-export function refreshPatterns(): CorrectionPattern[] {
-  const patterns = extractPatterns();
-  savePatterns(patterns);
+export async function refreshPatterns(): Promise<CorrectionPattern[]> {
+  const { embeddingModelId } = await import("./embeddings.js");
+  const model = embeddingModelId(getConfig().embeddings);
+  let previous = loadLocalPatterns();
+  // Records re-extraction didn't reproduce keep their centroid only if it came from this model
+  if (loadState("patterns").model !== model) previous = previous.map(({ centroid, ...p }) => p);
+  const patterns = mergeLifecycle(await extractPatterns(), previous);
+  savePatterns(patterns, model);
   return patterns;
 }
 
+/**
+ * Change a pattern's status. Team patterns get a local record, so muting or
+ * acknowledging a teammate's pattern only affects this checkout until exported.
+ * Returns the updated pattern, or null if the id is unknown.
+ */
+export function setPatternStatus(id: string, status: PatternStatus, note?: string): CorrectionPattern | null {
+  const local = loadLocalPatterns();
+  let target = local.find((p) => p.id === id);
+  if (!target) {
+    const team = loadTeamPatterns().find((p) => p.id === id);
+    if (!team) return null;
+    target = { ...team };
+    local.push(target);
+  }
+  target.status = status;
+  target.statusChangedAt = new Date().toISOString();
+  if (note !== undefined) target.note = note;
+  else delete target.note;
+  savePatterns(local);
+  return target;
+}
+
+/**
+ * Write patterns to .preflight/patterns.yml for the team. Entries already in
+ * the file are kept and updated by id, so exporting never drops a teammate's
+ * patterns. Muted patterns and centroids stay local.
+ */
+export function exportPatterns(projectDir: string = PROJECT_DIR): { path: string; exported: number; total: number } {
+  const path = join(projectDir, TEAM_PATTERNS_FILE);
+  const byId = new Map(loadTeamPatterns(projectDir).map((p) => [p.id, p]));
+  let exported = 0;
+
+  for (const p of loadLocalPatterns()) {
+    if (p.status === "muted") continue;
+    const existing = byId.get(p.id);
+    byId.set(p.id, {
+      ...p,
+      frequency: Math.max(p.frequency, existing?.frequency ?? 0),
+      lastSeen: existing && existing.lastSeen > p.lastSeen ? existing.lastSeen : p.lastSeen,
+    });
+    exported++;
+  }
+
+  const entries = [...byId.values()].map((p) => ({
+    id: p.id,
+    pattern: p.pattern,
+    status: p.status,
+    ...(p.note ? { note: p.note } : {}),
+    frequency: p.frequency,
+    lastSeen: p.lastSeen,
+    keywords: p.keywords,
+    context: p.context,
+    examples: p.examples,
+  }));
+
+  mkdirSync(dirname(path), { recursive: true });
+  const header = "# Known correction patterns, exported by preflight's manage_patterns tool. Commit to share with the team.\n";
+  writeFileSync(path, header + yamlDump(entries, { lineWidth: 120 }));
+  return { path, exported, total: entries.length };
+}
+
 /**
  * Format matched patterns for display.
  */
-export function formatPatternMatches(matches: CorrectionPattern[]): string {
+export function formatPatternMatches(matches: PatternMatch[]): string {
   if (matches.length === 0) return "";
 
   const lines = ["⚠️ Known patterns matched:", ""];
   for (let i = 0; i < matches.length; i++) {
     const p = matches[i];
     const ago = formatTimeAgo(p.lastSeen);
-    lines.push(`${i + 1}. "${p.pattern}" (corrected ${p.frequency}x)`);
+    const tags = [p.status === "acknowledged" ? "acknowledged" : "", p.source === "team" ? "team" : ""].filter(Boolean);
+    lines.push(`${i + 1}. "${p.pattern}" (corrected ${p.frequency}x, ${formatSimilarity(p)})${tags.length ? ` [${tags.join(", ")}]` : ""}`);
     lines.push(`   Context: ${p.context.slice(0, 150)}`);
     lines.push(`   Last triggered: ${ago}`);
     lines.push("");
@@ -197,7 +552,13 @@ export function formatPatternMatches(matches: CorrectionPattern[]): string {
   return lines.join("\n");
 }
 
-function formatTimeAgo(isoDate: string): string {
+/** "similarity 0.72" for embedding matches, "keyword overlap 0.40" otherwise. */
+export function formatSimilarity(match: PatternMatch): string {
+  const stale = match.staleCentroid ? " — embedded with another model, refresh patterns to re-embed" : "";
+  return `${match.method === "embedding" ? "similarity" : "keyword overlap"} ${match.similarity.toFixed(2)}${stale}`;
+}
+
+export function formatTimeAgo(isoDate: string): string {
   try {
     const diff = Date.now() - new Date(isoDate).getTime();
     const days = Math.floor(diff / 86400000);
@@ -0,0 +1,174 @@
+/**
+ * project-paths.ts — Map Claude Code session directories to project paths.
+ *
+ * Claude Code stores a project's sessions in ~/.claude/projects/<encoded>,
+ * where <encoded> is the project path with every non-alphanumeric character
+ * replaced by `-` (older versions replaced only `/`). The encoding is lossy:
+ * `-root-my-app` could be /root/my-app or /root/my/app. resolveProjectPath
+ * recovers the real path by, in order:
+ *   1. the `cwd` recorded in the directory's session files, when it encodes
+ *      back to the directory name
+ *   2. walking the filesystem from `/`, matching directory entries whose
+ *      encoded name is a prefix of what remains
+ *   3. the naive guess (every `-` is a `/`)
+ * Results are cached per directory name for the life of the process.
+ */
+import { existsSync, openSync, readSync, closeSync, readdirSync, statSync } from "fs";
+import { join, basename } from "path";
+import { homedir } from "os";
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+export interface ResolvedProject {
+  /** Absolute project path (a best guess when resolvedBy is "guess"). */
+  project: string;
+  projectName: string;
+  resolvedBy: "cwd" | "filesystem" | "guess";
+}
+
+// ── Constants ──────────────────────────────────────────────────────────────
+
+const CLAUDE_PROJECTS_DIR = join(homedir(), ".claude", "projects");
+/** Newest session files read for a cwd, and how much of each. */
+const CWD_FILES = 3;
+const CWD_READ_BYTES = 64 * 1024;
+/** Upper bound on directory listings per probe, against pathological names. */
+const MAX_PROBE_LISTINGS = 500;
+
+const cache = new Map<string, ResolvedProject>();
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+/** Claude Code's directory name for a project path. */
+export function encodeProjectPath(projectPath: string): string {
+  return projectPath.replace(/[^a-zA-Z0-9]/g, "-");
+}
+
+/** Older Claude Code versions only replaced slashes. */
+function encodeLegacy(projectPath: string): string {
+  return projectPath.replace(/\//g, "-");
+}
+
+function encodesTo(projectPath: string, dirName: string): boolean {
+  return encodeProjectPath(projectPath) === dirName || encodeLegacy(projectPath) === dirName;
+}
+
+function named(project: string, resolvedBy: ResolvedProject["resolvedBy"]): ResolvedProject {
+  return { project, projectName: project.split("/").filter(Boolean).pop() ?? project, resolvedBy };
+}
+
+/** Read the head of a file without loading the rest of a long transcript. */
+function readHead(path: string): string {
+  const fd = openSync(path, "r");
+  try {
+    const buf = Buffer.alloc(CWD_READ_BYTES);
+    const n = readSync(fd, buf, 0, CWD_READ_BYTES, 0);
+    return buf.toString("utf-8", 0, n);
+  } finally {
+    closeSync(fd);
+  }
+}
+
+/** A `cwd` from the directory's newest session files that encodes back to its name. */
+function cwdFromSessions(sessionDir: string, dirName: string): string | null {
+  let files: { path: string; mtime: number }[];
+  try {
+    files = readdirSync(sessionDir)
+      .filter((f) => f.endsWith(".jsonl"))
+      .map((f) => {
+        const path = join(sessionDir, f);
+        return { path, mtime: statSync(path).mtimeMs };
+      })
+      .sort((a, b) => b.mtime - a.mtime)
+      .slice(0, CWD_FILES);
+  } catch {
+    return null;
+  }
+
+  for (const f of files) {
+    let head: string;
+    try {
+      head = readHead(f.path);
+    } catch {
+      continue;
+    }
+    // The last line may be cut off mid-record; JSON.parse rejects it
+    for (const line of head.split("\n")) {
+      if (!line.includes('"cwd"')) continue;
+      try {
+        const cwd = JSON.parse(line).cwd;
+        // The session may have cd'd elsewhere; only the launch directory names the project
+        if (typeof cwd === "string" && encodesTo(cwd, dirName)) return cwd;
+      } catch {
+        // truncated or malformed line
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Rebuild a path from its encoding by walking the filesystem: at each level,
+ * descend into entries whose encoded name is a prefix of what's left. Returns
+ * the first existing directory that consumes the whole name.
+ */
+function probeFilesystem(dirName: string): string | null {
+  if (!dirName.startsWith("-")) return null;
+  let listings = 0;
+
+  const walk = (dir: string, rest: string): string | null => {
+    if (rest === "") return dir;
+    if (++listings > MAX_PROBE_LISTINGS) return null;
+    let entries: string[];
+    try {
+      entries = readdirSync(dir, { withFileTypes: true })
+        .filter((e) => e.isDirectory() || e.isSymbolicLink())
+        .map((e) => e.name);
+    } catch {
+      return null;
+    }
+    for (const entry of entries) {
+      for (const enc of new Set([encodeProjectPath(entry), encodeLegacy(entry)])) {
+        if (!rest.startsWith(enc)) continue;
+        const after = rest.slice(enc.length);
+        // The segment must end at a separator or at the end of the name
+        if (after !== "" && !after.startsWith("-")) continue;
+        const found = walk(join(dir, entry), after.slice(1));
+        if (found) return found;
+      }
+    }
+    return null;
+  };
+
+  return walk("/", dirName.slice(1));
+}
+
+// ── Public API ─────────────────────────────────────────────────────────────
+
+/** The project a ~/.claude/projects/<encoded> directory belongs to. Never throws. */
+export function resolveProjectPath(sessionDir: string): ResolvedProject {
+  const dirName = basename(sessionDir);
+  const hit = cache.get(dirName);
+  if (hit) return hit;
+
+  let resolved: ResolvedProject;
+  const cwd = cwdFromSessions(sessionDir, dirName);
+  if (cwd) {
+    resolved = named(cwd, "cwd");
+  } else {
+    const probed = probeFilesystem(dirName);
+    resolved = probed
+      ? named(probed, "filesystem")
+      : named(dirName.replace(/^-/, "/").replace(/-/g, "/"), "guess");
+  }
+  cache.set(dirName, resolved);
+  return resolved;
+}
+
+/** Claude Code's session directory for a project path, if it has one. */
+export function sessionDirFor(projectDir: string): string | null {
+  const dir = join(CLAUDE_PROJECTS_DIR, encodeProjectPath(projectDir));
+  if (existsSync(dir)) return dir;
+  const legacy = join(CLAUDE_PROJECTS_DIR, encodeLegacy(projectDir));
+  return existsSync(legacy) ? legacy : null;
+}
@@ -0,0 +1,150 @@
+// =============================================================================
+// Prompt Gate — shared triage + pattern assessment for a single prompt
+// =============================================================================
+// Used by the preflight_check tool and the UserPromptSubmit hook so both run
+// the same triage config, the same correction patterns and the same
+// clarification checks. The hook only decides what to do with the result:
+// pass, inject context, or block.
+// =============================================================================
+
+import { getConfig, getTriageConfig } from "./config.js";
+import { formatConfidence, type TriageLevel, type TriageResult } from "./triage.js";
+import { triagePromptWithModel } from "./triage-model.js";
+import { loadPatterns, matchPatterns, formatSimilarity, type PatternMatch } from "./patterns.js";
+import { loadState, saveState } from "./state.js";
+import { findFileCorrections, formatFileCorrection, type FileCorrection } from "./corrections.js";
+
+// --- Types ---
+
+export interface PromptAssessment {
+  triage: TriageResult;
+  /** Level after force_level and the correction-pattern boost. */
+  level: TriageLevel;
+  pattern_matches: PatternMatch[];
+  /** Past corrections on files the prompt names. */
+  file_corrections: FileCorrection[];
+}
+
+export type GateDecision =
+  | { action: "pass" }
+  | { action: "inject"; context: string }
+  | { action: "block"; reason: string };
+
+// --- Constants ---
+
+/** A blocked prompt resubmitted verbatim within this window goes through. */
+const RESUBMIT_WINDOW_MS = 10 * 60 * 1000;
+const BLOCKED_STATE = "hook-blocked";
+
+// --- Assessment ---
+
+/** Extract file paths from prompt text */
+export function extractFilePaths(prompt: string): string[] {
+  const matches = prompt.match(/[\w\-./\\]+\.\w{1,6}/g) || [];
+  return [...new Set(matches)];
+}
+
+/** Ambiguity signals phrased as things to clarify before starting. */
+export function findClarificationIssues(prompt: string): string[] {
+  const issues: string[] = [];
+  if (/\b(it|them|the thing|that|those|this|these)\b/i.test(prompt)) issues.push("Contains vague pronouns — clarify what 'it'/'them' refers to");
+  if (/\b(fix|update|change|refactor|improve)\b/i.test(prompt) && !extractFilePaths(prompt).length) issues.push("Vague verb without specific file targets");
+  if (prompt.trim().length < 40) issues.push("Very short prompt — likely missing context");
+  return issues;
+}
+
+/** Triage a prompt and match it against known correction patterns. */
+export async function assessPrompt(
+  prompt: string,
+  opts: { forceLevel?: "light" | "full" } = {},
+): Promise<PromptAssessment> {
+  const triage = await triagePromptWithModel(prompt, getTriageConfig());
+  let level: TriageLevel = triage.level;
+
+  if (opts.forceLevel === "light") level = "ambiguous";
+  if (opts.forceLevel === "full") level = "multi-step";
+
+  const patternMatches = await matchPatterns(prompt, loadPatterns());
+
+  // Boost triage level if active patterns match — acknowledged ones only warn
+  const activeMatches = patternMatches.filter(p => p.status === "active");
+  if (activeMatches.length > 0 && level === "trivial") {
+    level = "ambiguous";
+    triage.reasons.push(`matches ${activeMatches.length} known correction pattern(s)`);
+  }
+
+  return { triage, level, pattern_matches: patternMatches, file_corrections: findFileCorrections(extractFilePaths(prompt)) };
+}
+
+// --- Hook decision ---
+
+function questionsFor(prompt: string, a: PromptAssessment): string[] {
+  const questions: string[] = [];
+  for (const t of a.triage.ambiguous_targets ?? []) {
+    questions.push(`Which "${t.term}"? I see ${t.candidates.length}: ${t.candidates.slice(0, 5).join(", ")}`);
+  }
+  questions.push(...findClarificationIssues(prompt));
+  if (a.level === "cross-service") {
+    const hits = a.triage.cross_service_hits?.length ? ` (${a.triage.cross_service_hits.join(", ")})` : "";
+    questions.push(`Which related services are affected${hits}, and do their contracts change?`);
+  }
+  if (a.level === "multi-step") questions.push("What order should the steps run in, and what is done for each?");
+  return questions;
+}
+
+function wasJustBlocked(prompt: string): boolean {
+  const state = loadState(BLOCKED_STATE);
+  return state.prompt === prompt.trim() && Date.now() - Date.parse(state.at) < RESUBMIT_WINDOW_MS;
+}
+
+/**
+ * Decide what the UserPromptSubmit hook does with a prompt, using the hook
+ * settings from triage.yml.
+ *   - trivial/clear with no known pitfalls (patterns or corrected files) → pass
+ *   - a level listed in `hook.block` at or above `hook.min_confidence` →
+ *     block with clarification questions (resubmitting the same prompt passes)
+ *   - anything else → inject the triage summary as additional context
+ */
+export async function decidePromptGate(prompt: string): Promise<GateDecision> {
+  const settings = getConfig().triage.hook;
+  const a = await assessPrompt(prompt);
+
+  if ((a.level === "trivial" || a.level === "clear") && a.pattern_matches.length === 0 && a.file_corrections.length === 0) {
+    return { action: "pass" };
+  }
+
+  const questions = questionsFor(prompt, a);
+  const pitfalls = [
+    ...a.pattern_matches.map(p => `"${p.pattern}" (corrected ${p.frequency}x before, ${formatSimilarity(p)})`),
+    ...a.file_corrections.map(formatFileCorrection),
+  ];
+
+  const shouldBlock =
+    settings.block.includes(a.level) &&
+    // Unmeasured heuristic levels have no confidence to hold back on
+    (a.triage.confidence ?? 1) >= settings.min_confidence &&
+    questions.length > 0;
+
+  if (shouldBlock && !wasJustBlocked(prompt)) {
+    saveState(BLOCKED_STATE, { prompt: prompt.trim(), at: new Date().toISOString() });
+    const lines = [
+      `Preflight: this prompt looks ${a.level}${formatConfidence(a.triage)}. Before starting:`,
+      ...questions.map(q => `- ${q}`),
+      ...(pitfalls.length > 0 ? ["Known pitfalls:", ...pitfalls.map(p => `- ${p}`)] : []),
+      "Add the missing detail, or resubmit the same prompt to run it as-is.",
+    ];
+    return { action: "block", reason: lines.join("\n") };
+  }
+
+  const lines = [
+    `Preflight triage: ${a.level}${formatConfidence(a.triage)} — ${a.triage.reasons.join("; ")}`,
+  ];
+  if (pitfalls.length > 0) lines.push("Known pitfalls from past corrections:", ...pitfalls.map(p => `- ${p}`));
+  if (questions.length > 0) {
+    lines.push("Resolve these before editing, asking the user if the context doesn't answer them:", ...questions.map(q => `- ${q}`));
+  }
+  if (a.triage.recommended_tools.length > 0) {
+    lines.push(`Suggested preflight tools: ${a.triage.recommended_tools.join(", ")}`);
+  }
+  return { action: "inject", context: lines.join("\n") };
+}
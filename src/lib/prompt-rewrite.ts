@@ -0,0 +1,201 @@
+// =============================================================================
+// Prompt Rewriter — turns prompt_score feedback into a concrete better prompt
+// =============================================================================
+// Fixes each weak scoring dimension with evidence from the repo instead of
+// generic advice: a target from a noun that resolves to exactly one place, a
+// matching contract or the dirty files; a scope line bounding the change to
+// that target; a specific verb for vague ones; and a done condition built
+// from the project's own test/type-check commands. Nothing is invented — when
+// no target can be found the rewrite keeps a visible <placeholder>, and
+// placeholders and generic lines are left out of the text that gets scored.
+// =============================================================================
+
+import { existsSync, readFileSync } from "fs";
+import { join } from "path";
+import { PROJECT_DIR } from "./files.js";
+import { getDirtyFiles, getRecentCommits } from "./git.js";
+import { extractNouns } from "./triage.js";
+import { createCodebaseResolver } from "./codebase-index.js";
+import { loadAllContracts, searchContracts } from "./contracts.js";
+
+// --- Types ---
+
+/** Which prompt_score dimensions scored below full marks. */
+export interface WeakDimensions {
+  specificity: boolean;
+  scope: boolean;
+  actionability: boolean;
+  doneCondition: boolean;
+}
+
+export interface PromptRewrite {
+  rewritten: string;
+  /** The rewrite without placeholders or generic lines — what its score is measured on. */
+  evidenced: string;
+  /** One line per edit: what was added and where the evidence came from. */
+  changes: string[];
+}
+
+// --- Constants ---
+
+const FILE_REF_RE = /[\w\-./\\]+\.\w{1,6}/;
+const PLACEHOLDER = "<path/to/file>";
+
+/** Vague verb → specific replacement, tried in order. */
+const VERB_REWRITES: Array<[RegExp, string]> = [
+  [/\bmake\s+(.+?)\s+work\b/i, "fix $1 so it works"],
+  [/\bmake\s+(.+?)\s+(handle|support|use|accept|return)\b/i, "update $1 to $2"],
+  [/\bmake\b/i, "change"],
+  [/\bclean\s+up\b/i, "refactor"],
+  [/\bclean\b/i, "refactor"],
+  [/\bimprove\b/i, "refactor"],
+  [/\bhandle\b/i, "add handling for"],
+  [/\bdo\b/i, "implement"],
+  [/\bwork on\b/i, "update"],
+];
+
+// --- Repo context ---
+
+function dirtyFiles(): string[] {
+  // preflight's own state files aren't anyone's target
+  return getDirtyFiles().filter(f => !f.startsWith(".claude/"));
+}
+
+/**
+ * Find one concrete target for the prompt, with a note on where it came from.
+ * A noun that matches several places yields no target, only the candidates —
+ * guessing between them is exactly what the rewrite should not do.
+ */
+function findTarget(prompt: string): { target: string; source: string } | { ambiguous: string } | null {
+  const nouns = extractNouns(prompt);
+
+  const resolver = createCodebaseResolver();
+  let ambiguous: string | null = null;
+  for (const noun of nouns) {
+    const places = resolver.resolve(noun);
+    if (places.length === 1) return { target: places[0], source: `"${noun}" matches only \`${places[0]}\`` };
+    if (places.length > 1 && !ambiguous) {
+      ambiguous = `"${noun}" matches ${places.length} places (${places.slice(0, 4).map(p => `\`${p}\``).join(", ")}) — pick one`;
+    }
+  }
+  if (ambiguous) return { ambiguous };
+
+  // A contract whose name contains one of the prompt's nouns
+  const contracts = searchContracts(nouns.join(" "), loadAllContracts([PROJECT_DIR]));
+  const contract = contracts.find(c => nouns.some(n => c.name.toLowerCase().includes(n.toLowerCase())));
+  if (contract) return { target: contract.file, source: `${contract.kind} \`${contract.name}\` is defined there` };
+
+  const dirty = dirtyFiles();
+  if (dirty.length > 0 && dirty.length <= 3) {
+    return { target: dirty.join("`, `"), source: "uncommitted changes in the working tree" };
+  }
+  return null;
+}
+
+/** The project's own verification command, for the done condition. */
+function verifyCommand(): string | null {
+  const pkgPath = join(PROJECT_DIR, "package.json");
+  if (existsSync(pkgPath)) {
+    try {
+      const pkg = JSON.parse(readFileSync(pkgPath, "utf-8"));
+      const pm = existsSync(join(PROJECT_DIR, "pnpm-lock.yaml")) ? "pnpm"
+        : existsSync(join(PROJECT_DIR, "yarn.lock")) ? "yarn" : "npm";
+      if (pkg?.scripts?.test && !/no test specified/.test(pkg.scripts.test)) return `${pm} test`;
+      if (existsSync(join(PROJECT_DIR, "tsconfig.json"))) return "npx tsc --noEmit";
+    } catch { /* unreadable package.json */ }
+  }
+  if (existsSync(join(PROJECT_DIR, "pyproject.toml"))) return "pytest";
+  if (existsSync(join(PROJECT_DIR, "go.mod"))) return "go test ./...";
+  if (existsSync(join(PROJECT_DIR, "Cargo.toml"))) return "cargo test";
+  return null;
+}
+
+/** A recent commit whose subject shares a word with the prompt. */
+function relatedCommit(prompt: string): string | null {
+  const log = getRecentCommits(10);
+  if (log.startsWith("[")) return null;
+  const words = new Set(extractNouns(prompt).map(w => w.toLowerCase()).filter(w => w.length >= 4));
+  if (words.size === 0) return null;
+  return log.split("\n").find(line =>
+    line.toLowerCase().split(/[^a-z0-9_]+/).some(w => words.has(w)),
+  ) ?? null;
+}
+
+// --- Rewrite ---
+
+/** Rewrite a prompt to fix the weak dimensions, using the current repo as evidence. */
+export function rewritePrompt(prompt: string, weak: WeakDimensions): PromptRewrite {
+  const isQuestion = /\?$/.test(prompt.trim());
+  let body = prompt.trim().replace(/[.!?]+$/, "");
+  // `body` and `extra` as they'd read with only repo-backed edits
+  let evidencedBody = body;
+  const changes: string[] = [];
+  const extra: string[] = [];
+  const evidencedExtra: string[] = [];
+
+  if (weak.actionability && !isQuestion) {
+    const hit = VERB_REWRITES.find(([re]) => re.test(body));
+    if (hit) {
+      const before = body.match(hit[0])![0];
+      body = body.replace(hit[0], hit[1]);
+      evidencedBody = body;
+      changes.push(`⚡ Replaced vague "${before}" with a specific verb`);
+    } else {
+      body = `Update ${body.charAt(0).toLowerCase()}${body.slice(1)}`;
+      changes.push(`⚡ Added an explicit action ("update") — swap in add/remove/rename if that's what you mean`);
+    }
+  }
+
+  let target: string | null = null;
+  if (weak.specificity && !FILE_REF_RE.test(body)) {
+    const found = findTarget(prompt);
+    if (found && "target" in found) {
+      target = found.target;
+      evidencedBody = `${evidencedBody} in \`${target}\``;
+      changes.push(`📁 Named the target \`${found.target}\` — ${found.source}`);
+    } else if (found) {
+      target = PLACEHOLDER;
+      changes.push(`📁 Replace ${PLACEHOLDER}: ${found.ambiguous}`);
+    } else {
+      target = PLACEHOLDER;
+      changes.push(`📁 No single target found in the repo — replace ${PLACEHOLDER}`);
+    }
+    body = `${body} in \`${target}\``;
+  }
+
+  if (weak.scope) {
+    if (target && target !== PLACEHOLDER) {
+      const line = `Only change \`${target}\`; leave other files untouched.`;
+      extra.push(line);
+      evidencedExtra.push(line);
+    } else {
+      extra.push("Only change the files named above; leave everything else untouched.");
+    }
+    changes.push("🎯 Bounded the change to the named target");
+  }
+
+  const commit = relatedCommit(prompt);
+  if (commit && (weak.specificity || weak.scope)) {
+    const line = `Context: builds on commit ${commit.split(" ")[0]} ("${commit.split(" ").slice(1).join(" ")}").`;
+    extra.push(line);
+    evidencedExtra.push(line);
+    changes.push(`🔗 Linked the related recent commit ${commit.split(" ")[0]}`);
+  }
+
+  if (weak.doneCondition && !isQuestion) {
+    const cmd = verifyCommand();
+    if (cmd) {
+      const line = `Done when \`${cmd}\` passes and the change behaves as described.`;
+      extra.push(line);
+      evidencedExtra.push(line);
+    } else {
+      extra.push("Done when it behaves as described; existing checks should still pass.");
+    }
+    changes.push(cmd ? `✅ Added a done condition using this repo's \`${cmd}\`` : "✅ Added a done condition");
+  }
+
+  const end = isQuestion ? "?" : ".";
+  const rewritten = [`${body}${end}`, ...extra].join("\n");
+  const evidenced = [`${evidencedBody}${end}`, ...evidencedExtra].join("\n");
+  return { rewritten, evidenced, changes };
+}
@@ -0,0 +1,195 @@
+/**
+ * reembed.ts — Re-vectorize a project's stored events with a new embedding model.
+ *
+ * Every event keeps its `content`, so switching models needs no sessions or
+ * git history: each stored row is embedded again and written, vector and all,
+ * to a new table named after the model. The old table is kept until every
+ * row has been copied; then meta.json points at the new table and the old one
+ * is dropped. Rows already in the new table are skipped, so an interrupted run
+ * picks up where it stopped. Until the switch, meta.json still names the old
+ * model, so searching the project fails with the model-mismatch error.
+ */
+import { createHash } from "crypto";
+import type * as lancedb from "@lancedb/lancedb";
+import type { EmbeddingProvider } from "./embeddings.js";
+import type { ProjectEmbedding } from "../types.js";
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+export interface ReembedProgress {
+  /** Rows in the new table. */
+  progress: number;
+  total: number;
+  message: string;
+}
+
+export interface ReembedOptions {
+  projectDir: string;
+  embedder: EmbeddingProvider;
+  /** Events per embedding call and LanceDB write. */
+  batchSize?: number;
+  /** Re-embed even if the project already matches `embedder`. */
+  force?: boolean;
+  onProgress?: (progress: ReembedProgress) => void | Promise<void>;
+  /** Stop after the batch being written; the next run resumes from there. */
+  signal?: AbortSignal;
+}
+
+export interface ReembedResult {
+  /** done: switched over. already: nothing to do. interrupted: aborted, resumable. */
+  status: "done" | "already" | "interrupted";
+  /** What the vectors were made with before; null if never recorded. */
+  from: (Partial<ProjectEmbedding> & { dimensions: number }) | null;
+  to: ProjectEmbedding;
+  /** Rows embedded by this run. */
+  embedded: number;
+  /** Rows an earlier, interrupted run had already embedded. */
+  resumed: number;
+  total: number;
+}
+
+// ── Constants ──────────────────────────────────────────────────────────────
+
+const DEFAULT_BATCH_SIZE = 100;
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+/** "events_<hash>" — stable per model, so a rerun finds the rows it already wrote. */
+function targetTableName(embedding: ProjectEmbedding, source: string): string {
+  const key = `${embedding.provider}:${embedding.model}:${embedding.dimensions}`;
+  const name = `events_${createHash("sha256").update(key).digest("hex").slice(0, 10)}`;
+  // Forced re-embed with the model the project is already on
+  return name === source ? `${name}_r` : name;
+}
+
+function inList(ids: string[]): string {
+  return ids.map((id) => `'${id.replace(/'/g, "''")}'`).join(", ");
+}
+
+/** A table's ids, `size` at a time, read as LanceDB streams them rather than all at once. */
+async function* idChunks(table: lancedb.Table, size: number): AsyncGenerator<string[]> {
+  for await (const batch of table.query().select(["id"])) {
+    const ids = Array.from(batch.getChild("id") ?? [], String);
+    for (let i = 0; i < ids.length; i += size) yield ids.slice(i, i + size);
+  }
+}
+
+/** Which of `ids` are stored in `table`. */
+async function storedIds(table: lancedb.Table | null, ids: string[]): Promise<Set<string>> {
+  if (!table) return new Set();
+  const rows = await table.query().where(`id IN (${inList(ids)})`).select(["id"]).toArray();
+  return new Set(rows.map((r: { id: string }) => r.id));
+}
+
+// ── Public API ─────────────────────────────────────────────────────────────
+
+/**
+ * Re-embed every stored event of an onboarded project with `embedder` and
+ * make that the project's live table. Holds the project's ingestion lock
+ * throughout, so the watcher and onboarding wait rather than write to the
+ * table being replaced.
+ */
+export async function reembedProject(opts: ReembedOptions): Promise<ReembedResult> {
+  const {
+    acquireIngestLock,
+    loadProjectMeta,
+    saveProjectMeta,
+    getDb,
+    getEventsTable,
+    getProjectEmbedding,
+    embeddingOf,
+    optimizeEventsTable,
+    DEFAULT_EVENTS_TABLE,
+    EVENT_COLUMNS,
+  } = await import("./timeline-db.js");
+  const { projectDir, embedder } = opts;
+  const batchSize = Math.max(1, opts.batchSize ?? DEFAULT_BATCH_SIZE);
+  const aborted = () => opts.signal?.aborted === true;
+  const to = embeddingOf(embedder);
+
+  const release = await acquireIngestLock(projectDir, opts.signal);
+  if (!release) return { status: "interrupted", from: null, to, embedded: 0, resumed: 0, total: 0 };
+  try {
+    const from = await getProjectEmbedding(projectDir);
+    const meta = await loadProjectMeta(projectDir);
+    if (!meta) throw new Error(`${projectDir} has not been onboarded — run onboard_project first`);
+
+    const sameModel = from?.dimensions === to.dimensions && (!from.model || (from.provider === to.provider && from.model === to.model));
+    if (sameModel && !opts.force) {
+      // Older projects only recorded their vector size; that's all a match can go on
+      if (!meta.embedding) await saveProjectMeta(projectDir, { ...meta, embedding: to });
+      return { status: "already", from, to, embedded: 0, resumed: 0, total: meta.event_count };
+    }
+
+    const db = await getDb(projectDir);
+    const sourceName = meta.events_table ?? DEFAULT_EVENTS_TABLE;
+    const targetName = targetTableName(to, sourceName);
+    const tables = await db.tableNames();
+    const source = tables.includes(sourceName) ? await db.openTable(sourceName) : null;
+    let target = tables.includes(targetName) ? await db.openTable(targetName) : null;
+
+    if (target) {
+      // An abandoned run may have copied rows that have since been replaced or removed
+      const stale: string[] = [];
+      for await (const ids of idChunks(target, batchSize)) {
+        const live = await storedIds(source, ids);
+        stale.push(...ids.filter((id) => !live.has(id)));
+      }
+      for (let i = 0; i < stale.length; i += batchSize) {
+        await target.delete(`id IN (${inList(stale.slice(i, i + batchSize))})`);
+      }
+    }
+    const total = source ? await source.countRows() : 0;
+    const resumed = target ? await target.countRows() : 0;
+    let embedded = 0;
+    const report = async (message: string) => {
+      await opts.onProgress?.({ progress: resumed + embedded, total, message });
+    };
+    await report(resumed > 0 ? `resuming: ${resumed}/${total} events already re-embedded` : `re-embedding ${total} events`);
+
+    for await (const chunk of source ? idChunks(source, batchSize) : []) {
+      if (aborted()) break;
+      const done = await storedIds(target, chunk);
+      const ids = chunk.filter((id) => !done.has(id));
+      if (ids.length === 0) continue;
+      const rows = await source!.query().where(`id IN (${inList(ids)})`).select(EVENT_COLUMNS).toArray();
+      const records = rows.map((row: Record<string, unknown>) => Object.fromEntries(EVENT_COLUMNS.map((c) => [c, row[c]])));
+      const vectors = await embedder.embedBatch(records.map((r: Record<string, unknown>) => String(r.content ?? "")));
+      const batch = records.map((r: Record<string, unknown>, j: number) => ({ ...r, vector: vectors[j] }));
+      if (!target) {
+        target = await db.createTable(targetName, batch);
+      } else {
+        await target.mergeInsert("id").whenMatchedUpdateAll().whenNotMatchedInsertAll().execute(batch);
+      }
+      embedded += ids.length;
+      await report(`${resumed + embedded}/${total} events re-embedded`);
+    }
+    if (aborted()) return { status: "interrupted", from, to, embedded, resumed, total };
+
+    // Switch over, then drop every other events table (the old model's, and any abandoned run's)
+    const switchedTo = target ? targetName : undefined;
+    await saveProjectMeta(projectDir, {
+      ...meta,
+      events_table: switchedTo,
+      embedding: to,
+      event_count: target ? await target.countRows() : 0,
+    });
+    for (const name of await db.tableNames()) {
+      if (name !== switchedTo && (name === DEFAULT_EVENTS_TABLE || name.startsWith(`${DEFAULT_EVENTS_TABLE}_`))) {
+        await db.dropTable(name);
+      }
+    }
+    if (target) {
+      await optimizeEventsTable(projectDir).catch((err) => {
+        process.stderr.write(`preflight: timeline optimize failed — ${err}\n`);
+      });
+    } else {
+      // Nothing was stored; the table is recreated at the new size on the next write
+      await getEventsTable(projectDir, embedder);
+    }
+    await report(`done: ${total} events re-embedded`);
+    return { status: "done", from, to, embedded, resumed, total };
+  } finally {
+    await release();
+  }
+}
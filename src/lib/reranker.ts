@@ -0,0 +1,141 @@
+/**
+ * reranker.ts — Second-stage reranking for timeline search.
+ *
+ * Retrieval (vector, BM25 or both fused) is cheap but coarse: a bi-encoder
+ * compares query and event embeddings made independently, and scores from
+ * different projects' tables aren't comparable. A cross-encoder reads query
+ * and event together and scores their relevance directly, which is too slow
+ * for a whole table but fine for the top few dozen candidates. Recency and
+ * event-type boosts from `.preflight/config.yml` (`search.boosts`) are then
+ * applied on top, so a correction or commit outranks chatter of similar
+ * relevance.
+ */
+import type { PreTrainedModel, PreTrainedTokenizer } from "@xenova/transformers";
+import type { PreflightConfig } from "./config.js";
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+export interface RerankCandidate {
+  content: string;
+  type: string;
+  timestamp: string;
+  /** Score from the retrieval stage (RRF or cosine similarity). */
+  retrievalScore: number;
+}
+
+export interface RerankScore {
+  /** Cross-encoder relevance in [0, 1], or the normalized retrieval score when no model ran. */
+  relevance: number;
+  typeBoost: number;
+  recencyBoost: number;
+  /** relevance × typeBoost × recencyBoost — what results are ordered by. */
+  final: number;
+}
+
+export type SearchSettings = PreflightConfig["search"];
+
+// ── Constants ──────────────────────────────────────────────────────────────
+
+/** Cross-encoders see query + event in one window; events beyond this add nothing but latency. */
+const MAX_PASSAGE_CHARS = 1500;
+/** Pairs scored per forward pass. */
+const RERANK_BATCH = 8;
+const DAY_MS = 86_400_000;
+
+// ── Cross-encoder ──────────────────────────────────────────────────────────
+
+interface CrossEncoder {
+  tokenizer: PreTrainedTokenizer;
+  model: PreTrainedModel;
+}
+
+const encoders = new Map<string, Promise<CrossEncoder>>();
+
+/** Loaded once per model name; transformers is imported lazily so unused rerankers cost nothing. */
+function getCrossEncoder(modelName: string): Promise<CrossEncoder> {
+  let encoder = encoders.get(modelName);
+  if (!encoder) {
+    encoder = (async () => {
+      const { AutoTokenizer, AutoModelForSequenceClassification } = await import("@xenova/transformers");
+      const [tokenizer, model] = await Promise.all([
+        AutoTokenizer.from_pretrained(modelName),
+        AutoModelForSequenceClassification.from_pretrained(modelName),
+      ]);
+      return { tokenizer, model };
+    })();
+    // A failed load (offline, bad name) shouldn't be cached forever
+    encoder.catch(() => encoders.delete(modelName));
+    encoders.set(modelName, encoder);
+  }
+  return encoder;
+}
+
+const sigmoid = (x: number) => 1 / (1 + Math.exp(-x));
+
+/** Relevance of each passage to the query, in [0, 1]. */
+async function crossEncode(modelName: string, query: string, passages: string[]): Promise<number[]> {
+  const { tokenizer, model } = await getCrossEncoder(modelName);
+  const scores: number[] = [];
+  for (let i = 0; i < passages.length; i += RERANK_BATCH) {
+    const batch = passages.slice(i, i + RERANK_BATCH).map((p) => p.slice(0, MAX_PASSAGE_CHARS));
+    const inputs = tokenizer(new Array(batch.length).fill(query), {
+      text_pair: batch,
+      padding: true,
+      truncation: true,
+    });
+    const { logits } = await model(inputs);
+    // One logit per pair for MS MARCO-style models
+    const data = logits.data as Float32Array;
+    const perRow = data.length / batch.length;
+    for (let j = 0; j < batch.length; j++) scores.push(sigmoid(data[j * perRow + perRow - 1]));
+  }
+  return scores;
+}
+
+// ── Boosts ─────────────────────────────────────────────────────────────────
+
+function recencyBoost(timestamp: string, boosts: SearchSettings["boosts"], now: number): number {
+  if (boosts.recency_weight <= 0 || boosts.recency_half_life_days <= 0) return 1;
+  const ts = new Date(timestamp).getTime();
+  if (!Number.isFinite(ts)) return 1;
+  const ageDays = Math.max(0, now - ts) / DAY_MS;
+  return 1 + boosts.recency_weight * Math.pow(0.5, ageDays / boosts.recency_half_life_days);
+}
+
+// ── Public API ─────────────────────────────────────────────────────────────
+
+/**
+ * Score candidates for `query`: cross-encoder relevance when
+ * `settings.rerank.enabled`, otherwise retrieval scores scaled to [0, 1] by
+ * the best candidate, then boosted. Returns scores in candidate order plus
+ * whether the model actually ran; a model that fails to load falls back to
+ * retrieval scores rather than failing the search.
+ */
+export async function rerankCandidates(
+  query: string,
+  candidates: RerankCandidate[],
+  settings: SearchSettings,
+): Promise<{ scores: RerankScore[]; model: string | null }> {
+  let relevance: number[] | null = null;
+  let model: string | null = null;
+  if (settings.rerank.enabled && candidates.length > 0) {
+    try {
+      relevance = await crossEncode(settings.rerank.model, query, candidates.map((c) => c.content));
+      model = settings.rerank.model;
+    } catch (err) {
+      process.stderr.write(`preflight: reranker ${settings.rerank.model} unavailable — ${err}\n`);
+    }
+  }
+  if (!relevance) {
+    const best = Math.max(0, ...candidates.map((c) => c.retrievalScore));
+    relevance = candidates.map((c) => (best > 0 ? c.retrievalScore / best : 0));
+  }
+
+  const now = Date.now();
+  const scores = candidates.map((c, i) => {
+    const typeBoost = settings.boosts.types[c.type] ?? 1;
+    const recency = recencyBoost(c.timestamp, settings.boosts, now);
+    return { relevance: relevance![i], typeBoost, recencyBoost: recency, final: relevance![i] * typeBoost * recency };
+  });
+  return { scores, model };
+}
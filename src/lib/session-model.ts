@@ -0,0 +1,454 @@
+/**
+ * session-model.ts — One in-memory model of a Claude Code session.
+ *
+ * Built from the session parser's events, so estimate_cost, session_stats,
+ * scan_sessions and generate_scorecard agree on what a turn, a correction,
+ * a compaction or a commit is. A session groups events into turns (a user
+ * message plus everything the assistant did in reply), pairs tool calls with
+ * their results, and sums API token usage. Models are cached by file path and
+ * rebuilt only when the file's mtime or size changes. Files are streamed, so
+ * loading many sessions doesn't hold up the server.
+ */
+import { openSync, readSync, closeSync, statSync } from "fs";
+import { basename, dirname } from "path";
+import {
+  findSessionDirs,
+  findSessionFiles,
+  parseSessionAsync,
+  eventMetadata,
+  inferProject,
+  type TimelineEvent,
+  type TokenUsage,
+} from "./session-parser.js";
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+export interface SessionFile {
+  sessionId: string;
+  path: string;
+  mtime: Date;
+  size: number;
+  project: string;
+  projectName: string;
+  /** The ~/.claude/projects/<encoded> directory the file was found in. */
+  sessionDir: string;
+}
+
+export interface SessionToolCall {
+  name: string;
+  input: unknown;
+  /** file_path / notebook_path / path from the input, if any. */
+  file?: string;
+  /** Shell command for Bash. */
+  command?: string;
+  timestamp: string;
+  isSubAgent: boolean;
+  /** Missing when the session ended (or was compacted) before the result came back. */
+  result?: { is_error: boolean; size: number; duration_ms?: number };
+  event: TimelineEvent;
+}
+
+export interface SessionTurn {
+  /** The user message opening the turn — a `prompt` or a `correction` event. */
+  prompt: TimelineEvent;
+  /** Whether the assistant said or did anything since the previous user message. */
+  followsAssistant: boolean;
+  isCorrection: boolean;
+  /** Classifier confidence that the message corrects the previous turn (0 when not scored). */
+  correctionConfidence: number;
+  /** Assistant text events answering the prompt. */
+  responses: TimelineEvent[];
+  toolCalls: SessionToolCall[];
+  /** API usage summed over the turn's assistant messages. */
+  usage: TokenUsage;
+  /** Output tokens: API usage when recorded, otherwise ~chars/4 of text and tool input. */
+  outputTokens: number;
+}
+
+export interface Session {
+  id: string;
+  path: string;
+  project: string;
+  projectName: string;
+  mtime: Date;
+  size: number;
+  /** Last git branch recorded in the transcript ("" if none). */
+  branch: string;
+  cwd?: string;
+  /** Last model that answered. */
+  model?: string;
+  firstTimestamp: string | null;
+  lastTimestamp: string | null;
+  durationMinutes: number;
+  /** All parser events in file order. */
+  events: TimelineEvent[];
+  turns: SessionTurn[];
+  /** Every tool call, including those made before the first user message of a resumed session. */
+  toolCalls: SessionToolCall[];
+  corrections: SessionTurn[];
+  compactions: TimelineEvent[];
+  /** Bash tool calls that ran `git commit`. */
+  commits: SessionToolCall[];
+  subAgentSpawns: SessionToolCall[];
+  errors: TimelineEvent[];
+  usage: TokenUsage;
+  /** Whether any assistant message carried API usage; if not, token figures are estimates. */
+  hasUsage: boolean;
+  /** ~chars/4 of user text and tool results; used when there is no API usage. */
+  estimatedInputTokens: number;
+  /** Sum of the turns' outputTokens plus output before the first turn. */
+  outputTokens: number;
+}
+
+// ── Constants ──────────────────────────────────────────────────────────────
+
+/** Transcript bytes kept as cached models; a model takes roughly its file's size in memory. */
+const MAX_CACHED_BYTES = 256 * 1024 * 1024;
+/** Bytes read from the start of a transcript for its header. */
+const HEADER_BYTES = 16 * 1024;
+const COMMIT_COMMAND = /\bgit\s+(-C\s+\S+\s+)?commit\b/;
+
+// ── Cache ──────────────────────────────────────────────────────────────────
+
+const cache = new Map<string, { mtimeMs: number; size: number; session: Session }>();
+let cachedBytes = 0;
+
+function uncache(path: string): void {
+  const hit = cache.get(path);
+  if (!hit) return;
+  cache.delete(path);
+  cachedBytes -= hit.size;
+}
+
+/** Drop cached models (all, or one file's). */
+export function clearSessionCache(path?: string): void {
+  if (path) {
+    uncache(path);
+  } else {
+    cache.clear();
+    cachedBytes = 0;
+  }
+}
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+export function emptyUsage(): TokenUsage {
+  return { input_tokens: 0, output_tokens: 0, cache_creation_input_tokens: 0, cache_read_input_tokens: 0 };
+}
+
+function addUsage(total: TokenUsage, usage: TokenUsage): void {
+  total.input_tokens += usage.input_tokens;
+  total.output_tokens += usage.output_tokens;
+  total.cache_creation_input_tokens += usage.cache_creation_input_tokens;
+  total.cache_read_input_tokens += usage.cache_read_input_tokens;
+}
+
+/** Raise `seen` to `usage` field by field; returns how much each field rose. */
+function raiseUsage(seen: TokenUsage, usage: TokenUsage): TokenUsage {
+  const rise = emptyUsage();
+  for (const k of Object.keys(rise) as (keyof TokenUsage)[]) {
+    rise[k] = Math.max(0, usage[k] - seen[k]);
+    seen[k] += rise[k];
+  }
+  return rise;
+}
+
+function estimateTokens(chars: number): number {
+  return Math.ceil(chars / 4);
+}
+
+/** Does a project filter match this session directory? Exact name, or a case-insensitive substring of the path or name. */
+export function matchesProject(
+  dir: { project: string; projectName: string; sessionDir: string },
+  filter: string,
+): boolean {
+  if (dir.projectName === filter || dir.project === filter) return true;
+  const f = filter.toLowerCase();
+  return (
+    dir.projectName.toLowerCase().includes(f) ||
+    dir.project.toLowerCase().includes(f) ||
+    basename(dir.sessionDir).toLowerCase().includes(f)
+  );
+}
+
+function toolCallFrom(event: TimelineEvent): SessionToolCall {
+  const meta = eventMetadata<"tool_call">(event);
+  const input = meta.input ?? {};
+  const fields: Record<string, unknown> = typeof input === "object" && input !== null ? { ...input } : {};
+  const name = meta.tool ?? event.content.split(":")[0];
+  const file = fields.file_path ?? fields.notebook_path ?? fields.path;
+  return {
+    name,
+    input,
+    ...(typeof file === "string" ? { file } : {}),
+    ...(name === "Bash" && typeof fields.command === "string" ? { command: fields.command } : {}),
+    timestamp: event.timestamp,
+    isSubAgent: event.type === "sub_agent_spawn",
+    event,
+  };
+}
+
+function newTurn(prompt: TimelineEvent, followsAssistant: boolean): SessionTurn {
+  const confidence = eventMetadata<"prompt">(prompt).correction_confidence;
+  return {
+    prompt,
+    followsAssistant,
+    isCorrection: prompt.type === "correction",
+    correctionConfidence: typeof confidence === "number" ? confidence : prompt.type === "correction" ? 1 : 0,
+    responses: [],
+    toolCalls: [],
+    usage: emptyUsage(),
+    outputTokens: 0,
+  };
+}
+
+/** Assemble a Session from one file's events (in file order). */
+export function buildSession(file: SessionFile, events: TimelineEvent[]): Session {
+  const turns: SessionTurn[] = [];
+  const toolCalls: SessionToolCall[] = [];
+  const byToolUseId = new Map<string, SessionToolCall>();
+  const compactions: TimelineEvent[] = [];
+  const errors: TimelineEvent[] = [];
+  const usage = emptyUsage();
+  let hasUsage = false;
+  let estimatedInput = 0;
+  let leadingOutput = 0;
+  let branch = "";
+  let cwd: string | undefined;
+  let model: string | undefined;
+  // Per-turn estimate, used only when no usage is recorded for the turn
+  let estimatedOutput = 0;
+  let sawAssistant = false;
+  // Usage counted so far per API message; later records of a message repeat it, grown
+  const messageUsage = new Map<string, TokenUsage>();
+
+  const closeTurn = () => {
+    const turn = turns[turns.length - 1];
+    if (turn) turn.outputTokens = turn.usage.output_tokens > 0 ? turn.usage.output_tokens : estimatedOutput;
+    else leadingOutput = estimatedOutput;
+    estimatedOutput = 0;
+  };
+
+  for (const e of events) {
+    if (e.branch) branch = e.branch;
+    const meta = eventMetadata(e) as Record<string, any>;
+    if (!cwd && typeof meta.cwd === "string") cwd = meta.cwd;
+    if (typeof meta.model === "string" && meta.model) model = meta.model;
+    if (meta.usage) {
+      hasUsage = true;
+      let seen = emptyUsage();
+      if (typeof meta.message_id === "string") {
+        seen = messageUsage.get(meta.message_id) ?? seen;
+        messageUsage.set(meta.message_id, seen);
+      }
+      const rise = raiseUsage(seen, meta.usage);
+      addUsage(usage, rise);
+      if (turns.length > 0) addUsage(turns[turns.length - 1].usage, rise);
+    }
+    const turn = turns[turns.length - 1];
+
+    switch (e.type) {
+      case "prompt":
+      case "correction":
+        closeTurn();
+        turns.push(newTurn(e, sawAssistant));
+        sawAssistant = false;
+        estimatedInput += estimateTokens(e.content.length);
+        break;
+      case "assistant":
+        sawAssistant = true;
+        turn?.responses.push(e);
+        estimatedOutput += estimateTokens(e.content.length);
+        break;
+      case "tool_call":
+      case "sub_agent_spawn": {
+        sawAssistant = true;
+        const call = toolCallFrom(e);
+        toolCalls.push(call);
+        turn?.toolCalls.push(call);
+        const id = eventMetadata<"tool_call">(e).tool_use_id;
+        if (id) byToolUseId.set(id, call);
+        estimatedOutput += estimateTokens(JSON.stringify(call.input).length);
+        break;
+      }
+      case "tool_result":
+      case "error": {
+        const rm = eventMetadata<"tool_result">(e);
+        const call = rm.tool_use_id ? byToolUseId.get(rm.tool_use_id) : undefined;
+        if (call) {
+          call.result = {
+            is_error: rm.is_error ?? e.type === "error",
+            size: rm.size ?? e.content.length,
+            ...(rm.duration_ms !== undefined ? { duration_ms: rm.duration_ms } : {}),
+          };
+        }
+        if (e.type === "error") errors.push(e);
+        estimatedInput += estimateTokens(rm.size ?? e.content.length);
+        break;
+      }
+      case "compaction":
+        compactions.push(e);
+        break;
+    }
+  }
+  closeTurn();
+
+  const firstTimestamp = events[0]?.timestamp ?? null;
+  const lastTimestamp = events[events.length - 1]?.timestamp ?? null;
+  let durationMinutes = 0;
+  if (firstTimestamp && lastTimestamp) {
+    const ms = new Date(lastTimestamp).getTime() - new Date(firstTimestamp).getTime();
+    if (ms > 0) durationMinutes = ms / 60000;
+  }
+
+  return {
+    id: events.find((e) => e.session_id)?.session_id ?? file.sessionId,
+    path: file.path,
+    project: file.project,
+    projectName: file.projectName,
+    mtime: file.mtime,
+    size: file.size,
+    branch,
+    ...(cwd ? { cwd } : {}),
+    ...(model ? { model } : {}),
+    firstTimestamp,
+    lastTimestamp,
+    durationMinutes,
+    events,
+    turns,
+    toolCalls,
+    corrections: turns.filter((t) => t.isCorrection),
+    compactions,
+    commits: toolCalls.filter((c) => c.command && COMMIT_COMMAND.test(c.command)),
+    subAgentSpawns: toolCalls.filter((c) => c.isSubAgent),
+    errors,
+    usage,
+    hasUsage,
+    estimatedInputTokens: estimatedInput,
+    outputTokens: leadingOutput + turns.reduce((s, t) => s + t.outputTokens, 0),
+  };
+}
+
+/** A SessionFile for a bare path; the project comes from the session directory name. */
+function describeFile(path: string): SessionFile {
+  const stat = statSync(path);
+  let sessionDir = dirname(path);
+  // <encoded>/<uuid>/subagents/<sub>.jsonl belongs to <encoded>
+  if (basename(sessionDir) === "subagents") sessionDir = dirname(dirname(sessionDir));
+  return {
+    sessionId: basename(path, ".jsonl"),
+    path,
+    mtime: stat.mtime,
+    size: stat.size,
+    sessionDir,
+    ...inferProject(sessionDir),
+  };
+}
+
+// ── Public API ─────────────────────────────────────────────────────────────
+
+/**
+ * Session files under ~/.claude/projects, optionally narrowed to projects
+ * matching `project`, files modified since `since`, or one session id.
+ */
+export function listSessionFiles(opts: { project?: string; since?: Date; sessionId?: string } = {}): SessionFile[] {
+  const results: SessionFile[] = [];
+  for (const dir of findSessionDirs()) {
+    if (opts.project && !matchesProject(dir, opts.project)) continue;
+    for (const f of findSessionFiles(dir.sessionDir)) {
+      if (opts.sessionId && f.sessionId !== opts.sessionId) continue;
+      if (opts.since && f.mtime < opts.since) continue;
+      let size = 0;
+      try {
+        size = statSync(f.path).size;
+      } catch {
+        continue;
+      }
+      results.push({ ...f, size, project: dir.project, projectName: dir.projectName, sessionDir: dir.sessionDir });
+    }
+  }
+  return results;
+}
+
+/**
+ * The Session for a file, from cache when the file is unchanged.
+ * Throws if the file can't be read.
+ */
+export async function loadSession(file: SessionFile | string): Promise<Session> {
+  const ref = typeof file === "string" ? describeFile(file) : file;
+  const stat = statSync(ref.path);
+  const hit = cache.get(ref.path);
+  if (hit && hit.mtimeMs === stat.mtimeMs && hit.size === stat.size) {
+    // Refresh recency so the least recently used entry is evicted first
+    cache.delete(ref.path);
+    cache.set(ref.path, hit);
+    return hit.session;
+  }
+
+  const session = buildSession(
+    { ...ref, mtime: stat.mtime, size: stat.size },
+    await parseSessionAsync(ref.path, ref.project, ref.projectName),
+  );
+  uncache(ref.path);
+  cache.set(ref.path, { mtimeMs: stat.mtimeMs, size: stat.size, session });
+  cachedBytes += stat.size;
+  // Always keep the session just loaded, however large
+  while (cachedBytes > MAX_CACHED_BYTES && cache.size > 1) {
+    uncache(cache.keys().next().value!);
+  }
+  return session;
+}
+
+/** Load every listed session, skipping files that fail to read or parse. */
+export async function loadSessions(files: SessionFile[]): Promise<Session[]> {
+  const sessions: Session[] = [];
+  for (const f of files) {
+    try {
+      sessions.push(await loadSession(f));
+    } catch (err) {
+      process.stderr.write(`[session-model] failed to load ${f.path}: ${err}\n`);
+    }
+  }
+  return sessions;
+}
+
+/**
+ * The git branch from the first records of a transcript, without parsing the
+ * rest. Cheap enough for listing every session; undefined if none is recorded
+ * that early.
+ */
+export function readSessionBranch(path: string): string | undefined {
+  const buf = Buffer.alloc(HEADER_BYTES);
+  let bytes: number;
+  try {
+    const fd = openSync(path, "r");
+    try {
+      bytes = readSync(fd, buf, 0, HEADER_BYTES, 0);
+    } finally {
+      closeSync(fd);
+    }
+  } catch {
+    return undefined;
+  }
+  const lines = buf.toString("utf-8", 0, bytes).split("\n");
+  // Cut off at the block boundary
+  if (bytes === HEADER_BYTES) lines.pop();
+  for (const line of lines) {
+    try {
+      const obj = JSON.parse(line);
+      if (typeof obj.gitBranch === "string" && obj.gitBranch) return obj.gitBranch;
+    } catch {
+      // not a complete record
+    }
+  }
+  return undefined;
+}
+
+/** The most recently modified session file, if any. */
+export function latestSessionFile(opts: { project?: string } = {}): SessionFile | null {
+  let latest: SessionFile | null = null;
+  for (const f of listSessionFiles(opts)) {
+    if (!latest || f.mtime > latest.mtime) latest = f;
+  }
+  return latest;
+}
@@ -1,18 +1,93 @@
 /**
  * session-parser.ts — Parse Claude Code session JSONL files into timeline events.
+ *
+ * Events keep the flat TimelineEvent shape LanceDB stores; everything else a
+ * record carries goes into typed `metadata` (see EventMetadataMap): token
+ * usage and model for assistant output, the full tool input, tool result size
+ * and duration, uuid/parentUuid/isSidechain threading, and cwd. Downstream
+ * tools read these instead of re-parsing the raw JSONL.
  */
 import { readFileSync, readdirSync, statSync, existsSync, createReadStream } from "fs";
 import { join, basename } from "path";
 import { homedir } from "os";
-import { randomUUID } from "crypto";
-import { createInterface } from "readline";
+import { createHash } from "crypto";
+import {
+  scoreCorrection, toolTouch, findUndoneEdits, type ToolTouch, type UndoneEdit,
+} from "./correction-classifier.js";
+import { resolveProjectPath } from "./project-paths.js";
 
 // ── Types ──────────────────────────────────────────────────────────────────
 
+export type SessionEventType =
+  | "prompt" | "correction" | "assistant" | "tool_call" | "tool_result"
+  | "sub_agent_spawn" | "error" | "compaction";
+
+/** `message.usage` from an assistant record. */
+export interface TokenUsage {
+  input_tokens: number;
+  output_tokens: number;
+  cache_creation_input_tokens: number;
+  cache_read_input_tokens: number;
+}
+
+/** Threading and environment fields on every session event's metadata. */
+export interface RecordContext {
+  uuid?: string;
+  parent_uuid?: string;
+  /** Sub-agent conversation rather than the main thread. */
+  is_sidechain: boolean;
+  cwd?: string;
+}
+
+export interface PromptMetadata extends RecordContext {
+  correction_confidence?: number;
+  correction_signals?: string[];
+  correction_evidence?: { files_edited: string[]; undone: UndoneEdit[] };
+}
+
+export interface AssistantMetadata extends RecordContext {
+  model: string;
+  message_id?: string;
+  /**
+   * On the first event of each record. Claude Code splits one API message
+   * across records and repeats its usage on each, output_tokens growing as it
+   * streams — count each message_id once, at its largest (see buildSession).
+   */
+  usage?: TokenUsage;
+}
+
+export interface ToolCallMetadata extends AssistantMetadata {
+  tool: string;
+  tool_use_id: string;
+  input: unknown;
+}
+
+export interface ToolResultMetadata extends RecordContext {
+  tool: string;
+  tool_use_id: string;
+  is_error: boolean;
+  /** Characters of result text. */
+  size: number;
+  /** Time from the tool_use record to its result. */
+  duration_ms?: number;
+}
+
+export interface EventMetadataMap {
+  prompt: PromptMetadata;
+  correction: PromptMetadata;
+  assistant: AssistantMetadata;
+  tool_call: ToolCallMetadata;
+  sub_agent_spawn: ToolCallMetadata;
+  tool_result: ToolResultMetadata;
+  error: ToolResultMetadata;
+  compaction: RecordContext;
+}
+
 export interface TimelineEvent {
   id: string;
   timestamp: string;
-  type: string;
+  /** Session event types, or "commit" for git history (git-extractor.ts). */
+  type: SessionEventType | "commit";
   project: string;
   project_name: string;
   branch: string;
@@ -24,15 +99,45 @@ export interface TimelineEvent {
   metadata: string;
 }
 
+/** Resume point in a session file for streamSessionEvents. */
+export interface SessionCursor {
+  /** Byte offset of the first record whose events weren't all emitted. */
+  offset: number;
+  /** Lines before `offset`, so source_line stays correct. */
+  line: number;
+  /** Events of the record at `offset` that were already emitted. */
+  skip: number;
+  branch: string;
+  session_id: string;
+  labeller: LabellerState;
+}
+
+export interface StreamSessionOptions {
+  /**
+   * Hold back the turn still open at end of file while the file was modified
+   * less than this long ago: its prompt can't be labelled until the reply and
+   * the next prompt exist. The final cursor then points at that turn's prompt.
+   */
+  settleMs?: number;
+}
+
+/** Finished turns from streamSessionEvents, and where to resume after them. */
+export interface SessionChunk {
+  events: TimelineEvent[];
+  cursor: SessionCursor;
+  /** The file's open last turn was held back (see settleMs); `cursor` points at it. */
+  held?: boolean;
+}
+
 // ── Constants ──────────────────────────────────────────────────────────────
 
 const CLAUDE_PROJECTS_DIR = join(homedir(), ".claude", "projects");
-const LARGE_FILE_THRESHOLD = 10 * 1024 * 1024; // 10 MB
+const READ_BLOCK_BYTES = 256 * 1024;
 
-const CORRECTION_PATTERNS = [
-  /\bno\b/i, /\bwrong\b/i, /\bnot that\b/i, /\bi meant\b/i,
-  /\bactually\b/i, /\binstead\b/i, /\bundo\b/i,
-];
+/** Event types that belong to the assistant's side of a turn. */
+const ASSISTANT_SIDE = new Set(["assistant", "tool_call", "sub_agent_spawn", "tool_result", "error"]);
+const MAX_TOOL_PREVIEW = 300;
+const MAX_ERROR_CONTENT = 2000;
 
 // ── Helpers ────────────────────────────────────────────────────────────────
 
@@ -66,20 +171,142 @@ function normalizeTimestamp(ts: unknown, fallback: string): string {
   return fallback;
 }
 
+/**
+ * Lines of a file from byte `start`, with the byte range of each. The last
+ * line is yielded with `complete: false` when the file doesn't end in a newline.
+ */
+async function* readLines(
+  filePath: string,
+  start: number,
+): AsyncGenerator<{ text: string; start: number; end: number; complete: boolean }> {
+  let pending: Buffer[] = [];
+  let pendingStart = start;
+  let pos = start;
+
+  for await (const chunk of createReadStream(filePath, { start, highWaterMark: READ_BLOCK_BYTES }) as AsyncIterable<Buffer>) {
+    let from = 0;
+    let nl = chunk.indexOf(0x0a);
+    while (nl !== -1) {
+      const piece = chunk.subarray(from, nl);
+      const buf = pending.length > 0 ? Buffer.concat([...pending, piece]) : piece;
+      const lineEnd = pos + nl + 1;
+      yield { text: buf.toString("utf-8"), start: pendingStart, end: lineEnd, complete: true };
+      pending = [];
+      pendingStart = lineEnd;
+      from = nl + 1;
+      nl = chunk.indexOf(0x0a, from);
+    }
+    if (from < chunk.length) pending.push(chunk.subarray(from));
+    pos += chunk.length;
+  }
+  if (pending.length > 0) {
+    yield { text: Buffer.concat(pending).toString("utf-8"), start: pendingStart, end: pos, complete: false };
+  }
+}
+
 function preview(text: string, max = 120): string {
   const line = text.split("\n")[0] ?? "";
   return line.length > max ? line.slice(0, max) + "…" : line;
 }
 
-function isCorrection(text: string): boolean {
-  return CORRECTION_PATTERNS.some((p) => p.test(text));
+/** Where a correction labeller stands between turns: enough to resume mid-file. */
+export interface LabellerState {
+  /** Tool calls of the last finished turn — the next prompt's `before`. */
+  before: ToolTouch[];
+  /** Whether the assistant acted since the last prompt. */
+  saw_assistant: boolean;
+}
+
+/**
+ * Relabel user `prompt` events that correct the preceding assistant turn as
+ * `correction`, using the shared classifier with the tool calls on either side.
+ * Every user event after an assistant turn gets its confidence in metadata;
+ * corrections also get `correction_evidence`: the files the corrected turn
+ * edited and the hunks the next turn reverted or rewrote.
+ *
+ * Streaming: a prompt can only be scored once the turn answering it is over,
+ * so events are held from each prompt until the next one (or flush) and then
+ * released in order. Memory is bounded by the longest turn, not the file.
+ */
+function createLabeller(init: LabellerState = { before: [], saw_assistant: false }) {
+  let before = init.before;
+  let sawAssistant = init.saw_assistant;
+  let current: { prompt: TimelineEvent; afterAssistant: boolean; after: ToolTouch[]; events: TimelineEvent[] } | null = null;
+
+  const finish = (): TimelineEvent[] => {
+    if (!current) return [];
+    const { prompt, afterAssistant, after, events } = current;
+    if (afterAssistant) {
+      const score = scoreCorrection({ text: prompt.content, afterAssistant, before, after });
+      const meta: PromptMetadata = {
+        ...eventMetadata<"prompt">(prompt) as RecordContext,
+        correction_confidence: score.confidence,
+        correction_signals: score.signals,
+      };
+      if (score.isCorrection) {
+        prompt.type = "correction";
+        const filesEdited = [...new Set(before.filter((b) => b.edits && b.file).map((b) => b.file!))];
+        if (filesEdited.length > 0) {
+          meta.correction_evidence = { files_edited: filesEdited, undone: findUndoneEdits(before, after) };
+        }
+      }
+      prompt.metadata = JSON.stringify(meta);
+    }
+    before = after;
+    current = null;
+    return events;
+  };
+
+  return {
+    /** Feed one event; returns the events now safe to emit. */
+    push(e: TimelineEvent): TimelineEvent[] {
+      // Sub-agent turns are the main agent talking to itself, not user corrections
+      if (!eventMetadata(e).is_sidechain) {
+        if (e.type === "prompt") {
+          const released = finish();
+          current = { prompt: e, afterAssistant: sawAssistant, after: [], events: [e] };
+          sawAssistant = false;
+          return released;
+        }
+        if (ASSISTANT_SIDE.has(e.type)) {
+          sawAssistant = true;
+          if (e.type === "tool_call" || e.type === "sub_agent_spawn") {
+            const meta = eventMetadata<"tool_call">(e);
+            (current ? current.after : before).push(toolTouch(meta.tool ?? "unknown", meta.input));
+          }
+        }
+      }
+      if (!current) return [e];
+      current.events.push(e);
+      return [];
+    },
+    /** Score the open turn (end of input) and release it. */
+    flush: finish,
+    /** The prompt of the turn still waiting for the next one, if any. */
+    openPrompt(): TimelineEvent | null {
+      return current?.prompt ?? null;
+    },
+    /** State a new labeller needs to continue as if the next event came next. */
+    state(): LabellerState {
+      return { before: current ? current.after : before, saw_assistant: sawAssistant };
+    },
+  };
 }
 
+function labelCorrections(events: TimelineEvent[]): TimelineEvent[] {
+  const labeller = createLabeller();
+  const out: TimelineEvent[] = [];
+  for (const e of events) out.push(...labeller.push(e));
+  out.push(...labeller.flush());
+  return out;
+}
+
+/** Events are numbered by processRecord, once it knows how many a record produced. */
 function makeEvent(
   partial: Omit<TimelineEvent, "id" | "content_preview"> & { content_preview?: string },
 ): TimelineEvent {
   return {
-    id: randomUUID(),
+    id: "",
     content_preview: partial.content_preview ?? preview(partial.content),
     ...partial,
   } as TimelineEvent;
@@ -87,6 +314,26 @@ function makeEvent(
 
 // ── Public API ─────────────────────────────────────────────────────────────
 
+/**
+ * Stable id for the `ordinal`th event read from a transcript line (or a git
+ * commit, as `git:<hash>`). Re-ingesting the same source yields the same ids,
+ * so the store overwrites rather than duplicates.
+ */
+export function eventId(sourceFile: string, sourceLine: number, ordinal = 0): string {
+  return createHash("sha256").update(`${sourceFile}\0${sourceLine}\0${ordinal}`).digest("hex").slice(0, 32);
+}
+
+/** Typed view of an event's metadata JSON. Missing or corrupt metadata reads as empty. */
+export function eventMetadata<T extends SessionEventType = SessionEventType>(
+  event: { metadata?: string },
+): Partial<EventMetadataMap[T]> {
+  try {
+    return JSON.parse(event.metadata || "{}");
+  } catch {
+    return {};
+  }
+}
+
 /**
  * Discover all Claude project session directories.
  */
@@ -96,11 +343,8 @@ export function findSessionDirs(): { project: string; projectName: string; sessi
   for (const entry of readdirSync(CLAUDE_PROJECTS_DIR, { withFileTypes: true })) {
     if (!entry.isDirectory()) continue;
     const sessionDir = join(CLAUDE_PROJECTS_DIR, entry.name);
-    // Decode project path: leading `-` → `/`, internal `-` are ambiguous
-    // but the last path segment is a reasonable "name"
-    const decoded = entry.name.replace(/^-/, "/").replace(/-/g, "/");
-    const projectName = decoded.split("/").filter(Boolean).pop() ?? entry.name;
-    results.push({ project: decoded, projectName, sessionDir });
+    const { project, projectName } = resolveProjectPath(sessionDir);
+    results.push({ project, projectName, sessionDir });
   }
   return results;
 }
@@ -145,7 +389,8 @@ export function findSessionFiles(
 
 /**
  * Parse a single JSONL session file into timeline events.
- * For files >10MB, streams line-by-line.
+ * Reads the whole file; ingestion of large sessions should use
+ * streamSessionEvents instead.
  */
 export function parseSession(
   filePath: string,
@@ -153,58 +398,142 @@ export function parseSession(
   projectName: string,
 ): TimelineEvent[] {
   const stat = statSync(filePath);
-  const fallbackTs = stat.mtime.toISOString();
-
-  if (stat.size > LARGE_FILE_THRESHOLD) {
-    // Return empty — caller should use parseSessionAsync for large files
-    // But for sync API compat, read anyway with a buffer
-  }
-
   const lines = readFileSync(filePath, "utf-8").split("\n");
-  return parseLinesSync(lines, filePath, project, projectName, fallbackTs);
+  return parseLinesSync(lines, filePath, project, projectName, stat.mtime.toISOString());
 }
 
 /**
- * Async streaming parser for large files.
+ * Async parse of a whole session file, streamed line by line.
  */
 export async function parseSessionAsync(
   filePath: string,
   project: string,
   projectName: string,
 ): Promise<TimelineEvent[]> {
-  const stat = statSync(filePath);
-  const fallbackTs = stat.mtime.toISOString();
   const events: TimelineEvent[] = [];
-  let branch = "";
-  let sessionId = basename(filePath, ".jsonl");
-  let lastType = "";
-  let lineNum = 0;
-
-  const rl = createInterface({ input: createReadStream(filePath, "utf-8"), crlfDelay: Infinity });
+  for await (const chunk of streamSessionEvents(filePath, project, projectName)) {
+    events.push(...chunk.events);
+  }
+  return events;
+}
 
-  for await (const line of rl) {
+/**
+ * Stream a session file as finished turns. Each chunk carries the cursor to
+ * resume from after its events, so a caller that persists the cursor once the
+ * events are stored can pick up a growing or interrupted file where it left
+ * off. The file is read in fixed-size blocks and the next chunk isn't parsed
+ * until the consumer asks for it, so a slow consumer holds back the reader.
+ * A trailing line that isn't valid JSON yet (still being written) is left
+ * for the next run, as is the open last turn of a file still being written
+ * (see StreamSessionOptions.settleMs).
+ */
+export async function* streamSessionEvents(
+  filePath: string,
+  project: string,
+  projectName: string,
+  from?: SessionCursor,
+  opts: StreamSessionOptions = {},
+): AsyncGenerator<SessionChunk> {
+  const stat = statSync(filePath);
+  const state = newParseState(filePath, project, projectName, stat.mtime.toISOString());
+  if (from) {
+    state.branch = from.branch;
+    state.sessionId = from.session_id;
+  }
+  const labeller = createLabeller(from?.labeller);
+  let lineNum = from?.line ?? 0;
+  let end = from?.offset ?? 0;
+  let skip = from?.skip ?? 0;
+  // Where to resume to re-read the turn that's open now
+  let openAt: SessionCursor | null = null;
+
+  for await (const line of readLines(filePath, end)) {
     lineNum++;
-    if (!line.trim()) continue;
+    const text = line.text.trim();
     let obj: any;
-    try {
-      obj = JSON.parse(line);
-    } catch {
-      process.stderr.write(`[session-parser] malformed line ${lineNum} in ${filePath}\n`);
-      continue;
+    if (text) {
+      try {
+        obj = JSON.parse(text);
+      } catch {
+        if (!line.complete) {
+          // Not read yet as far as the cursor is concerned
+          lineNum--;
+          break;
+        }
+        process.stderr.write(`[session-parser] malformed line ${lineNum} in ${filePath}\n`);
+      }
     }
-    const evts = processRecord(obj, filePath, project, projectName, branch, sessionId, fallbackTs, lineNum, lastType);
-    if (obj.type === "summary") {
-      branch = obj.gitBranch ?? "";
-      if (obj.sessionId) sessionId = obj.sessionId;
+    if (obj !== undefined) {
+      const before: SessionCursor = {
+        offset: line.start,
+        line: lineNum - 1,
+        skip: 0,
+        branch: state.branch,
+        session_id: state.sessionId,
+        labeller: labeller.state(),
+      };
+      const events = processRecord(obj, state, lineNum);
+      for (let k = 0; k < events.length; k++) {
+        const released = labeller.push(events[k]);
+        if (labeller.openPrompt() === events[k]) openAt = { ...before, skip: k };
+        // Already emitted before the resume point
+        if (k < skip) continue;
+        // Outside a turn the event itself comes straight back, so resume after it
+        const emitted = released[released.length - 1] === events[k] ? k + 1 : k;
+        if (released.length > 0) yield { events: released, cursor: { ...before, skip: emitted } };
+      }
     }
-    if (obj.type === "user" || obj.type === "assistant") lastType = obj.type;
-    events.push(...evts);
+    skip = 0;
+    end = line.end;
   }
-  return events;
+
+  if (openAt && labeller.openPrompt() && opts.settleMs !== undefined && Date.now() - stat.mtimeMs < opts.settleMs) {
+    yield { events: [], cursor: openAt, held: true };
+    return;
+  }
+
+  yield {
+    events: labeller.flush(),
+    cursor: {
+      offset: end,
+      line: lineNum,
+      skip: 0,
+      branch: state.branch,
+      session_id: state.sessionId,
+      labeller: labeller.state(),
+    },
+  };
 }
 
 // ── Internal ───────────────────────────────────────────────────────────────
 
+/** Per-file state carried across records. */
+interface ParseState {
+  filePath: string;
+  project: string;
+  projectName: string;
+  fallbackTs: string;
+  branch: string;
+  sessionId: string;
+  /** tool_use id → tool name and when it was called, for result durations. */
+  toolUses: Map<string, { name: string; ts: string }>;
+}
+
+/** Fields every event of a record shares. */
+type EventBase = Pick<TimelineEvent, "project" | "project_name" | "branch" | "session_id" | "source_file" | "source_line">;
+
+function newParseState(filePath: string, project: string, projectName: string, fallbackTs: string): ParseState {
+  return {
+    filePath,
+    project,
+    projectName,
+    fallbackTs,
+    branch: "",
+    sessionId: basename(filePath, ".jsonl"),
+    toolUses: new Map(),
+  };
+}
+
 function parseLinesSync(
   lines: string[],
   filePath: string,
@@ -212,10 +541,8 @@ function parseLinesSync(
   projectName: string,
   fallbackTs: string,
 ): TimelineEvent[] {
+  const state = newParseState(filePath, project, projectName, fallbackTs);
   const events: TimelineEvent[] = [];
-  let branch = "";
-  let sessionId = basename(filePath, ".jsonl");
-  let lastType = "";
 
   for (let i = 0; i < lines.length; i++) {
     const line = lines[i].trim();
@@ -227,81 +554,164 @@ function parseLinesSync(
       process.stderr.write(`[session-parser] malformed line ${i + 1} in ${filePath}\n`);
       continue;
     }
+    events.push(...processRecord(obj, state, i + 1));
+  }
+  return labelCorrections(events);
+}
 
-    if (obj.type === "summary") {
-      branch = obj.gitBranch ?? "";
-      if (obj.sessionId) sessionId = obj.sessionId;
-      continue;
-    }
+function readUsage(usage: unknown): TokenUsage | undefined {
+  if (!usage || typeof usage !== "object") return undefined;
+  const u = usage as Partial<Record<keyof TokenUsage, unknown>>;
+  const n = (v: unknown) => (typeof v === "number" && Number.isFinite(v) ? v : 0);
+  return {
+    input_tokens: n(u.input_tokens),
+    output_tokens: n(u.output_tokens),
+    cache_creation_input_tokens: n(u.cache_creation_input_tokens),
+    cache_read_input_tokens: n(u.cache_read_input_tokens),
+  };
+}
 
-    const evts = processRecord(obj, filePath, project, projectName, branch, sessionId, fallbackTs, i + 1, lastType);
-    if (obj.type === "user" || obj.type === "assistant") lastType = obj.type;
-    events.push(...evts);
-  }
-  return events;
+/** Text of a tool_result's content: a string or text blocks. */
+function resultText(content: unknown): string {
+  if (typeof content === "string") return content;
+  if (Array.isArray(content)) return extractText(content);
+  return content == null ? "" : JSON.stringify(content);
 }
 
-function processRecord(
-  obj: any,
-  filePath: string,
-  project: string,
-  projectName: string,
-  branch: string,
-  sessionId: string,
-  fallbackTs: string,
-  lineNum: number,
-  lastType: string,
-): TimelineEvent[] {
-  const ts = normalizeTimestamp(obj.timestamp, fallbackTs);
-  const base = { project, project_name: projectName, branch, session_id: sessionId, source_file: filePath, source_line: lineNum };
+function toolResultEvent(
+  state: ParseState,
+  base: EventBase,
+  context: RecordContext,
+  ts: string,
+  toolUseId: string,
+  content: unknown,
+  isError: boolean,
+): TimelineEvent {
+  const text = resultText(content);
+  const call = state.toolUses.get(toolUseId);
+  const tool = call?.name ?? "unknown";
+  const duration = call ? new Date(ts).getTime() - new Date(call.ts).getTime() : NaN;
+  const meta: ToolResultMetadata = {
+    ...context,
+    tool,
+    tool_use_id: toolUseId,
+    is_error: isError,
+    size: text.length,
+    ...(Number.isFinite(duration) && duration >= 0 ? { duration_ms: duration } : {}),
+  };
+  return makeEvent({
+    ...base,
+    timestamp: ts,
+    type: isError ? "error" : "tool_result",
+    content: isError ? (text || "tool error").slice(0, MAX_ERROR_CONTENT) : `${tool}: ${text.slice(0, MAX_TOOL_PREVIEW)}`,
+    metadata: JSON.stringify(meta),
+  });
+}
+
+function processRecord(obj: any, state: ParseState, lineNum: number): TimelineEvent[] {
+  // Any record may carry the session's current branch and id, not just summaries
+  if (typeof obj.gitBranch === "string" && obj.gitBranch) state.branch = obj.gitBranch;
+  if (typeof obj.sessionId === "string" && obj.sessionId) state.sessionId = obj.sessionId;
+  if (obj.type === "summary") return [];
+
+  const ts = normalizeTimestamp(obj.timestamp, state.fallbackTs);
+  const base: EventBase = {
+    project: state.project,
+    project_name: state.projectName,
+    branch: state.branch,
+    session_id: state.sessionId,
+    source_file: state.filePath,
+    source_line: lineNum,
+  };
+  const context: RecordContext = {
+    ...(obj.uuid ? { uuid: obj.uuid } : {}),
+    ...(obj.parentUuid ? { parent_uuid: obj.parentUuid } : {}),
+    is_sidechain: obj.isSidechain === true,
+    ...(obj.cwd ? { cwd: obj.cwd } : {}),
+  };
   const events: TimelineEvent[] = [];
 
   if (obj.type === "user") {
-    const text = extractText(obj.message?.content);
-    if (!text) return events;
-    const isCorr = lastType === "assistant" && isCorrection(text);
-    events.push(makeEvent({ ...base, timestamp: ts, type: isCorr ? "correction" : "prompt", content: text, metadata: "{}" }));
-  } else if (obj.type === "assistant") {
     const content = obj.message?.content;
+    // Tool results come back as user records with tool_result blocks
+    if (Array.isArray(content)) {
+      for (const block of content) {
+        if (block?.type !== "tool_result") continue;
+        events.push(toolResultEvent(state, base, context, ts, block.tool_use_id ?? "", block.content, block.is_error === true));
+      }
+    }
+    const text = extractText(content);
+    if (text) {
+      const meta: PromptMetadata = context;
+      // Relabelled as "correction" by labelCorrections once the next turn is known
+      events.push(makeEvent({ ...base, timestamp: ts, type: "prompt", content: text, metadata: JSON.stringify(meta) }));
+    }
+  } else if (obj.type === "assistant") {
+    const message = obj.message ?? {};
+    const content = message.content;
+    const model: string = message.model ?? obj.model ?? "";
+    const messageId: string | undefined = message.id;
+    // Usage goes on the record's first event only
+    let usageTaken = false;
+    const takeUsage = (): Pick<AssistantMetadata, "usage"> => {
+      if (usageTaken) return {};
+      usageTaken = true;
+      const usage = readUsage(message.usage);
+      return usage ? { usage } : {};
+    };
+
     const text = extractText(content);
     if (text) {
-      events.push(makeEvent({ ...base, timestamp: ts, type: "assistant", content: text, metadata: JSON.stringify({ model: obj.model ?? "" }) }));
+      const meta: AssistantMetadata = { ...context, model, ...(messageId ? { message_id: messageId } : {}), ...takeUsage() };
+      events.push(makeEvent({ ...base, timestamp: ts, type: "assistant", content: text, metadata: JSON.stringify(meta) }));
     }
     for (const tool of extractToolUseBlocks(content)) {
       const name: string = tool.name ?? "unknown";
+      const toolUseId: string = tool.id ?? "";
+      if (toolUseId) state.toolUses.set(toolUseId, { name, ts });
       const argsStr = typeof tool.input === "string" ? tool.input : JSON.stringify(tool.input ?? {});
       const isSub = name === "Task" || name === "dispatch_agent";
+      const meta: ToolCallMetadata = {
+        ...context,
+        model,
+        ...(messageId ? { message_id: messageId } : {}),
+        ...takeUsage(),
+        tool: name,
+        tool_use_id: toolUseId,
+        input: tool.input ?? {},
+      };
       events.push(makeEvent({
         ...base,
         timestamp: ts,
         type: isSub ? "sub_agent_spawn" : "tool_call",
-        content: `${name}: ${argsStr.slice(0, 100)}`,
-        metadata: JSON.stringify({ tool: name }),
+        content: `${name}: ${argsStr.slice(0, MAX_TOOL_PREVIEW)}`,
+        metadata: JSON.stringify(meta),
       }));
     }
   } else if (obj.type === "tool_result") {
+    // Older transcripts: tool results as top-level records
     const isErr = obj.is_error === true || (typeof obj.content === "string" && /stderr/i.test(obj.content));
-    if (isErr) {
-      const text = extractText(obj.content) || JSON.stringify(obj.content ?? "").slice(0, 200);
-      events.push(makeEvent({ ...base, timestamp: ts, type: "error", content: text, metadata: JSON.stringify({ tool_use_id: obj.tool_use_id ?? "" }) }));
-    }
+    events.push(toolResultEvent(state, base, context, ts, obj.tool_use_id ?? "", obj.content, isErr));
   } else if (obj.type === "system") {
     const text = extractText(obj.message?.content ?? obj.content ?? "");
-    if (/compact/i.test(text) || obj.subtype === "compaction") {
-      events.push(makeEvent({ ...base, timestamp: ts, type: "compaction", content: text || "context compacted", metadata: "{}" }));
+    if (/compact/i.test(text) || obj.subtype === "compaction" || obj.subtype === "compact_boundary") {
+      events.push(makeEvent({ ...base, timestamp: ts, type: "compaction", content: text || "context compacted", metadata: JSON.stringify(context) }));
     }
   }
 
+  events.forEach((e, i) => { e.id = eventId(state.filePath, lineNum, i); });
   return events;
 }
 
 /**
  * Parse all sessions for a project directory, optionally filtering by mtime.
+ * Files are streamed and the event loop gets a turn between them, so this
+ * can run in the background of a serving process.
  */
-export function parseAllSessions(
+export async function parseAllSessions(
   projectDir: string,
   opts?: { since?: Date },
-): TimelineEvent[] {
+): Promise<TimelineEvent[]> {
   const files = findSessionFiles(projectDir);
   const { project, projectName } = inferProject(projectDir);
   const events: TimelineEvent[] = [];
@@ -309,7 +719,8 @@ export function parseAllSessions(
   for (const f of files) {
     if (opts?.since && f.mtime < opts.since) continue;
     try {
-      events.push(...parseSession(f.path, project, projectName));
+      events.push(...(await parseSessionAsync(f.path, project, projectName)));
+      await new Promise((r) => setImmediate(r));
     } catch (err) {
       process.stderr.write(`[session-parser] failed to parse ${f.path}: ${err}\n`);
     }
@@ -317,9 +728,8 @@ export function parseAllSessions(
   return events.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
 }
 
-function inferProject(projectDir: string): { project: string; projectName: string } {
-  const dir = basename(projectDir);
-  const decoded = dir.replace(/^-/, "/").replace(/-/g, "/");
-  const projectName = decoded.split("/").filter(Boolean).pop() ?? dir;
-  return { project: decoded, projectName };
+/** Project path and name for a session directory (see resolveProjectPath). */
+export function inferProject(projectDir: string): { project: string; projectName: string } {
+  const { project, projectName } = resolveProjectPath(projectDir);
+  return { project, projectName };
 }
@@ -0,0 +1,276 @@
+/**
+ * session-summary.ts — Extractive per-session summaries.
+ *
+ * "What happened in this session" assembled from the session's own events,
+ * with no model in the loop: the goal is the first substantive prompt, files
+ * come from tool call inputs, commits from threads.ts's linking, and the
+ * outcome from how the session ended. Each summary is stored as a
+ * `session_summary` record in the project's events table — structured fields
+ * in metadata, a readable rendering as content — so sessions are searchable
+ * (search_history level "session") and listable (timeline, session_handoff).
+ * Ingestion rebuilds the summary of every session it wrote events for; the
+ * watcher defers a live session's to once every few minutes.
+ */
+import { relative, isAbsolute } from "path";
+import type { TimelineRecord, TimelineEvent } from "./timeline-db.js";
+import type { EmbeddingProvider } from "./embeddings.js";
+import { eventId, eventMetadata } from "./session-parser.js";
+import { toolTouch } from "./correction-classifier.js";
+import { linkSessionCommits, type ThreadCommit } from "./threads.js";
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+/**
+ * committed: made commits and didn't end on a problem. uncommitted: nothing
+ * committed. ended_on_correction: the last prompt was a correction with no
+ * reply. ended_on_error: the last tool result was an error.
+ */
+export type SessionOutcome = "committed" | "uncommitted" | "ended_on_correction" | "ended_on_error";
+
+export interface SessionSummary {
+  session_id: string;
+  project: string;
+  branch: string;
+  started: string;
+  ended: string;
+  goal: string;
+  /** Other prompts, evenly sampled, for a sense of where the session went. */
+  later_prompts: string[];
+  /** Project-relative where possible; edited files first. */
+  files_edited: string[];
+  files_read: string[];
+  commits: { hash: string; subject: string; linked_by: ThreadCommit["linkedBy"] }[];
+  /** The last few corrections' text; `correction_count` has them all. */
+  corrections: string[];
+  correction_count: number;
+  compactions: number;
+  outcome: SessionOutcome;
+  /** The assistant's last message. */
+  last_response: string;
+  prompts: number;
+  events: number;
+}
+
+// ── Constants ──────────────────────────────────────────────────────────────
+
+const LINE_CHARS = 200;
+const MAX_LATER_PROMPTS = 3;
+const MAX_FILES = 15;
+const MAX_CORRECTIONS = 5;
+/** Shorter prompts ("continue", "yes do it") don't state a goal. */
+const MIN_GOAL_CHARS = 20;
+/** Command wrappers, caveats and interrupts Claude Code records as user messages. */
+const NON_GOAL = /^\s*(<|\/\w|\[Request interrupted)/;
+
+const OUTCOME_LABELS: Record<SessionOutcome, string> = {
+  committed: "✅ committed",
+  uncommitted: "📝 no commits",
+  ended_on_correction: "❌ ended on a correction",
+  ended_on_error: "⚠️ ended on an error",
+};
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+function clip(text: string, max = LINE_CHARS): string {
+  const line = text.replace(/\s+/g, " ").trim();
+  return line.length > max ? line.slice(0, max) + "…" : line;
+}
+
+function displayPath(file: string, projectDir: string): string {
+  if (!isAbsolute(file)) return file;
+  const rel = relative(projectDir, file);
+  return rel && !rel.startsWith("..") ? rel : file;
+}
+
+/** Main-thread events only; sub-agent conversations are the agent talking to itself. */
+function isMainThread(e: TimelineRecord): boolean {
+  return !eventMetadata(e).is_sidechain;
+}
+
+function sample<T>(items: T[], n: number): T[] {
+  if (items.length <= n) return items;
+  const step = items.length / n;
+  return Array.from({ length: n }, (_, i) => items[Math.floor(i * step)]);
+}
+
+function outcomeOf(events: TimelineRecord[], commits: number): SessionOutcome {
+  const last = (types: string[]) => {
+    for (let i = events.length - 1; i >= 0; i--) if (types.includes(events[i].type)) return i;
+    return -1;
+  };
+  const lastUser = last(["prompt", "correction"]);
+  if (lastUser !== -1 && events[lastUser].type === "correction" && last(["assistant"]) < lastUser) {
+    return "ended_on_correction";
+  }
+  if (last(["error"]) > Math.max(last(["tool_result"]), lastUser)) return "ended_on_error";
+  return commits > 0 ? "committed" : "uncommitted";
+}
+
+// ── Public API ─────────────────────────────────────────────────────────────
+
+/** Summarize a session's events (oldest first). Null for a session with no prompts. */
+export function summarizeSession(
+  projectDir: string,
+  events: TimelineRecord[],
+  commits: ThreadCommit[],
+): SessionSummary | null {
+  const main = events.filter(isMainThread);
+  const prompts = main.filter((e) => e.type === "prompt" || e.type === "correction");
+  if (prompts.length === 0) return null;
+
+  const goalEvent = prompts.find((e) => e.content.trim().length >= MIN_GOAL_CHARS && !NON_GOAL.test(e.content)) ?? prompts[0];
+
+  const edited = new Set<string>();
+  const read = new Set<string>();
+  for (const e of events) {
+    if (e.type !== "tool_call") continue;
+    const meta = eventMetadata<"tool_call">(e);
+    const touch = toolTouch(meta.tool ?? "", meta.input);
+    if (!touch.file) continue;
+    (touch.edits ? edited : read).add(displayPath(touch.file, projectDir));
+  }
+  for (const file of edited) read.delete(file);
+
+  const corrections = prompts.filter((e) => e.type === "correction");
+  const lastResponse = [...main].reverse().find((e) => e.type === "assistant");
+  return {
+    session_id: events[0].session_id,
+    project: projectDir,
+    branch: events[events.length - 1].branch,
+    started: events[0].timestamp,
+    ended: events[events.length - 1].timestamp,
+    goal: clip(goalEvent.content),
+    later_prompts: sample(prompts.filter((e) => e !== goalEvent && e.type === "prompt"), MAX_LATER_PROMPTS).map((e) => clip(e.content)),
+    files_edited: [...edited].slice(0, MAX_FILES),
+    files_read: [...read].slice(0, MAX_FILES),
+    commits: commits.map(({ event, linkedBy }) => ({
+      hash: event.source_file.replace(/^git:/, "").slice(0, 7),
+      subject: clip(event.content.split("\n")[0], 100),
+      linked_by: linkedBy,
+    })),
+    corrections: corrections.slice(-MAX_CORRECTIONS).map((e) => clip(e.content, 120)),
+    correction_count: corrections.length,
+    compactions: events.filter((e) => e.type === "compaction").length,
+    outcome: outcomeOf(main, commits.length),
+    last_response: lastResponse ? clip(lastResponse.content) : "",
+    prompts: prompts.length,
+    events: events.length,
+  };
+}
+
+/**
+ * Markdown lines for a summary. This is also the record's content, so what
+ * search matches is what the reader sees.
+ */
+export function formatSessionSummary(summary: SessionSummary): string[] {
+  const lines = [`**Goal**: ${summary.goal}`];
+  if (summary.later_prompts.length > 0) lines.push(`**Also asked**: ${summary.later_prompts.map((p) => `"${p}"`).join("; ")}`);
+  const files = [...summary.files_edited.map((f) => `${f} (edited)`), ...summary.files_read];
+  if (files.length > 0) lines.push(`**Files**: ${files.join(", ")}`);
+  if (summary.commits.length > 0) {
+    lines.push(`**Commits**: ${summary.commits.map((c) => `${c.hash} ${c.subject}`).join("; ")}`);
+  }
+  if (summary.corrections.length > 0) {
+    lines.push(`**Corrections** (${summary.correction_count}): ${summary.corrections.map((c) => `"${c}"`).join("; ")}`);
+  }
+  if (summary.compactions > 0) lines.push(`**Compactions**: ${summary.compactions}`);
+  lines.push(`**Outcome**: ${OUTCOME_LABELS[summary.outcome]}${summary.last_response ? ` — last reply: "${summary.last_response}"` : ""}`);
+  return lines;
+}
+
+/** "2026-10-18 09:00 → 09:04 · master · 12 prompts" */
+export function formatSessionSpan(summary: SessionSummary): string {
+  const fmt = (ts: string) => new Date(ts).toISOString().replace("T", " ").slice(0, 16);
+  const started = fmt(summary.started);
+  const ended = fmt(summary.ended);
+  const span = started.slice(0, 10) === ended.slice(0, 10) ? `${started} → ${ended.slice(11)}` : `${started} → ${ended}`;
+  return [span, summary.branch, `${summary.prompts} prompt${summary.prompts !== 1 ? "s" : ""}`].filter(Boolean).join(" · ");
+}
+
+/** One line: "09:00→09:04 a1b2c3d4: "goal" · 2 edited · 1 commit · 1 correction · ✅ committed" */
+export function formatSessionLine(summary: SessionSummary): string {
+  const started = new Date(summary.started).toISOString();
+  const ended = new Date(summary.ended).toISOString();
+  // Sessions listed under the day they ended; one that began earlier says when
+  const from = started.slice(0, 10) === ended.slice(0, 10) ? started.slice(11, 16) : `${started.slice(5, 10)} ${started.slice(11, 16)}`;
+  const plural = (n: number, word: string) => `${n} ${word}${n !== 1 ? "s" : ""}`;
+  const parts = [`${from}→${ended.slice(11, 16)} ${summary.session_id.slice(0, 8)}: "${clip(summary.goal, 100)}"`];
+  if (summary.files_edited.length > 0) parts.push(`${summary.files_edited.length} edited`);
+  if (summary.commits.length > 0) parts.push(plural(summary.commits.length, "commit"));
+  if (summary.correction_count > 0) parts.push(plural(summary.correction_count, "correction"));
+  parts.push(OUTCOME_LABELS[summary.outcome]);
+  return parts.join(" · ");
+}
+
+/** The summary parsed back out of a `session_summary` record; null for any other record. */
+export function parseSessionSummary(record: { type: string; metadata?: string }): SessionSummary | null {
+  if (record.type !== "session_summary") return null;
+  try {
+    const summary = JSON.parse(record.metadata || "{}");
+    return typeof summary.goal === "string" ? (summary as SessionSummary) : null;
+  } catch {
+    return null;
+  }
+}
+
+/** The `session_summary` record for a summary; one per session, replaced on every rebuild. */
+export function summaryRecord(summary: SessionSummary, projectName: string, sourceFile: string): TimelineEvent {
+  const content = formatSessionSummary(summary).join("\n");
+  return {
+    id: eventId(`session:${summary.session_id}`, 0),
+    timestamp: summary.ended,
+    type: "session_summary",
+    project: summary.project,
+    project_name: projectName,
+    branch: summary.branch,
+    session_id: summary.session_id,
+    source_file: sourceFile,
+    source_line: 0,
+    content,
+    content_preview: summary.goal,
+    metadata: JSON.stringify(summary),
+  };
+}
+
+/** Rebuild and store the summaries of `sessionIds` from their stored events. */
+export async function refreshSessionSummaries(
+  projectDir: string,
+  sessionIds: Iterable<string>,
+  embedder: EmbeddingProvider,
+): Promise<number> {
+  const { getSessionEvents, insertEvents } = await import("./timeline-db.js");
+  const records: TimelineEvent[] = [];
+  for (const id of sessionIds) {
+    const events = await getSessionEvents(projectDir, id);
+    if (events.length === 0) continue;
+    const summary = summarizeSession(projectDir, events, await linkSessionCommits(projectDir, events));
+    if (summary) records.push(summaryRecord(summary, events[0].project_name, events[0].source_file));
+  }
+  if (records.length === 0) return 0;
+  const vectors = await embedder.embedBatch(records.map((r) => r.content));
+  await insertEvents(records.map((r, i) => ({ ...r, vector: vectors[i] })), projectDir, embedder);
+  return records.length;
+}
+
+/**
+ * Stored summaries across `projectDirs`, most recently ended first.
+ * Projects that were never onboarded are skipped.
+ */
+export async function loadSessionSummaries(
+  projectDirs: string[],
+  opts: { since?: string; until?: string; branch?: string; limit?: number } = {},
+): Promise<SessionSummary[]> {
+  const { getTimeline } = await import("./timeline-db.js");
+  const records = await getTimeline({
+    project_dirs: projectDirs,
+    type: "session_summary",
+    branch: opts.branch,
+    since: opts.since,
+    until: opts.until,
+    // One row per session; take them all so "most recent" is over every session
+    limit: 100_000,
+  });
+  const summaries = records.map(parseSessionSummary).filter((s): s is SessionSummary => s !== null);
+  summaries.sort((a, b) => b.ended.localeCompare(a.ended));
+  return opts.limit ? summaries.slice(0, opts.limit) : summaries;
+}
@@ -31,7 +31,7 @@ export function loadState(name: string): Record<string, any> {
 /**
  * Save a JSON state file by name (without extension).
  */
-export function saveState(name: string, data: Record<string, any>): void {
+export function saveState(name: string, data: object): void {
   ensureStateDir();
   writeFileSync(join(STATE_DIR, `${name}.json`), JSON.stringify(data, null, 2));
 }
@@ -80,6 +80,14 @@ export function readLog(filename: string, lastN?: number): Record<string, any>[]
   }
 }
 
+/**
+ * Read a JSONL log including the backup appendLog rotated out, oldest first —
+ * for readers that need the whole history in order, not just the live file.
+ */
+export function readLogWithRotated(filename: string): Record<string, any>[] {
+  return [...readLog(`${filename}.old`), ...readLog(filename)];
+}
+
 /** ISO timestamp for the current moment. */
 export function now(): string {
   return new Date().toISOString();
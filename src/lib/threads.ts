@@ -0,0 +1,114 @@
+/**
+ * threads.ts — Conversation threads around search hits.
+ *
+ * A single event rarely says enough: a correction doesn't show the prompt
+ * that went wrong or how it was resolved. A thread is the hit plus the events
+ * around it in the same session, with the commits that session made. Commits
+ * are linked by the hashes `git commit` printed in the session's tool output,
+ * or failing that by time.
+ */
+import type { TimelineRecord } from "./timeline-db.js";
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+export interface ThreadCommit {
+  event: TimelineRecord;
+  /** "hash": the session's `git commit` output named it; "time": committed during the session. */
+  linkedBy: "hash" | "time";
+}
+
+export interface Thread {
+  sessionId: string;
+  /** The hit and the conversation around it, oldest first. */
+  events: TimelineRecord[];
+  /** Index of the hit in `events`. */
+  matchIndex: number;
+  /** Session events outside the window on each side. */
+  more: { before: number; after: number };
+  commits: ThreadCommit[];
+}
+
+// ── Constants ──────────────────────────────────────────────────────────────
+
+/** Tool output is the tool call's echo; it crowds the window without adding to the conversation. */
+const WINDOW_SKIP = new Set(["tool_result", "session_summary"]);
+/** Commits this long after a session's last event still count as made during it. */
+const COMMIT_GRACE_MS = 30 * 60 * 1000;
+const MAX_TIME_LINKED_COMMITS = 5;
+/** `[main 1a2b3c4] subject` / `[main (root-commit) 1a2b3c4] subject` */
+const COMMIT_OUTPUT_RE = /^\[[^\]\n]*?([0-9a-f]{7,40})\]/gm;
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+/** Short hashes `git commit` reported in the session's tool output. */
+function committedHashes(events: TimelineRecord[]): string[] {
+  const hashes = new Set<string>();
+  for (const e of events) {
+    if (e.type !== "tool_result") continue;
+    // tool_result content is "<tool>: <output>"
+    const output = e.content.replace(/^[^:]*:\s*/, "");
+    for (const m of output.matchAll(COMMIT_OUTPUT_RE)) hashes.add(m[1]);
+  }
+  return [...hashes];
+}
+
+function windowAround(events: TimelineRecord[], hit: TimelineRecord, context: number): Omit<Thread, "sessionId" | "commits"> {
+  const shown = events.filter((e) => e.id === hit.id || !WINDOW_SKIP.has(e.type));
+  let at = shown.findIndex((e) => e.id === hit.id);
+  if (at === -1) {
+    // The hit isn't stored as an event of this session (e.g. it's the session summary)
+    shown.push(hit);
+    at = shown.length - 1;
+  }
+  const start = Math.max(0, at - context);
+  const end = Math.min(shown.length, at + context + 1);
+  return {
+    events: shown.slice(start, end),
+    matchIndex: at - start,
+    more: { before: start, after: shown.length - end },
+  };
+}
+
+// ── Public API ─────────────────────────────────────────────────────────────
+
+/** Commits a session made: named in its `git commit` output, else dated within it (plus a grace period). */
+export async function linkSessionCommits(projectDir: string, events: TimelineRecord[]): Promise<ThreadCommit[]> {
+  const { getCommitEvents } = await import("./timeline-db.js");
+  const hashes = committedHashes(events);
+  if (hashes.length > 0) {
+    const linked = await getCommitEvents(projectDir, { hashes });
+    if (linked.length > 0) return linked.map((event) => ({ event, linkedBy: "hash" as const }));
+  }
+  if (events.length === 0) return [];
+  const until = new Date(new Date(events[events.length - 1].timestamp).getTime() + COMMIT_GRACE_MS).toISOString();
+  const during = await getCommitEvents(projectDir, { since: events[0].timestamp, until });
+  return during.slice(0, MAX_TIME_LINKED_COMMITS).map((event) => ({ event, linkedBy: "time" as const }));
+}
+
+/**
+ * Expand hits into threads of `context` events either side. Keyed by hit id;
+ * hits without a session (git commits) have no thread. Each session is read
+ * once however many hits it has.
+ */
+export async function expandThreads(hits: TimelineRecord[], context: number): Promise<Map<string, Thread>> {
+  const { getSessionEvents } = await import("./timeline-db.js");
+  const threads = new Map<string, Thread>();
+  const sessions = new Map<string, { events: TimelineRecord[]; commits: ThreadCommit[] }>();
+
+  for (const hit of hits) {
+    if (!hit.session_id) continue;
+    const key = `${hit.project}\0${hit.session_id}`;
+    let session = sessions.get(key);
+    if (!session) {
+      try {
+        const events = await getSessionEvents(hit.project, hit.session_id);
+        session = { events, commits: await linkSessionCommits(hit.project, events) };
+      } catch {
+        continue;
+      }
+      sessions.set(key, session);
+    }
+    threads.set(hit.id, { sessionId: hit.session_id, ...windowAround(session.events, hit, context), commits: session.commits });
+  }
+  return threads;
+}
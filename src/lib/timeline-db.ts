@@ -1,17 +1,19 @@
 import * as lancedb from "@lancedb/lancedb";
 import { randomUUID } from "node:crypto";
-import { readFile, writeFile, mkdir, stat } from "node:fs/promises";
+import { readFile, writeFile, mkdir, stat, unlink } from "node:fs/promises";
 import { createHash } from "node:crypto";
 import { homedir } from "node:os";
 import { join, basename, resolve } from "node:path";
 import { createEmbeddingProvider, type EmbeddingProvider, type EmbeddingConfig } from "./embeddings.js";
-import type { ProjectMeta, ProjectRegistry, SearchScope } from "../types.js";
+import type { ProjectMeta, ProjectEmbedding, ProjectRegistry, SearchScope } from "../types.js";
+import type { SessionCursor } from "./session-parser.js";
 
 // --- Types ---
 
 export const EVENT_TYPES = [
   "prompt", "assistant", "correction", "commit",
-  "tool_call", "compaction", "sub_agent_spawn", "error",
+  "tool_call", "tool_result", "compaction", "sub_agent_spawn", "error",
+  "session_summary",
 ] as const;
 
 export type EventType = (typeof EVENT_TYPES)[number];
@@ -55,8 +57,12 @@ export interface ProjectInfo {
 }
 
 export interface TimelineConfig {
-  embedding_provider: "local" | "openai";
-  embedding_model: string;
+  /**
+   * Embedding settings from before `.preflight/config.yml` `embeddings:`. Still
+   * honoured (by config.ts) for projects whose config.yml has no such block.
+   */
+  embedding_provider?: "local" | "openai";
+  embedding_model?: string;
   openai_api_key?: string;
   indexed_projects: Record<string, {
     last_session_index: string;
@@ -89,14 +95,14 @@ function getProjectPaths(projectDir: string) {
     projectDir: projectBase,
     dbPath: join(projectBase, "timeline.lance"),
     metaPath: join(projectBase, "meta.json"),
+    ingestPath: join(projectBase, "ingest.json"),
+    lockPath: join(projectBase, "ingest.lock"),
   };
 }
 
 // --- Config ---
 
 const DEFAULT_CONFIG: TimelineConfig = {
-  embedding_provider: "local",
-  embedding_model: "Xenova/all-MiniLM-L6-v2",
   indexed_projects: {},
 };
 
@@ -162,6 +168,100 @@ export async function saveProjectMeta(projectDir: string, meta: ProjectMeta): Pr
   await writeFile(metaPath, JSON.stringify(meta, null, 2));
 }
 
+// --- Ingestion Ledger ---
+
+/**
+ * What has been ingested for a project: how far into each session file
+ * (byte offset and line, as a resume cursor) and how far into git history.
+ * Onboarding reads only what lies past these; event ids are derived from
+ * source_file + source_line, so anything read twice overwrites itself.
+ */
+export interface IngestLedger {
+  files: Record<string, { size: number; mtime: string; cursor: SessionCursor }>;
+  git?: GitScope & {
+    /** Every ref's commit when git was last indexed (see gitRefTips). */
+    tips?: string[];
+    /** Older ledgers: just the newest commit indexed. */
+    last_commit?: string;
+    indexed_at: string;
+  };
+}
+
+/** Which commits onboarding chose to index; the watcher keeps to the same. */
+export interface GitScope {
+  /** Author name substrings (case-insensitive); all authors when absent. */
+  authors?: string[];
+  /** ISO date of the oldest commit to index. */
+  since?: string;
+}
+
+/** Commits whose history is already indexed. */
+export function indexedGitTips(ledger: IngestLedger): string[] {
+  if (!ledger.git) return [];
+  return ledger.git.tips ?? (ledger.git.last_commit ? [ledger.git.last_commit] : []);
+}
+
+export async function loadIngestLedger(projectDir: string): Promise<IngestLedger> {
+  const { ingestPath } = getProjectPaths(projectDir);
+  try {
+    const raw = await readFile(ingestPath, "utf-8");
+    return { files: {}, ...JSON.parse(raw) };
+  } catch {
+    return { files: {} };
+  }
+}
+
+export async function saveIngestLedger(projectDir: string, ledger: IngestLedger): Promise<void> {
+  const { projectDir: projectBase, ingestPath } = getProjectPaths(projectDir);
+  await mkdir(projectBase, { recursive: true });
+  await writeFile(ingestPath, JSON.stringify(ledger));
+}
+
+const LOCK_POLL_MS = 250;
+
+function errorCode(err: unknown): string | undefined {
+  return err instanceof Error && "code" in err && typeof err.code === "string" ? err.code : undefined;
+}
+
+function processAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (err) {
+    return errorCode(err) === "EPERM";
+  }
+}
+
+/**
+ * Take the project's ingestion lock, waiting while another ingester (this
+ * process or another: onboarding, the server's watcher, `preflight-dev
+ * watch`) holds it. Two concurrent upserts of the same new ids would both
+ * insert. A lock left by a dead process is taken over. Resolves to a release
+ * function, or null if `signal` aborted the wait.
+ */
+export async function acquireIngestLock(
+  projectDir: string,
+  signal?: AbortSignal,
+): Promise<(() => Promise<void>) | null> {
+  const { projectDir: projectBase, lockPath } = getProjectPaths(projectDir);
+  await mkdir(projectBase, { recursive: true });
+  while (!signal?.aborted) {
+    try {
+      await writeFile(lockPath, String(process.pid), { flag: "wx" });
+      return () => unlink(lockPath).catch(() => {});
+    } catch (err) {
+      if (errorCode(err) !== "EEXIST") throw err;
+    }
+    const holder = Number(await readFile(lockPath, "utf-8").catch(() => ""));
+    if (holder > 0 && !processAlive(holder)) {
+      await unlink(lockPath).catch(() => {});
+      continue;
+    }
+    await new Promise((r) => setTimeout(r, LOCK_POLL_MS));
+  }
+  return null;
+}
+
 // --- Database Manager ---
 
 const _connections = new Map<string, lancedb.Connection>();
@@ -180,24 +280,33 @@ export async function getDb(projectDir: string): Promise<lancedb.Connection> {
   return _connections.get(absoluteDir)!;
 }
 
-async function getEmbedder(): Promise<EmbeddingProvider> {
+/**
+ * The provider search queries are embedded with (`.preflight/config.yml`
+ * `embeddings:`); onboarding and background indexing use it too so vectors match.
+ */
+export async function getEmbedder(): Promise<EmbeddingProvider> {
   if (!_embedder) {
-    const config = await loadConfig();
-    _embedder = createEmbeddingProvider({
-      provider: config.embedding_provider,
-      apiKey: config.openai_api_key,
-    });
+    const { getConfig } = await import("./config.js");
+    _embedder = createEmbeddingProvider(getConfig().embeddings);
   }
   return _embedder;
 }
 
-export async function getEventsTable(projectDir: string): Promise<lancedb.Table> {
+/** Table holding a fresh project's events; reembed_project moves projects to a table per model. */
+export const DEFAULT_EVENTS_TABLE = "events";
+
+/**
+ * The project's live events table, created if missing with `embedder`'s
+ * (default: the configured provider's) vector size.
+ */
+export async function getEventsTable(projectDir: string, embedder?: EmbeddingProvider): Promise<lancedb.Table> {
   const db = await getDb(projectDir);
+  const name = (await loadProjectMeta(projectDir))?.events_table ?? DEFAULT_EVENTS_TABLE;
   try {
-    return await db.openTable("events");
+    return await db.openTable(name);
   } catch {
     // Create with a seed record then delete it — LanceDB needs data to infer schema
-    const embedder = await getEmbedder();
+    embedder ??= await getEmbedder();
     const zeroVector = new Array(embedder.dimensions).fill(0);
     const seed = [{
       id: "__seed__",
@@ -214,15 +323,95 @@ export async function getEventsTable(projectDir: string): Promise<lancedb.Table>
       vector: zeroVector,
       metadata: "{}",
     }];
-    const table = await db.createTable("events", seed);
+    const table = await db.createTable(name, seed);
     await table.delete('id = "__seed__"');
     return table;
   }
 }
 
+/** Drop the project's live events table, so the next write recreates it at the configured vector size. */
+export async function dropEventsTable(projectDir: string): Promise<void> {
+  const db = await getDb(projectDir);
+  const name = (await loadProjectMeta(projectDir))?.events_table ?? DEFAULT_EVENTS_TABLE;
+  if ((await db.tableNames()).includes(name)) await db.dropTable(name);
+}
+
+// --- Embedding Model ---
+
+export function embeddingOf(embedder: EmbeddingProvider): ProjectEmbedding {
+  return { provider: embedder.provider, model: embedder.model, dimensions: embedder.dimensions };
+}
+
+/** "local:Xenova/all-MiniLM-L6-v2 (384 dims)", or "an unrecorded model (384 dims)" for older projects */
+export function describeEmbedding(embedding: Partial<ProjectEmbedding> & { dimensions: number }): string {
+  const model = embedding.model ? `${embedding.provider}:${embedding.model}` : "an unrecorded model";
+  return `${model} (${embedding.dimensions} dims)`;
+}
+
+/** Vector size of a table, from its schema. */
+export async function vectorDimensions(table: lancedb.Table): Promise<number | null> {
+  const field = (await table.schema()).fields.find((f) => f.name === "vector");
+  const size = (field?.type as { listSize?: unknown } | undefined)?.listSize;
+  return typeof size === "number" ? size : null;
+}
+
+/**
+ * What a project's vectors were made with: meta.json's record or, for
+ * projects indexed before it was kept, the table's vector size alone.
+ * Null when nothing is stored.
+ */
+export async function getProjectEmbedding(
+  projectDir: string,
+): Promise<(Partial<ProjectEmbedding> & { dimensions: number }) | null> {
+  const meta = await loadProjectMeta(projectDir);
+  if (!meta) return null;
+  if (meta.embedding) return meta.embedding;
+  try {
+    const db = await getDb(projectDir);
+    const dimensions = await vectorDimensions(await db.openTable(meta.events_table ?? DEFAULT_EVENTS_TABLE));
+    return dimensions ? { dimensions } : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Why vectors from `embedder` can't be compared with the project's stored
+ * ones, or null if they can. A different vector size can't be searched at
+ * all; a different model of the same size would return nonsense.
+ */
+export async function embeddingMismatch(projectDir: string, embedder: EmbeddingProvider): Promise<string | null> {
+  const stored = await getProjectEmbedding(projectDir);
+  if (!stored) return null;
+  const current = embeddingOf(embedder);
+  const sameModel = !stored.model || (stored.provider === current.provider && stored.model === current.model);
+  if (stored.dimensions === current.dimensions && sameModel) return null;
+  return `${basename(projectDir)} is indexed with ${describeEmbedding(stored)} but embeddings are configured as ${describeEmbedding(current)}. ` +
+    `Run reembed_project to re-vectorize it with the configured model, or restore the previous embeddings: settings in .preflight/config.yml.`;
+}
+
+/** Refuse to mix vectors: one error naming every project `embedder` doesn't match. */
+export async function assertEmbeddingCompatible(projectDirs: string[], embedder: EmbeddingProvider): Promise<void> {
+  const problems: string[] = [];
+  for (const projectDir of projectDirs) {
+    const mismatch = await embeddingMismatch(projectDir, embedder);
+    if (mismatch) problems.push(mismatch);
+  }
+  if (problems.length > 0) throw new Error(problems.join("\n"));
+}
+
 // --- Core Operations ---
 
-export async function insertEvents(events: TimelineEvent[], projectDir?: string): Promise<void> {
+/**
+ * Upsert events, embedding any without a `vector` with `embedder` (default:
+ * the configured provider) — which must be what produced the vectors passed
+ * in. Refuses to write into a project indexed with a different model.
+ */
+export async function insertEvents(
+  events: TimelineEvent[],
+  projectDir?: string,
+  embedder?: EmbeddingProvider,
+): Promise<void> {
   if (events.length === 0) return;
 
   // Group events by project if no specific projectDir provided
@@ -238,13 +427,18 @@ export async function insertEvents(events: TimelineEvent[], projectDir?: string)
     eventsByProject.get(targetProject)!.push({ ...event, project: targetProject });
   }
 
-  const embedder = await getEmbedder();
+  const provider = embedder ?? await getEmbedder();
 
   for (const [proj, projEvents] of eventsByProject) {
-    const table = await getEventsTable(proj);
+    const mismatch = await embeddingMismatch(proj, provider);
+    if (mismatch) throw new Error(mismatch);
+    const table = await getEventsTable(proj, provider);
     
-    const contents = projEvents.map((e) => e.content);
-    const vectors = await embedder.embedBatch(contents);
+    // Callers that embedded in their own batches (onboarding) pass vectors along
+    const missing = projEvents.filter((e) => !e.vector);
+    const embedded = missing.length > 0 ? await provider.embedBatch(missing.map((e) => e.content)) : [];
+    let next = 0;
+    const vectors = projEvents.map((e) => e.vector ?? embedded[next++]);
 
     const records = projEvents.map((e, i) => ({
       id: e.id || randomUUID(),
@@ -262,7 +456,12 @@ export async function insertEvents(events: TimelineEvent[], projectDir?: string)
       metadata: e.metadata || "{}",
     }));
 
-    await table.add(records);
+    // Upsert on id: re-ingesting a transcript line or commit replaces its row
+    await table
+      .mergeInsert("id")
+      .whenMatchedUpdateAll()
+      .whenNotMatchedInsertAll()
+      .execute(records);
 
     // Update project metadata
     await registerProject(proj);
@@ -271,7 +470,8 @@ export async function insertEvents(events: TimelineEvent[], projectDir?: string)
       onboarded_at: new Date().toISOString(),
       event_count: 0,
     };
-    meta.event_count += records.length;
+    meta.event_count = await table.countRows();
+    meta.embedding ??= embeddingOf(provider);
     await saveProjectMeta(proj, meta);
 
     // Update legacy config for backward compatibility
@@ -283,20 +483,29 @@ export async function insertEvents(events: TimelineEvent[], projectDir?: string)
         event_count: meta.event_count,
       };
     } else {
-      config.indexed_projects[proj].event_count += records.length;
+      config.indexed_projects[proj].event_count = meta.event_count;
     }
     await saveConfig(config);
   }
 }
 
-function buildWhereFilter(opts: SearchOptions): string | undefined {
+function buildWhereFilter(opts: SearchOptions): string {
   const clauses: string[] = [];
   if (opts.project) clauses.push(`project = '${opts.project}'`);
   if (opts.branch) clauses.push(`branch = '${opts.branch}'`);
-  if (opts.type) clauses.push(`type = '${opts.type}'`);
+  // One record per session rather than an event; only returned when asked for by type
+  clauses.push(opts.type ? `type = '${opts.type}'` : `type != 'session_summary'`);
   if (opts.since) clauses.push(`timestamp >= '${opts.since}'`);
   if (opts.until) clauses.push(`timestamp <= '${opts.until}'`);
-  return clauses.length > 0 ? clauses.join(" AND ") : undefined;
+  return clauses.join(" AND ");
+}
+
+/** project_dirs, else the single project, else the current project, else every indexed project. */
+async function resolveSearchProjects(opts: SearchOptions): Promise<string[]> {
+  if (opts.project_dirs && opts.project_dirs.length > 0) return opts.project_dirs;
+  if (opts.project) return [opts.project];
+  if (process.env.CLAUDE_PROJECT_DIR) return [process.env.CLAUDE_PROJECT_DIR];
+  return Object.keys(await loadProjectRegistry());
 }
 
 /** Search across multiple projects and merge results by score */
@@ -305,25 +514,11 @@ export async function searchSemantic(
   opts: SearchOptions = {},
 ): Promise<TimelineRecord[]> {
   const embedder = await getEmbedder();
+  const projectsToSearch = await resolveSearchProjects(opts);
+  await assertEmbeddingCompatible(projectsToSearch, embedder);
   const queryVector = await embedder.embed(query);
   const limit = opts.limit || 20;
 
-  // Determine which projects to search
-  let projectsToSearch = opts.project_dirs || [];
-  if (projectsToSearch.length === 0 && opts.project) {
-    projectsToSearch = [opts.project];
-  }
-  if (projectsToSearch.length === 0) {
-    // Default to current project if available
-    if (process.env.CLAUDE_PROJECT_DIR) {
-      projectsToSearch = [process.env.CLAUDE_PROJECT_DIR];
-    } else {
-      // Fall back to all indexed projects
-      const registry = await loadProjectRegistry();
-      projectsToSearch = Object.keys(registry);
-    }
-  }
-
   const allResults: Array<TimelineRecord & { _score: number }> = [];
 
   // Search each project
@@ -362,19 +557,7 @@ export async function searchExact(
   const where = buildWhereFilter(opts);
   const fullWhere = where ? `${likeClauses[0]} AND ${where}` : likeClauses[0];
 
-  // Determine which projects to search
-  let projectsToSearch = opts.project_dirs || [];
-  if (projectsToSearch.length === 0 && opts.project) {
-    projectsToSearch = [opts.project];
-  }
-  if (projectsToSearch.length === 0) {
-    if (process.env.CLAUDE_PROJECT_DIR) {
-      projectsToSearch = [process.env.CLAUDE_PROJECT_DIR];
-    } else {
-      const registry = await loadProjectRegistry();
-      projectsToSearch = Object.keys(registry);
-    }
-  }
+  const projectsToSearch = await resolveSearchProjects(opts);
 
   const allResults: TimelineRecord[] = [];
 
@@ -391,26 +574,205 @@ export async function searchExact(
   return allResults.slice(0, limit);
 }
 
-export async function getTimeline(
-  opts: SearchOptions = {},
+// --- Sessions ---
+
+/** Columns for reading events back without their vectors. */
+export const EVENT_COLUMNS = [
+  "id", "timestamp", "type", "project", "project_name", "branch", "session_id",
+  "source_file", "source_line", "content", "content_preview", "metadata",
+];
+
+/** Chronological, with events from one transcript line kept in file order. */
+function compareEvents(a: TimelineRecord, b: TimelineRecord): number {
+  return a.timestamp.localeCompare(b.timestamp) || a.source_line - b.source_line;
+}
+
+/** Every stored event of one session (optionally only some types), oldest first, without vectors. */
+export async function getSessionEvents(
+  projectDir: string,
+  sessionId: string,
+  types?: EventType[],
 ): Promise<TimelineRecord[]> {
-  const limit = opts.limit || 100;
+  const table = await getEventsTable(projectDir);
+  const clauses = [`session_id = '${sessionId.replace(/'/g, "''")}'`];
+  clauses.push(types ? `type IN (${types.map((t) => `'${t}'`).join(", ")})` : `type != 'session_summary'`);
+  const rows = await table.query().where(clauses.join(" AND ")).select(EVENT_COLUMNS).toArray();
+  return (rows as unknown as TimelineRecord[]).sort(compareEvents);
+}
+
+/**
+ * Stored git commits whose hash starts with one of `hashes`, or without
+ * hashes, those dated between `since` and `until`. Oldest first.
+ */
+export async function getCommitEvents(
+  projectDir: string,
+  opts: { hashes?: string[]; since?: string; until?: string; limit?: number },
+): Promise<TimelineRecord[]> {
+  const table = await getEventsTable(projectDir);
+  const clauses = [`type = 'commit'`];
+  if (opts.hashes) {
+    const valid = opts.hashes.filter((h) => /^[0-9a-f]{4,40}$/i.test(h));
+    if (valid.length === 0) return [];
+    clauses.push(`(${valid.map((h) => `source_file LIKE 'git:${h.toLowerCase()}%'`).join(" OR ")})`);
+  }
+  if (opts.since) clauses.push(`timestamp >= '${opts.since}'`);
+  if (opts.until) clauses.push(`timestamp <= '${opts.until}'`);
+  let q = table.query().where(clauses.join(" AND ")).select(EVENT_COLUMNS);
+  if (opts.limit) q = q.limit(opts.limit);
+  return ((await q.toArray()) as unknown as TimelineRecord[]).sort(compareEvents);
+}
+
+// --- Hybrid Search ---
+
+/** Reciprocal rank fusion constant; 60 is the usual choice and damps the top ranks' dominance. */
+const RRF_K = 60;
+
+/** Which signals found a hybrid result, and where each ranked it (1-based). */
+export interface HybridMatch {
+  vector?: { rank: number; similarity: number };
+  keyword?: { rank: number; bm25: number };
+}
+
+export interface HybridResult extends TimelineRecord {
+  /** Fused RRF score: the sum of 1 / (RRF_K + rank) over the signals that matched. */
+  _score: number;
+  _match: HybridMatch;
+}
+
+/** A row from `table.search()`: the stored event plus LanceDB's per-signal score column. */
+export type SearchRow = TimelineRecord & { _distance?: number; _score?: number };
+
+/** The stored event of a search row, without the raw columns that would shadow the fused score. */
+function eventOf({ _distance, _score, ...event }: SearchRow): TimelineRecord {
+  return event;
+}
+
+/**
+ * Fuse one project's vector and keyword rankings (each best first) with
+ * reciprocal rank fusion. Each result records which signal matched it and at
+ * what rank; a row found by both sums both contributions.
+ */
+export function fuseRankings(vectorRows: SearchRow[], keywordRows: SearchRow[]): HybridResult[] {
+  const fused = new Map<string, HybridResult>();
+  const add = (row: SearchRow, rank: number, match: HybridMatch) => {
+    const hit = fused.get(row.id) ?? { ...eventOf(row), _score: 0, _match: {} };
+    hit._score += 1 / (RRF_K + rank);
+    Object.assign(hit._match, match);
+    fused.set(row.id, hit);
+  };
+  vectorRows.forEach((row, i) => {
+    add(row, i + 1, { vector: { rank: i + 1, similarity: 1 - (row._distance || 0) } });
+  });
+  keywordRows.forEach((row, i) => {
+    add(row, i + 1, { keyword: { rank: i + 1, bm25: row._score ?? 0 } });
+  });
+  return [...fused.values()];
+}
+
+async function hasFtsIndex(table: lancedb.Table): Promise<boolean> {
+  const indices = await table.listIndices();
+  return indices.some((i) => i.indexType === "FTS" && i.columns.includes("content"));
+}
+
+/**
+ * Full-text (BM25) index on `content`, built when events are first ingested.
+ * The default tokenizer splits on punctuation and lowercases, so
+ * `getDiffFiles` and `P2002` are single terms. Rows added later are searched
+ * without the index until the table is optimized.
+ */
+export async function ensureFtsIndex(projectDir: string): Promise<void> {
+  const table = await getEventsTable(projectDir);
+  if (await hasFtsIndex(table)) return;
+  await table.createIndex("content", { config: lancedb.Index.fts() });
+}
+
+/** Compact small write batches and fold new rows into the indices. Call after ingesting. */
+export async function optimizeEventsTable(projectDir: string): Promise<void> {
+  await ensureFtsIndex(projectDir);
+  const table = await getEventsTable(projectDir);
+  await table.optimize();
+}
+
+/**
+ * Vector and BM25 full-text search over each project, fused with reciprocal
+ * rank fusion. Each result records which signal matched it and at what rank.
+ * Identifiers and error codes that embed poorly are carried by the keyword
+ * side; paraphrases by the vector side. Either side failing (no embedder, no
+ * index) leaves the other's ranking. A project indexed with a different
+ * embedding model than the configured one is an error, as in searchSemantic.
+ */
+export async function searchHybrid(
+  query: string,
+  opts: SearchOptions = {},
+): Promise<HybridResult[]> {
+  const limit = opts.limit || 20;
+  // Each side over-fetches so something ranked moderately by both can surface
+  const depth = limit * 3;
   const where = buildWhereFilter(opts);
+  const projectsToSearch = await resolveSearchProjects(opts);
 
-  // Determine which projects to search
-  let projectsToSearch = opts.project_dirs || [];
-  if (projectsToSearch.length === 0 && opts.project) {
-    projectsToSearch = [opts.project];
+  let queryVector: number[] | null = null;
+  let embedder: EmbeddingProvider | null = null;
+  try {
+    embedder = await getEmbedder();
+  } catch (error) {
+    process.stderr.write(`preflight: hybrid search without vectors — ${error}\n`);
   }
-  if (projectsToSearch.length === 0) {
-    if (process.env.CLAUDE_PROJECT_DIR) {
-      projectsToSearch = [process.env.CLAUDE_PROJECT_DIR];
-    } else {
-      const registry = await loadProjectRegistry();
-      projectsToSearch = Object.keys(registry);
+  // A switched model isn't a degraded search: its vectors can't be compared with the stored ones
+  if (embedder) await assertEmbeddingCompatible(projectsToSearch, embedder);
+  try {
+    if (embedder) queryVector = await embedder.embed(query);
+  } catch (error) {
+    process.stderr.write(`preflight: hybrid search without vectors — ${error}\n`);
+  }
+
+  const allResults: HybridResult[] = [];
+
+  for (const projectDir of projectsToSearch) {
+    let table: lancedb.Table;
+    try {
+      table = await getEventsTable(projectDir);
+    } catch {
+      continue;
+    }
+    let vectorRows: SearchRow[] = [];
+    let keywordRows: SearchRow[] = [];
+
+    if (queryVector) {
+      try {
+        let search = table.search(queryVector).limit(depth);
+        if (where) search = search.where(where);
+        vectorRows = await search.toArray();
+      } catch {
+        // fall through to keyword results
+      }
     }
+
+    try {
+      // Ingestion builds the index; a project without one has no keyword side
+      if (!(await hasFtsIndex(table))) throw new Error("no full-text index");
+      let search = table.search(query, "fts", "content").limit(depth);
+      if (where) search = search.where(where);
+      keywordRows = await search.toArray();
+    } catch {
+      // no full-text index (or an unparseable query); vector results stand alone
+    }
+
+    allResults.push(...fuseRankings(vectorRows, keywordRows));
   }
 
+  allResults.sort((a, b) => b._score - a._score);
+  return allResults.slice(0, limit);
+}
+
+export async function getTimeline(
+  opts: SearchOptions = {},
+): Promise<TimelineRecord[]> {
+  const limit = opts.limit || 100;
+  const where = buildWhereFilter(opts);
+
+  const projectsToSearch = await resolveSearchProjects(opts);
+
   const allResults: TimelineRecord[] = [];
 
   for (const projectDir of projectsToSearch) {
@@ -0,0 +1,233 @@
+// =============================================================================
+// Triage Regression Corpus
+// =============================================================================
+// Labelled prompts live in .preflight/triage-cases/*.yml as a list of
+// { prompt, expect, note? } entries. Running the corpus through triagePrompt
+// produces a confusion matrix so triage.yml tweaks can be checked for
+// regressions before they ship.
+// =============================================================================
+
+import { existsSync, readdirSync, readFileSync, writeFileSync, mkdirSync } from "fs";
+import { join, extname } from "path";
+import { load as yamlLoad, dump as yamlDump } from "js-yaml";
+import { triagePrompt, type TriageConfig, type TriageLevel } from "./triage.js";
+import { TRIAGE_LEVELS } from "./triage-rules.js";
+
+// --- Types ---
+
+export interface TriageCase {
+  prompt: string;
+  expect: TriageLevel;
+  note?: string;
+  /** Corpus file the case was loaded from (relative to triage-cases/). */
+  file?: string;
+}
+
+export interface TriageMiss {
+  case: TriageCase;
+  predicted: TriageLevel;
+  reasons: string[];
+}
+
+export interface TriageReport {
+  total: number;
+  correct: number;
+  accuracy: number;
+  /** matrix[expected][predicted] = count */
+  matrix: Record<TriageLevel, Record<TriageLevel, number>>;
+  misses: TriageMiss[];
+}
+
+export const TRIAGE_CASES_DIR = join(".preflight", "triage-cases");
+const SEED_FILE = "seeded-from-timeline.yml";
+
+// --- Loading ---
+
+/** Validate a parsed corpus file: a list of { prompt, expect, note? }. Bad entries go to `errors`. */
+function parseTriageCases(items: unknown, entry: string, errors: string[]): TriageCase[] {
+  if (!Array.isArray(items)) {
+    errors.push(`${entry}: expected a list of { prompt, expect } entries`);
+    return [];
+  }
+  const cases: TriageCase[] = [];
+  items.forEach((item: Partial<Record<keyof TriageCase, unknown>> | null, idx: number) => {
+    if (!item || typeof item.prompt !== "string" || !TRIAGE_LEVELS.includes(item.expect as TriageLevel)) {
+      errors.push(`${entry} #${idx + 1}: needs a string prompt and expect: ${TRIAGE_LEVELS.join(" | ")}`);
+      return;
+    }
+    cases.push({
+      prompt: item.prompt,
+      expect: item.expect as TriageLevel,
+      ...(typeof item.note === "string" ? { note: item.note } : {}),
+      file: entry,
+    });
+  });
+  return cases;
+}
+
+/** Load every labelled case from <projectDir>/.preflight/triage-cases/. */
+export function loadTriageCases(projectDir: string): { cases: TriageCase[]; errors: string[] } {
+  const dir = join(projectDir, TRIAGE_CASES_DIR);
+  const cases: TriageCase[] = [];
+  const errors: string[] = [];
+  if (!existsSync(dir)) return { cases, errors };
+
+  let entries: string[];
+  try { entries = readdirSync(dir).sort(); } catch { return { cases, errors }; }
+
+  for (const entry of entries) {
+    if (![".yml", ".yaml"].includes(extname(entry))) continue;
+    try {
+      cases.push(...parseTriageCases(yamlLoad(readFileSync(join(dir, entry), "utf-8")), entry, errors));
+    } catch (err) {
+      errors.push(`${entry}: ${err}`);
+    }
+  }
+
+  return { cases, errors };
+}
+
+// --- Evaluation ---
+
+function emptyMatrix(): Record<TriageLevel, Record<TriageLevel, number>> {
+  const matrix = {} as Record<TriageLevel, Record<TriageLevel, number>>;
+  for (const expected of TRIAGE_LEVELS) {
+    matrix[expected] = {} as Record<TriageLevel, number>;
+    for (const predicted of TRIAGE_LEVELS) matrix[expected][predicted] = 0;
+  }
+  return matrix;
+}
+
+/** Run every case through triagePrompt and tally the results. */
+export function evaluateTriageCases(cases: TriageCase[], config: TriageConfig): TriageReport {
+  const matrix = emptyMatrix();
+  const misses: TriageMiss[] = [];
+  let correct = 0;
+
+  for (const c of cases) {
+    const result = triagePrompt(c.prompt, config);
+    matrix[c.expect][result.level]++;
+    if (result.level === c.expect) {
+      correct++;
+    } else {
+      misses.push({ case: c, predicted: result.level, reasons: result.reasons });
+    }
+  }
+
+  return {
+    total: cases.length,
+    correct,
+    accuracy: cases.length > 0 ? correct / cases.length : 0,
+    matrix,
+    misses,
+  };
+}
+
+/** Render a report as markdown: summary, confusion matrix, misclassified prompts. */
+export function formatTriageReport(report: TriageReport, maxMisses = 50): string {
+  const pct = (report.accuracy * 100).toFixed(1);
+  const lines = [
+    `## Triage Accuracy: ${report.correct}/${report.total} (${pct}%)`,
+    "",
+    "### Confusion Matrix (rows = expected, columns = predicted)",
+    "",
+    `| expected \\ predicted | ${TRIAGE_LEVELS.join(" | ")} | recall |`,
+    `|---|${TRIAGE_LEVELS.map(() => "---:").join("|")}|---:|`,
+  ];
+
+  for (const expected of TRIAGE_LEVELS) {
+    const row = report.matrix[expected];
+    const rowTotal = TRIAGE_LEVELS.reduce((s, l) => s + row[l], 0);
+    const recall = rowTotal > 0 ? `${Math.round((row[expected] / rowTotal) * 100)}%` : "—";
+    const cells = TRIAGE_LEVELS.map(l => (l === expected ? `**${row[l]}**` : String(row[l])));
+    lines.push(`| ${expected} | ${cells.join(" | ")} | ${recall} |`);
+  }
+
+  if (report.misses.length > 0) {
+    lines.push("", `### Misclassified (${report.misses.length})`);
+    for (const m of report.misses.slice(0, maxMisses)) {
+      const src = m.case.file ? ` _(${m.case.file})_` : "";
+      lines.push(`- "${m.case.prompt.slice(0, 150)}"${src} — expected \`${m.case.expect}\`, got \`${m.predicted}\``);
+      lines.push(`  - ${m.reasons.join("; ")}`);
+    }
+    if (report.misses.length > maxMisses) {
+      lines.push(`- …and ${report.misses.length - maxMisses} more`);
+    }
+  }
+
+  return lines.join("\n");
+}
+
+// --- Hindsight Labels ---
+
+/**
+ * Prompts from the timeline that the user corrected next in the same
+ * session, labelled `ambiguous`. A correction is the only outcome that
+ * labels a prompt independently of triage; prompts that went uncorrected
+ * are left out rather than labelled with triage's own prediction, which
+ * would only measure triage against itself.
+ */
+export async function collectHindsightCases(
+  projectDir: string,
+  opts: { limit?: number; exclude?: Set<string> } = {},
+): Promise<TriageCase[]> {
+  const limit = opts.limit ?? 200;
+  // Loaded lazily so running the corpus doesn't pull in LanceDB + embeddings
+  const { getTimeline, getSessionEvents } = await import("./timeline-db.js");
+  const corrections = await getTimeline({ project_dirs: [projectDir], type: "correction", limit: 5000 });
+
+  const seen = new Set(opts.exclude ?? []);
+  const cases: TriageCase[] = [];
+
+  // Only sessions with a correction can hold a corrected prompt
+  for (const sessionId of new Set(corrections.map(c => c.session_id))) {
+    if (cases.length >= limit) break;
+    const events = await getSessionEvents(projectDir, sessionId, ["prompt", "correction"]);
+    for (let i = 0; i + 1 < events.length && cases.length < limit; i++) {
+      const e = events[i];
+      const next = events[i + 1];
+      if (e.type !== "prompt" || next.type !== "correction") continue;
+      const prompt = e.content.trim();
+      // Skip empty, huge (pasted logs) and already-labelled prompts
+      if (!prompt || prompt.length > 1000 || seen.has(prompt)) continue;
+      seen.add(prompt);
+      cases.push({
+        prompt,
+        expect: "ambiguous",
+        note: `seeded ${e.timestamp.slice(0, 10)} — followed by correction: "${next.content.slice(0, 80)}"`,
+      });
+    }
+  }
+
+  return cases;
+}
+
+// --- Seeding ---
+
+/** Append corrected prompts to the corpus as `ambiguous` cases for human review. */
+export async function seedTriageCases(
+  projectDir: string,
+  opts: { limit?: number } = {},
+): Promise<{ path: string; added: number }> {
+  const dir = join(projectDir, TRIAGE_CASES_DIR);
+  const path = join(dir, SEED_FILE);
+  // Rewriting the file would drop entries that don't parse; make the user fix them first
+  const errors: string[] = [];
+  const previous = existsSync(path) ? parseTriageCases(yamlLoad(readFileSync(path, "utf-8")) ?? [], SEED_FILE, errors) : [];
+  if (errors.length > 0) {
+    throw new Error(`${SEED_FILE} has invalid entries — fix them before seeding again:\n${errors.join("\n")}`);
+  }
+
+  const { cases: existing } = loadTriageCases(projectDir);
+  const seeded = await collectHindsightCases(projectDir, {
+    limit: opts.limit,
+    exclude: new Set(existing.map(c => c.prompt.trim())),
+  });
+
+  mkdirSync(dir, { recursive: true });
+  const header = "# Seeded from timeline prompts that were followed by a correction. Review the labels before trusting them.\n";
+  const entries = [...previous, ...seeded].map(({ file, ...c }) => c);
+  writeFileSync(path, header + yamlDump(entries, { lineWidth: 120 }));
+
+  return { path, added: seeded.length };
+}
@@ -0,0 +1,377 @@
+/**
+ * Learned triage classifier — k-nearest-neighbours over prompt embeddings.
+ *
+ * Training data is only what has a label independent of triage: the corpus
+ * (.preflight/triage-cases/) and timeline prompts that were followed by a
+ * correction (ambiguous). The model replaces only the built-in heuristic
+ * chain: user classifiers and skip/always_check keywords still win, and an
+ * untrained or unsure model falls back to the rules.
+ *
+ * Confidence is the similarity-weighted share of the k neighbours that voted
+ * for the winning level, so it reflects actual agreement in past data.
+ * Training also measures the heuristic chain's precision per level on the
+ * same labelled prompts; that becomes the heuristic's confidence, so model
+ * and rules are compared on the same footing. Accuracy is reported on a
+ * held-out split the model didn't see.
+ */
+
+import { createHash } from "crypto";
+import { loadState, saveState } from "./state.js";
+import { getConfig } from "./config.js";
+import { triagePrompt, type TriageConfig, type TriageLevel, type TriageResult } from "./triage.js";
+import { LEVEL_TOOLS, TRIAGE_LEVELS } from "./triage-rules.js";
+import { loadTriageCases, collectHindsightCases, type TriageCase } from "./triage-corpus.js";
+import type { EmbeddingProvider } from "./embeddings.js";
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+interface TriageModelExample {
+  prompt: string;
+  label: TriageLevel;
+  /** int8-quantized, base64 (see packVector) — cosine similarity ignores the scale. */
+  vector: string;
+}
+
+export interface TriageModel {
+  trained_at: string;
+  /** "provider:model" the examples were embedded with. */
+  provider: string;
+  dimensions: number;
+  k: number;
+  examples: TriageModelExample[];
+  label_counts: Partial<Record<TriageLevel, number>>;
+  /**
+   * Accuracy on held-out labelled prompts, of a model trained without them,
+   * next to the heuristic chain's accuracy on the same prompts. Null when
+   * too few prompts could be held out to say.
+   */
+  holdout: { size: number; accuracy: number; rule_accuracy: number } | null;
+  /** Share of labelled prompts the heuristic chain put at a level that had that label. */
+  rule_precision: Partial<Record<TriageLevel, number>>;
+}
+
+interface Neighbour {
+  prompt: string;
+  label: TriageLevel;
+  vector: ArrayLike<number>;
+}
+
+export interface TriagePrediction {
+  level: TriageLevel;
+  confidence: number;
+  /** Similarity-weighted vote share per level (sums to 1). */
+  votes: Partial<Record<TriageLevel, number>>;
+  neighbours: Array<{ prompt: string; label: TriageLevel; similarity: number }>;
+}
+
+// ── Constants ──────────────────────────────────────────────────────────────
+
+const STATE_NAME = "triage-model";
+/** The state file is read on every hook call; this keeps it to a few hundred KB. */
+const MAX_EXAMPLES = 500;
+/** Below this many examples the model is too sparse to trust. */
+const MIN_EXAMPLES = 20;
+/**
+ * A label needs this many examples to count, and at least MIN_LABELS labels
+ * must: a single-class model votes that class at full confidence on every prompt.
+ */
+const MIN_LABEL_EXAMPLES = 5;
+const MIN_LABELS = 2;
+/** Share of labelled prompts held out to measure accuracy. */
+const HOLDOUT_SHARE = 0.2;
+const MIN_HOLDOUT = 5;
+/** A heuristic level needs this many labelled predictions before its precision counts. */
+const MIN_RULE_SUPPORT = 5;
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+let _model: TriageModel | null | undefined;
+let _neighbours: Neighbour[] = [];
+let _embedder: EmbeddingProvider | null = null;
+
+async function getEmbedder(): Promise<EmbeddingProvider> {
+  if (!_embedder) {
+    // Imported lazily: nothing loads transformers until a model exists
+    const { createEmbeddingProvider } = await import("./embeddings.js");
+    _embedder = createEmbeddingProvider(getConfig().embeddings);
+  }
+  return _embedder;
+}
+
+/** Scale to int8 and base64-encode: a quarter of float32, and far less than JSON numbers. */
+function packVector(vector: number[]): string {
+  const max = Math.max(...vector.map(Math.abs)) || 1;
+  return Buffer.from(Int8Array.from(vector, (v) => Math.round((v / max) * 127)).buffer).toString("base64");
+}
+
+function unpackVector(packed: string): Int8Array {
+  const bytes = Buffer.from(packed, "base64");
+  return new Int8Array(bytes.buffer, bytes.byteOffset, bytes.length);
+}
+
+function cosine(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  let dot = 0, na = 0, nb = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    na += a[i] * a[i];
+    nb += b[i] * b[i];
+  }
+  return na === 0 || nb === 0 ? 0 : dot / Math.sqrt(na * nb);
+}
+
+function vote(
+  vector: ArrayLike<number>,
+  examples: Neighbour[],
+  k: number,
+): TriagePrediction {
+  const scored: Array<{ idx: number; similarity: number }> = [];
+  for (let i = 0; i < examples.length; i++) {
+    scored.push({ idx: i, similarity: cosine(vector, examples[i].vector) });
+  }
+  scored.sort((a, b) => b.similarity - a.similarity);
+  const top = scored.slice(0, k);
+
+  const votes: Partial<Record<TriageLevel, number>> = {};
+  let total = 0;
+  for (const n of top) {
+    const w = Math.max(n.similarity, 0);
+    const label = examples[n.idx].label;
+    votes[label] = (votes[label] ?? 0) + w;
+    total += w;
+  }
+
+  let level: TriageLevel = "clear";
+  let best = -1;
+  for (const l of TRIAGE_LEVELS) {
+    if (votes[l] === undefined) continue;
+    votes[l] = total > 0 ? votes[l]! / total : 0;
+    if (votes[l]! > best) {
+      best = votes[l]!;
+      level = l;
+    }
+  }
+
+  return {
+    level,
+    confidence: Math.max(best, 0),
+    votes,
+    neighbours: top.map(n => ({
+      prompt: examples[n.idx].prompt,
+      label: examples[n.idx].label,
+      similarity: n.similarity,
+    })),
+  };
+}
+
+function countLabels(labels: TriageLevel[]): Partial<Record<TriageLevel, number>> {
+  const counts: Partial<Record<TriageLevel, number>> = {};
+  for (const l of labels) counts[l] = (counts[l] ?? 0) + 1;
+  return counts;
+}
+
+/** Why these label counts can't train a useful model, or null if they can. */
+function labelShortfall(counts: Partial<Record<TriageLevel, number>>): string | null {
+  const usable = TRIAGE_LEVELS.filter((l) => (counts[l] ?? 0) >= MIN_LABEL_EXAMPLES);
+  if (usable.length >= MIN_LABELS) return null;
+  const found = TRIAGE_LEVELS.filter((l) => counts[l]).map((l) => `${l} ${counts[l]}`).join(", ") || "none";
+  return `need at least ${MIN_LABEL_EXAMPLES} labelled prompts for each of ${MIN_LABELS} levels, found ${found}`;
+}
+
+// ── Public API ─────────────────────────────────────────────────────────────
+
+/** Held-out iff the prompt's hash falls in the first HOLDOUT_SHARE — stable across retrains. */
+function isHeldOut(prompt: string): boolean {
+  return createHash("sha256").update(prompt).digest().readUInt32BE(0) / 0x1_0000_0000 < HOLDOUT_SHARE;
+}
+
+/** Heuristic-chain precision per predicted level, over levels with enough predictions. */
+function measureRulePrecision(cases: TriageCase[], config: TriageConfig): Partial<Record<TriageLevel, number>> {
+  const predicted: Partial<Record<TriageLevel, number>> = {};
+  const correct: Partial<Record<TriageLevel, number>> = {};
+  for (const c of cases) {
+    const result = triagePrompt(c.prompt, config);
+    if (result.source !== "heuristic") continue;
+    predicted[result.level] = (predicted[result.level] ?? 0) + 1;
+    if (result.level === c.expect) correct[result.level] = (correct[result.level] ?? 0) + 1;
+  }
+  const precision: Partial<Record<TriageLevel, number>> = {};
+  for (const level of TRIAGE_LEVELS) {
+    const n = predicted[level] ?? 0;
+    if (n >= MIN_RULE_SUPPORT) precision[level] = (correct[level] ?? 0) / n;
+  }
+  return precision;
+}
+
+/**
+ * Load the trained model from state, or null if none has been trained (or it
+ * predates the current format, or was trained on too few labels — retrain).
+ */
+export function loadTriageModel(): TriageModel | null {
+  if (_model === undefined) {
+    const state = loadState(STATE_NAME);
+    const valid = Array.isArray(state.examples) && state.examples.length > 0 && typeof state.examples[0].vector === "string" &&
+      labelShortfall(countLabels(state.examples.map((e: TriageModelExample) => e.label))) === null;
+    _model = valid ? (state as TriageModel) : null;
+    _neighbours = _model ? _model.examples.map((e) => ({ ...e, vector: unpackVector(e.vector) })) : [];
+  }
+  return _model;
+}
+
+/** Predict a level for an already-embedded prompt with the loaded model. */
+export function predictTriageLevel(vector: number[], k?: number): TriagePrediction | null {
+  const model = loadTriageModel();
+  return model ? vote(vector, _neighbours, k ?? model.k) : null;
+}
+
+/**
+ * Build a training set from the labelled corpus plus corrected timeline
+ * prompts, embed it, and persist the model. Corpus labels take precedence
+ * over hindsight labels for the same prompt.
+ */
+export async function trainTriageModel(
+  projectDir: string,
+  config: TriageConfig,
+  opts: { k?: number } = {},
+): Promise<TriageModel> {
+  const k = opts.k ?? getConfig().triage.model.k;
+  const { cases: corpus } = loadTriageCases(projectDir);
+
+  let hindsight: TriageCase[] = [];
+  try {
+    hindsight = await collectHindsightCases(projectDir, {
+      limit: MAX_EXAMPLES,
+      exclude: new Set(corpus.map(c => c.prompt.trim())),
+    });
+  } catch {
+    // No timeline yet — train on the corpus alone
+  }
+
+  const cases = [...corpus, ...hindsight].slice(0, MAX_EXAMPLES);
+  if (cases.length < MIN_EXAMPLES) {
+    throw new Error(
+      `need at least ${MIN_EXAMPLES} labelled prompts to train, found ${cases.length}. ` +
+      `Add cases to .preflight/triage-cases/, or onboard_project so corrected prompts can be used.`,
+    );
+  }
+  const label_counts = countLabels(cases.map(c => c.expect));
+  const shortfall = labelShortfall(label_counts);
+  if (shortfall) {
+    throw new Error(
+      `${shortfall}. Corrected timeline prompts are all labelled ambiguous; ` +
+      `add cases for other levels to .preflight/triage-cases/.`,
+    );
+  }
+
+  const embedder = await getEmbedder();
+  const vectors = await embedder.embedBatch(cases.map(c => c.prompt));
+  const examples: TriageModelExample[] = cases.map((c, i) => ({
+    prompt: c.prompt.slice(0, 200),
+    label: c.expect,
+    vector: packVector(vectors[i]),
+  }));
+
+  // Accuracy of a model that never saw the held-out prompts, and the rules' on the same ones
+  const train: Neighbour[] = [];
+  const heldOut: number[] = [];
+  cases.forEach((c, i) => {
+    if (isHeldOut(c.prompt)) heldOut.push(i);
+    else train.push({ prompt: c.prompt, label: c.expect, vector: vectors[i] });
+  });
+  let holdout: TriageModel["holdout"] = null;
+  if (heldOut.length >= MIN_HOLDOUT && train.length >= k) {
+    let hits = 0;
+    let ruleHits = 0;
+    for (const i of heldOut) {
+      if (vote(vectors[i], train, k).level === cases[i].expect) hits++;
+      if (triagePrompt(cases[i].prompt, config).level === cases[i].expect) ruleHits++;
+    }
+    holdout = { size: heldOut.length, accuracy: hits / heldOut.length, rule_accuracy: ruleHits / heldOut.length };
+  }
+
+  const model: TriageModel = {
+    trained_at: new Date().toISOString(),
+    provider: `${embedder.provider}:${embedder.model}`,
+    dimensions: embedder.dimensions,
+    k,
+    examples,
+    label_counts,
+    holdout,
+    rule_precision: measureRulePrecision(cases, config),
+  };
+
+  saveState(STATE_NAME, model);
+  _model = undefined;
+  loadTriageModel();
+  return model;
+}
+
+/**
+ * Triage with the learned model when one is trained and confident; otherwise
+ * return the rule chain's result unchanged.
+ */
+export async function triagePromptWithModel(
+  prompt: string,
+  config: TriageConfig,
+): Promise<TriageResult> {
+  const base = triagePrompt(prompt, config);
+  const settings = getConfig().triage.model;
+  if (!settings.enabled || getConfig().profile === "minimal") return base;
+  if (base.source !== "heuristic") return base;
+
+  const model = loadTriageModel();
+  if (!model) return base;
+  const rulePrecision = model.rule_precision[base.level];
+  if (rulePrecision !== undefined) base.confidence = rulePrecision;
+  // Repo evidence ("auth" matches 3 modules) beats similarity to past prompts
+  if (base.ambiguous_targets) return base;
+
+  let embedder: EmbeddingProvider;
+  let vector: number[];
+  try {
+    embedder = await getEmbedder();
+    vector = await embedder.embed(prompt);
+  } catch {
+    return base;
+  }
+  // Same-size vectors from another model live in a different space
+  const provider = `${embedder.provider}:${embedder.model}`;
+  if (provider !== model.provider) {
+    base.reasons.push(`learned model skipped: trained with ${model.provider}, current provider is ${provider} — retrain`);
+    return base;
+  }
+  if (vector.length !== model.dimensions) {
+    base.reasons.push(`learned model skipped: trained with ${model.dimensions}-dim embeddings, current provider gives ${vector.length}`);
+    return base;
+  }
+
+  const pred = predictTriageLevel(vector, settings.k)!;
+  const voteSummary = Object.entries(pred.votes)
+    .sort((a, b) => b[1] - a[1])
+    .map(([l, share]) => `${l} ${share.toFixed(2)}`)
+    .join(", ");
+
+  if (pred.confidence < settings.min_confidence) {
+    base.reasons.push(`learned model unsure (${voteSummary}) — using rules`);
+    return base;
+  }
+  if (base.level !== pred.level && rulePrecision !== undefined && rulePrecision >= pred.confidence) {
+    base.reasons.push(`learned model says ${pred.level} (${voteSummary}), but the rules are right ${Math.round(rulePrecision * 100)}% of the time at ${base.level} — using rules`);
+    return base;
+  }
+
+  const closest = pred.neighbours[0];
+  const reasons = [
+    `learned model: ${pred.neighbours.length} nearest past prompts vote ${voteSummary}`,
+    `closest: "${closest.prompt.slice(0, 80)}" → ${closest.label} (similarity ${closest.similarity.toFixed(2)})`,
+  ];
+  if (base.level !== pred.level) reasons.push(`rules would say ${base.level}: ${base.reasons.join("; ")}`);
+
+  return {
+    level: pred.level,
+    confidence: pred.confidence,
+    reasons,
+    recommended_tools: [...LEVEL_TOOLS[pred.level]],
+    ...(pred.level === "cross-service" && base.cross_service_hits ? { cross_service_hits: base.cross_service_hits } : {}),
+    source: "model",
+  };
+}
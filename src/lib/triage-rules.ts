@@ -0,0 +1,299 @@
+/**
+ * Declarative triage rules ("classifiers") loaded from .preflight/triage.yml.
+ *
+ * Each rule pairs regex / file-glob conditions with an explicit target
+ * TriageLevel. Rules are evaluated in priority order (highest first) before
+ * the built-in heuristic chain in triage.ts; the first rule that matches wins.
+ *
+ * Pure functions, no I/O — config.ts compiles the specs, triage.ts evaluates.
+ *
+ * Example (triage.yml):
+ *   classifiers:
+ *     - name: payouts-write
+ *       level: cross-service
+ *       priority: 100
+ *       confidence: 0.95
+ *       match:
+ *         all: ["\\bpayouts?\\b"]
+ *         none: ["\\bread\\b"]
+ *       reason: payouts writes touch the ledger service
+ *       examples:
+ *         - prompt: "change the payouts schedule"
+ *           expect: cross-service
+ */
+
+import type { TriageLevel } from "./triage.js";
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+export const TRIAGE_LEVELS: readonly TriageLevel[] = [
+  "trivial", "clear", "ambiguous", "cross-service", "multi-step",
+];
+
+/** Sample prompt with the level the full triage pipeline should produce. */
+export interface TriageRuleExample {
+  prompt: string;
+  expect: TriageLevel;
+}
+
+/** Raw rule as written in triage.yml. */
+export interface TriageRuleSpec {
+  name: string;
+  level: TriageLevel;
+  priority?: number;
+  /** Confidence reported when the rule matches, 0–1. Default: DEFAULT_RULE_CONFIDENCE. */
+  confidence?: number;
+  /** Each field takes a list, or a single string for a one-item list. */
+  match?: {
+    /** Every regex must match. */
+    all?: string | string[];
+    /** At least one regex must match. */
+    any?: string | string[];
+    /** No regex may match. */
+    none?: string | string[];
+    /** At least one file path referenced in the prompt must match a glob. */
+    files?: string | string[];
+  };
+  reason?: string;
+  recommended_tools?: string[];
+  examples?: TriageRuleExample[];
+}
+
+/** Compiled, ready-to-evaluate rule. */
+export interface TriageRule {
+  name: string;
+  level: TriageLevel;
+  priority: number;
+  confidence: number;
+  all: RegExp[];
+  any: RegExp[];
+  none: RegExp[];
+  files: RegExp[];
+  fileGlobs: string[];
+  reason?: string;
+  recommended_tools: string[];
+  examples: TriageRuleExample[];
+}
+
+export interface TriageRuleMatch {
+  rule: TriageRule;
+  /** Human-readable description of each condition that held. */
+  evidence: string[];
+}
+
+// ── Constants ──────────────────────────────────────────────────────────────
+
+/** Tools recommended for each level when a rule doesn't name its own. */
+export const LEVEL_TOOLS: Record<TriageLevel, string[]> = {
+  trivial: [],
+  clear: [],
+  ambiguous: ["clarify-intent", "scope-work"],
+  "cross-service": ["clarify-intent", "scope-work", "search-related-projects"],
+  "multi-step": ["clarify-intent", "scope-work", "sequence-tasks"],
+};
+
+/** Confidence of a rule match when the rule doesn't set one. */
+export const DEFAULT_RULE_CONFIDENCE = 0.9;
+
+const FILE_REF_RE = /[\w\-./\\]+\.\w{1,6}/g;
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+/** Convert a file glob (`*`, `**`, `?`) to an anchored RegExp. */
+export function globToRegExp(glob: string): RegExp {
+  let re = "";
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    if (c === "*") {
+      if (glob[i + 1] === "*") {
+        // `**/` matches zero or more directories; bare `**` matches anything
+        if (glob[i + 2] === "/") {
+          re += "(?:.*/)?";
+          i += 2;
+        } else {
+          re += ".*";
+          i += 1;
+        }
+      } else {
+        re += "[^/]*";
+      }
+    } else if (c === "?") {
+      re += "[^/]";
+    } else {
+      re += c.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${re}$`);
+}
+
+/**
+ * A `match` field as a list of strings. YAML authors write `all: "\\bfoo\\b"`
+ * for a single pattern; iterating that string would compile one regex per
+ * character, so it becomes a one-item list. Anything else is an error.
+ */
+function listField(
+  value: unknown,
+  ruleName: string,
+  field: string,
+  errors: string[],
+): string[] {
+  if (value === undefined || value === null) return [];
+  if (typeof value === "string") return [value];
+  if (Array.isArray(value) && value.every((v) => typeof v === "string")) return value;
+  errors.push(`rule "${ruleName}": match.${field} must be a string or a list of strings`);
+  return [];
+}
+
+function compileRegexes(
+  sources: string[],
+  ruleName: string,
+  field: string,
+  errors: string[],
+): RegExp[] {
+  const out: RegExp[] = [];
+  for (const src of sources) {
+    try {
+      out.push(new RegExp(String(src), "i"));
+    } catch (e) {
+      errors.push(`rule "${ruleName}": invalid ${field} regex /${src}/ — ${(e as Error).message}`);
+    }
+  }
+  return out;
+}
+
+function extractFileRefs(prompt: string): string[] {
+  return [...new Set(prompt.match(FILE_REF_RE) ?? [])].map((f) =>
+    f.replace(/\\/g, "/").replace(/^\.\//, ""),
+  );
+}
+
+// ── Public API ─────────────────────────────────────────────────────────────
+
+/**
+ * Validate and compile rule specs. Invalid rules are dropped and invalid
+ * examples skipped, each reported in `errors` rather than thrown, so one typo
+ * doesn't disable triage entirely.
+ */
+export function compileTriageRules(
+  specs: TriageRuleSpec[],
+): { rules: TriageRule[]; errors: string[] } {
+  const rules: TriageRule[] = [];
+  const errors: string[] = [];
+
+  specs.forEach((spec, idx) => {
+    const name = spec?.name ? String(spec.name) : `#${idx + 1}`;
+    if (!spec || typeof spec !== "object") {
+      errors.push(`rule ${name}: not an object`);
+      return;
+    }
+    if (!TRIAGE_LEVELS.includes(spec.level)) {
+      errors.push(`rule "${name}": level must be one of ${TRIAGE_LEVELS.join(", ")} (got "${spec.level}")`);
+      return;
+    }
+
+    const ruleErrors: string[] = [];
+    const exampleErrors: string[] = [];
+    const match = spec.match ?? {};
+    const confidence = spec.confidence ?? DEFAULT_RULE_CONFIDENCE;
+    if (typeof confidence !== "number" || !(confidence >= 0 && confidence <= 1)) {
+      ruleErrors.push(`rule "${name}": confidence must be a number from 0 to 1 (got ${JSON.stringify(spec.confidence)})`);
+    }
+    const fileGlobs = listField(match.files, name, "files", ruleErrors);
+    const rule: TriageRule = {
+      name,
+      level: spec.level,
+      priority: Number.isFinite(Number(spec.priority)) ? Number(spec.priority) : 0,
+      confidence,
+      all: compileRegexes(listField(match.all, name, "all", ruleErrors), name, "all", ruleErrors),
+      any: compileRegexes(listField(match.any, name, "any", ruleErrors), name, "any", ruleErrors),
+      none: compileRegexes(listField(match.none, name, "none", ruleErrors), name, "none", ruleErrors),
+      files: fileGlobs.map(globToRegExp),
+      fileGlobs,
+      reason: spec.reason,
+      recommended_tools: spec.recommended_tools ?? LEVEL_TOOLS[spec.level],
+      examples: (spec.examples ?? []).filter((ex, i) => {
+        if (ex && typeof ex.prompt === "string" && TRIAGE_LEVELS.includes(ex.expect)) return true;
+        exampleErrors.push(
+          `rule "${name}": example #${i + 1} skipped — needs a prompt string and expect one of ${TRIAGE_LEVELS.join(", ")} (got ${JSON.stringify(ex)})`,
+        );
+        return false;
+      }),
+    };
+
+    if (ruleErrors.length > 0) {
+      errors.push(...ruleErrors);
+      return;
+    }
+    errors.push(...exampleErrors);
+    if (rule.all.length + rule.any.length + rule.files.length === 0) {
+      errors.push(`rule "${name}": needs at least one of match.all, match.any or match.files`);
+      return;
+    }
+    rules.push(rule);
+  });
+
+  // Stable sort: equal priorities keep file order
+  rules.sort((a, b) => b.priority - a.priority);
+  return { rules, errors };
+}
+
+/** Test a single rule against a prompt. Returns evidence if it matches. */
+export function matchTriageRule(prompt: string, rule: TriageRule): TriageRuleMatch | null {
+  const evidence: string[] = [];
+
+  for (const re of rule.all) {
+    const m = prompt.match(re);
+    if (!m) return null;
+    evidence.push(`/${re.source}/ matched "${m[0]}"`);
+  }
+
+  if (rule.any.length > 0) {
+    const hit = rule.any.map((re) => ({ re, m: prompt.match(re) })).find((h) => h.m);
+    if (!hit) return null;
+    evidence.push(`/${hit.re.source}/ matched "${hit.m![0]}"`);
+  }
+
+  for (const re of rule.none) {
+    if (re.test(prompt)) return null;
+  }
+  if (rule.none.length > 0) {
+    evidence.push(`no match for ${rule.none.map((re) => `/${re.source}/`).join(", ")}`);
+  }
+
+  if (rule.files.length > 0) {
+    const refs = extractFileRefs(prompt);
+    let hit: { file: string; glob: string } | undefined;
+    for (const file of refs) {
+      const i = rule.files.findIndex((re) => re.test(file));
+      if (i !== -1) {
+        hit = { file, glob: rule.fileGlobs[i] };
+        break;
+      }
+    }
+    if (!hit) return null;
+    evidence.push(`file \`${hit.file}\` matches ${hit.glob}`);
+  }
+
+  return { rule, evidence };
+}
+
+/** Evaluate rules in priority order and return the first match. */
+export function evaluateTriageRules(
+  prompt: string,
+  rules: TriageRule[],
+): TriageRuleMatch | null {
+  for (const rule of rules) {
+    const match = matchTriageRule(prompt, rule);
+    if (match) return match;
+  }
+  return null;
+}
+
+/** Render a rule match as TriageResult reasons. */
+export function describeRuleMatch(match: TriageRuleMatch): string[] {
+  const { rule, evidence } = match;
+  const reasons = [`matched triage rule "${rule.name}" (priority ${rule.priority}) → ${rule.level}`];
+  if (rule.reason) reasons.push(rule.reason);
+  reasons.push(...evidence);
+  return reasons;
+}
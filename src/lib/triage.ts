@@ -8,10 +8,16 @@
  *   "commit"                                                → trivial
  *   "fix the null check in src/auth/jwt.ts line 42"         → clear
  *   "fix the auth bug"                                      → ambiguous
+ *   "fix the authentication" (3 auth modules in the repo)   → ambiguous
  *   "add tiered rewards" (with rewards-api related)         → cross-service
  *   "refactor auth to OAuth2 and update all API consumers"  → multi-step
+ *
+ * User-defined classifiers (see triage-rules.ts) run first and can force
+ * any level; the built-in heuristic chain only applies when none match.
  */
 
+import { evaluateTriageRules, describeRuleMatch, type TriageRule } from './triage-rules.js';
+
 // ── Types ──────────────────────────────────────────────────────────────────
 
 export type TriageLevel =
@@ -23,10 +29,31 @@ export type TriageLevel =
 
 export interface TriageResult {
   level: TriageLevel;
-  confidence: number;        // 0–1
+  /**
+   * 0–1, only where something configured or measured it: a classifier's
+   * `confidence`, the learned model's vote share, or — once train_triage_model
+   * has run — the heuristic's precision for this level on labelled prompts.
+   */
+  confidence?: number;
   reasons: string[];
   recommended_tools: string[];
   cross_service_hits?: string[];
+  /** Prompt nouns that match several places in the codebase. */
+  ambiguous_targets?: AmbiguousTarget[];
+  /** What produced the level: a user classifier, a skip/always_check keyword, the built-in chain, or the learned model. */
+  source?: 'classifier' | 'keyword' | 'heuristic' | 'model';
+}
+
+/** A noun from the prompt and the distinct places in the repo it could mean. */
+export interface AmbiguousTarget {
+  term: string;
+  candidates: string[];
+}
+
+/** Looks up where a prompt noun could live in the codebase (see codebase-index.ts). */
+export interface TargetResolver {
+  /** Distinct candidate files, directories or symbols for a term. */
+  resolve(term: string): string[];
 }
 
 export interface TriageConfig {
@@ -37,6 +64,10 @@ export interface TriageConfig {
   relatedAliases?: string[];
   /** Number of matched correction patterns — boosts level to at least ambiguous. */
   patternMatchCount?: number;
+  /** Compiled user-defined classifiers, evaluated before the built-in chain. */
+  rules?: TriageRule[];
+  /** Resolves prompt nouns against the repo. Without it, vague-verb checks fall back to word length. */
+  resolver?: TargetResolver;
 }
 
 // ── Constants ──────────────────────────────────────────────────────────────
@@ -50,6 +81,21 @@ const VAGUE_PRONOUNS = /\b(it|them|the thing|those|these)\b/i;
 
 const VAGUE_VERBS = ['fix', 'update', 'change'];
 
+/** Words that never name a code target on their own. */
+const NON_TARGET_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'from', 'into', 'that', 'this', 'these', 'those',
+  'there', 'here', 'what', 'which', 'when', 'where', 'why', 'how', 'also', 'just',
+  'all', 'any', 'some', 'every', 'new', 'old', 'now', 'please', 'can', 'you',
+  'should', 'would', 'could', 'make', 'sure', 'need', 'want', 'like', 'not',
+  'fix', 'update', 'change', 'add', 'remove', 'delete', 'create', 'refactor',
+  'rename', 'move', 'implement', 'improve', 'clean', 'check', 'look', 'use',
+  'bug', 'bugs', 'issue', 'issues', 'error', 'errors', 'problem', 'problems',
+  'code', 'file', 'files', 'function', 'functions', 'thing', 'things', 'stuff',
+  'way', 'work', 'working', 'broken', 'test', 'tests', 'again', 'instead',
+]);
+
+const MAX_RESOLVED_NOUNS = 6;
+
 const CROSS_SERVICE_TERMS = [
   'schema', 'contract', 'interface', 'event',
 ];
@@ -84,16 +130,56 @@ function hasVaguePronouns(prompt: string): boolean {
   return VAGUE_PRONOUNS.test(prompt);
 }
 
-/** Returns true when a vague verb appears without a concrete target after it. */
-function hasVagueVerbs(prompt: string): boolean {
-  const words = lower(prompt).split(/\s+/);
+/** Candidate target nouns: identifier-like words that aren't filler or verbs. */
+export function extractNouns(prompt: string): string[] {
+  const withoutPaths = prompt.replace(/[\w\-./\\]+\.\w{1,6}/g, ' ');
+  const words = withoutPaths.match(/[A-Za-z_][A-Za-z0-9_]{2,}/g) ?? [];
+  const nouns = words.filter((w) => !NON_TARGET_WORDS.has(w.toLowerCase()));
+  return [...new Set(nouns)].slice(0, MAX_RESOLVED_NOUNS);
+}
+
+/**
+ * Split nouns into ones that name exactly one place and ones that could mean
+ * several. One noun that pins down a target is enough to act on ("the session
+ * middleware in AuthService"), so nouns only count as ambiguous when none is.
+ */
+function resolveTargets(
+  prompt: string,
+  resolver: TargetResolver,
+): { resolved: Set<string>; ambiguous: AmbiguousTarget[] } {
+  const resolved = new Set<string>();
+  const ambiguous: AmbiguousTarget[] = [];
+  const nouns = extractNouns(prompt);
+  for (const term of nouns) {
+    let candidates = resolver.resolve(term);
+    if (candidates.length > 1) {
+      // Other nouns can narrow it down: "session middleware" → the one session file under middleware/
+      const others = nouns.filter((n) => n !== term).map(lower);
+      const narrowed = candidates.filter((c) => others.some((o) => lower(c).includes(o)));
+      if (narrowed.length > 0) candidates = narrowed;
+    }
+    if (candidates.length === 1) resolved.add(lower(term));
+    else if (candidates.length > 1) ambiguous.push({ term, candidates });
+  }
+  return { resolved, ambiguous: resolved.size > 0 ? [] : ambiguous };
+}
+
+/**
+ * Returns true when a vague verb appears without a concrete target after it.
+ * A target is concrete when it looks like a path or identifier, or — when
+ * the repo is known — resolves to exactly one place in it.
+ */
+function hasVagueVerbs(prompt: string, resolved?: Set<string>): boolean {
+  const words = prompt.trim().split(/\s+/).map((w) => w.replace(/^[^\w.]+|[^\w]+$/g, ''));
+  const lowered = words.map(lower);
   return VAGUE_VERBS.some((verb) => {
-    const idx = words.indexOf(verb);
+    const idx = lowered.indexOf(verb);
     if (idx === -1) return false;
     // Look at the next few words for something concrete
     const tail = words.slice(idx + 1, idx + 4);
     const hasTarget = tail.some(
-      (w) => /\.\w+/.test(w) || w.length > 6 || /[A-Z]/.test(w),
+      (w) => /\.\w+/.test(w) || /[A-Z]/.test(w) || /_/.test(w) ||
+        (resolved ? resolved.has(lower(w)) : w.length > 6),
     );
     return !hasTarget;
   });
@@ -153,6 +239,11 @@ function isMultiStep(prompt: string): boolean {
 
 // ── Main ───────────────────────────────────────────────────────────────────
 
+/** " (confidence 0.85)" for results that carry one, "" otherwise. */
+export function formatConfidence(result: TriageResult): string {
+  return result.confidence === undefined ? '' : ` (confidence ${result.confidence.toFixed(2)})`;
+}
+
 export function triagePrompt(
   prompt: string,
   config?: TriageConfig,
@@ -162,14 +253,28 @@ export function triagePrompt(
   const reasons: string[] = [];
   const tools: string[] = [];
 
+  // 0. User-defined classifiers — explicit levels win over heuristics
+  const ruleMatch = evaluateTriageRules(prompt, cfg.rules ?? []);
+  if (ruleMatch) {
+    const { rule } = ruleMatch;
+    return {
+      level: rule.level,
+      confidence: rule.confidence,
+      reasons: describeRuleMatch(ruleMatch),
+      recommended_tools: [...rule.recommended_tools],
+      source: 'classifier',
+      ...(rule.level === 'cross-service' ? { cross_service_hits: [`rule: ${rule.name}`] } : {}),
+    };
+  }
+
   // 1. Skip keywords → trivial immediately
   for (const kw of cfg.skip ?? []) {
     if (lower(prompt).includes(lower(kw))) {
       return {
         level: 'trivial',
-        confidence: 0.95,
         reasons: [`matches skip keyword: "${kw}"`],
         recommended_tools: [],
+        source: 'keyword',
       };
     }
   }
@@ -178,7 +283,7 @@ export function triagePrompt(
   if (isMultiStep(prompt)) {
     reasons.push('contains multi-step indicators');
     tools.push('clarify-intent', 'scope-work', 'sequence-tasks');
-    return { level: 'multi-step', confidence: 0.85, reasons, recommended_tools: tools };
+    return { level: 'multi-step', reasons, recommended_tools: tools, source: 'heuristic' };
   }
 
   // 3. Cross-service
@@ -188,10 +293,10 @@ export function triagePrompt(
     tools.push('clarify-intent', 'scope-work', 'search-related-projects');
     return {
       level: 'cross-service',
-      confidence: 0.8,
       reasons,
       recommended_tools: tools,
       cross_service_hits: csHits,
+      source: 'heuristic',
     };
   }
 
@@ -200,7 +305,7 @@ export function triagePrompt(
     if (lower(prompt).includes(lower(kw))) {
       reasons.push(`matches always_check keyword: "${kw}"`);
       tools.push('clarify-intent', 'scope-work');
-      return { level: 'ambiguous', confidence: 0.8, reasons, recommended_tools: tools };
+      return { level: 'ambiguous', reasons, recommended_tools: tools, source: 'keyword' };
     }
   }
 
@@ -208,9 +313,9 @@ export function triagePrompt(
   if (len < 20 && isTrivialCommand(prompt)) {
     return {
       level: 'trivial',
-      confidence: 0.9,
       reasons: ['short common command'],
       recommended_tools: [],
+      source: 'heuristic',
     };
   }
 
@@ -225,17 +330,27 @@ export function triagePrompt(
   if (hasVaguePronouns(prompt) && !promptHasFileRefs) {
     ambiguousReasons.push('contains vague pronouns');
   }
+  // Resolve nouns against the repo — "auth" matching 3 modules needs a choice
+  const targets = cfg.resolver && !promptHasFileRefs
+    ? resolveTargets(prompt, cfg.resolver)
+    : undefined;
+  for (const t of targets?.ambiguous ?? []) {
+    const shown = t.candidates.slice(0, 5).join(', ');
+    const more = t.candidates.length > 5 ? ` (+${t.candidates.length - 5} more)` : '';
+    ambiguousReasons.push(`"${t.term}" matches ${t.candidates.length} places: ${shown}${more}`);
+  }
   // Only flag vague verbs if there are no concrete file/line references
-  if (hasVagueVerbs(prompt) && !promptHasFileRefs && !promptHasLineNumbers) {
+  if (hasVagueVerbs(prompt, targets?.resolved) && !promptHasFileRefs && !promptHasLineNumbers) {
     ambiguousReasons.push('contains vague verbs without specific targets');
   }
 
   if (ambiguousReasons.length > 0) {
     return {
       level: 'ambiguous',
-      confidence: 0.7,
       reasons: ambiguousReasons,
       recommended_tools: ['clarify-intent', 'scope-work'],
+      ...(targets && targets.ambiguous.length > 0 ? { ambiguous_targets: targets.ambiguous } : {}),
+      source: 'heuristic',
     };
   }
 
@@ -254,8 +369,8 @@ export function triagePrompt(
 
   return {
     level: 'clear',
-    confidence: cfg.strictness === 'strict' ? 0.8 : 0.85,
     reasons,
     recommended_tools: clearTools,
+    source: 'heuristic',
   };
 }
@@ -0,0 +1,350 @@
+/**
+ * watcher.ts — Keep a project's timeline index live.
+ *
+ * Watches the project's Claude Code session directory and its .git refs.
+ * Bursts of changes are debounced into one pass through ingestProject, which
+ * reads only what the ingestion ledger hasn't seen — lines appended to a
+ * transcript, commits made since the last one indexed — so a pass costs
+ * about as much as what was written since the previous one. fs.watch misses
+ * some changes (new sub-agent directories, network filesystems), so a slow
+ * poll runs the same pass as a backstop when a session file's size or mtime
+ * moved. After an embedding-model switch nothing can be stored, so the
+ * watcher reports that once and stops. Compacting the table is left to at
+ * most one pass every few minutes, and rebuilding a session's summary (which
+ * re-reads all its events) to once every few minutes per session. The turn a live session is in is left
+ * unindexed until the next prompt arrives or the transcript goes quiet, so
+ * its prompt is labelled with the reply and follow-up in view.
+ */
+import { watch, statSync, type FSWatcher } from "fs";
+import { join, resolve, basename } from "path";
+import { sessionDirFor } from "./project-paths.js";
+import { findSessionFiles } from "./session-parser.js";
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+export interface WatcherOptions {
+  /** Quiet period after the last change before indexing. */
+  debounceMs?: number;
+  /** Longest a steady stream of changes (an active session) can hold indexing back. */
+  maxWaitMs?: number;
+  /** Backstop rescan interval. */
+  pollMs?: number;
+  /** Hold the process open while watching (the CLI); the MCP server lives on stdio anyway. */
+  keepAlive?: boolean;
+  /** Called after each pass that stored something. */
+  onIngest?: (pass: WatchPass) => void;
+  onError?: (err: unknown) => void;
+}
+
+export interface WatchPass {
+  events: number;
+  byType: Record<string, number>;
+  /** Session files that had new lines. */
+  files: number;
+  /** Session files whose open last turn waits for the next prompt or for the file to settle. */
+  held: number;
+  durationMs: number;
+}
+
+export interface Watcher {
+  /** Index pending changes now instead of waiting out the debounce. */
+  flush(): Promise<void>;
+  /** Close all watches, wait for an in-flight pass to finish its current batch and bring deferred summaries up to date. */
+  stop(): Promise<void>;
+}
+
+// ── Constants ──────────────────────────────────────────────────────────────
+
+const DEFAULT_DEBOUNCE_MS = 2000;
+const DEFAULT_MAX_WAIT_MS = 10_000;
+const DEFAULT_POLL_MS = 30_000;
+/** Least time between compactions of the events table; rows written meanwhile are searchable by vector only. */
+const OPTIMIZE_INTERVAL_MS = 10 * 60_000;
+/** Least time between rebuilds of one session's summary while it is being written. */
+const SUMMARY_INTERVAL_MS = 5 * 60_000;
+/** Quiet time after which a transcript's open last turn is indexed without waiting for the next prompt. */
+const OPEN_TURN_SETTLE_MS = 5 * 60_000;
+/** Top-level .git files that move when commits land outside refs/ (checkout, packed refs, fetch). */
+const GIT_TOP_LEVEL = new Set(["HEAD", "ORIG_HEAD", "FETCH_HEAD", "packed-refs"]);
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+function isDir(path: string): boolean {
+  try {
+    return statSync(path).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+/** Recursive where the platform supports it (Node 20+ on Linux), else just the directory. */
+function watchDir(dir: string, persistent: boolean, onChange: (file: string) => void): FSWatcher | null {
+  const listener = (_event: string, file: string | Buffer | null) => onChange(file ? String(file) : "");
+  try {
+    return watch(dir, { recursive: true, persistent }, listener);
+  } catch {
+    try {
+      return watch(dir, { persistent }, listener);
+    } catch {
+      return null;
+    }
+  }
+}
+
+/** Size and mtime of every session file; the poll only runs a pass when this moves. */
+function sessionSnapshot(sessionDir: string | null): string {
+  if (!sessionDir) return "";
+  return findSessionFiles(sessionDir)
+    .map((f) => {
+      try {
+        const s = statSync(f.path);
+        return `${f.path}\t${s.size}\t${s.mtimeMs}`;
+      } catch {
+        return "";
+      }
+    })
+    .sort()
+    .join("\n");
+}
+
+/** Rows stored since the events table was last compacted, and when that was. */
+interface OptimizeState {
+  pending: number;
+  at: number;
+}
+
+/** Sessions whose summaries are out of date, and when each was last rebuilt. */
+interface SummaryState {
+  stale: Set<string>;
+  at: Map<string, number>;
+}
+
+function summariesDue(summaries: SummaryState): string[] {
+  const now = Date.now();
+  return [...summaries.stale].filter((id) => now - (summaries.at.get(id) ?? 0) >= SUMMARY_INTERVAL_MS);
+}
+
+/** Rebuild the summaries of `ids` and mark them fresh; a failure leaves them stale for the next try. */
+async function refreshSummaries(projectDir: string, summaries: SummaryState, ids: string[]): Promise<void> {
+  if (ids.length === 0) return;
+  const { getEmbedder } = await import("./timeline-db.js");
+  const { refreshSessionSummaries } = await import("./session-summary.js");
+  await refreshSessionSummaries(projectDir, ids, await getEmbedder()).then(() => {
+    for (const id of ids) {
+      summaries.stale.delete(id);
+      summaries.at.set(id, Date.now());
+    }
+  }, (err) => {
+    process.stderr.write(`preflight: session summaries failed — ${err}\n`);
+  });
+}
+
+/**
+ * Sessions always; git only when refs moved and onboarding has recorded where
+ * git indexing stopped. Returns the embedding mismatch instead of a pass when
+ * the project was indexed with another model.
+ */
+async function runPass(projectDir: string, gitChanged: boolean, optimized: OptimizeState, summaries: SummaryState, signal: AbortSignal): Promise<WatchPass | { mismatch: string }> {
+  const started = Date.now();
+  const { ingestProject } = await import("./ingest.js");
+  const { getEmbedder, embeddingMismatch, loadIngestLedger, indexedGitTips, optimizeEventsTable } = await import("./timeline-db.js");
+  // After a model switch nothing can be written until reembed_project has run
+  const embedder = await getEmbedder();
+  const mismatch = await embeddingMismatch(projectDir, embedder);
+  if (mismatch) return { mismatch };
+
+  let gitEvents: import("./session-parser.js").TimelineEvent[] = [];
+  let gitTips: string[] | undefined;
+  let gitScope: import("./timeline-db.js").GitScope | undefined;
+  if (gitChanged) {
+    const { extractGitHistory, filterCommitsByAuthor, gitRefTips, commitExists } = await import("./git-extractor.js");
+    const ledger = await loadIngestLedger(projectDir);
+    const after = indexedGitTips(ledger);
+    // Which history to index (depth, authors) was onboarding's call; follow it forward with the same scope.
+    // With every indexed tip rebased away extractGitHistory would list everything, so leave that to re-onboarding
+    if (ledger.git && after.some((hash) => commitExists(projectDir, hash))) {
+      const { authors, since } = ledger.git;
+      gitScope = { ...(authors ? { authors } : {}), ...(since ? { since } : {}) };
+      gitTips = gitRefTips(projectDir);
+      gitEvents = filterCommitsByAuthor(
+        extractGitHistory(projectDir, { from: gitTips, after, ...(since ? { since: new Date(since) } : {}) }),
+        authors,
+      );
+    }
+  }
+
+  const sessionDir = sessionDirFor(projectDir);
+  const result = await ingestProject({
+    projectDir,
+    embedder,
+    ...(sessionDir ? { sessionDir } : {}),
+    gitEvents,
+    gitTips,
+    gitScope,
+    settleMs: OPEN_TURN_SETTLE_MS,
+    optimize: false,
+    summaries: false,
+    signal,
+  });
+  for (const id of result.sessions) summaries.stale.add(id);
+  if (!signal.aborted) await refreshSummaries(projectDir, summaries, summariesDue(summaries));
+  optimized.pending += result.events;
+  if (optimized.pending > 0 && Date.now() - optimized.at >= OPTIMIZE_INTERVAL_MS && !signal.aborted) {
+    await optimizeEventsTable(projectDir).catch((err) => {
+      process.stderr.write(`preflight: timeline optimize failed — ${err}\n`);
+    });
+    optimized.pending = 0;
+    optimized.at = Date.now();
+  }
+  return { events: result.events, byType: result.byType, files: result.files, held: result.held, durationMs: Date.now() - started };
+}
+
+// ── Public API ─────────────────────────────────────────────────────────────
+
+/**
+ * Watch `projectDir`'s transcripts and git refs, indexing changes into its
+ * timeline. Runs one catch-up pass immediately. The project should already be
+ * onboarded: git is only followed from the ref tips onboarding stopped at.
+ */
+export function startWatcher(projectDir: string, opts: WatcherOptions = {}): Watcher {
+  const dir = resolve(projectDir);
+  const debounceMs = opts.debounceMs ?? DEFAULT_DEBOUNCE_MS;
+  const maxWaitMs = opts.maxWaitMs ?? DEFAULT_MAX_WAIT_MS;
+  const persistent = opts.keepAlive ?? false;
+  const onError = opts.onError ?? ((err) => process.stderr.write(`preflight: watcher pass failed — ${err}\n`));
+
+  const watchers: FSWatcher[] = [];
+  let sessionDir: string | null = null;
+  let timer: NodeJS.Timeout | undefined;
+  let firstChangeAt = 0;
+  let dirty = false;
+  let gitDirty = false;
+  let running: Promise<void> | null = null;
+  let stopped = false;
+  // Session files as of the last pass, when they last moved, and whether that pass held a turn back
+  let snapshot = "";
+  let snapshotAt = Date.now();
+  let holding = false;
+  const abort = new AbortController();
+  // Due straight away: the catch-up pass may store a backlog
+  const optimized: OptimizeState = { pending: 0, at: 0 };
+  const summaries: SummaryState = { stale: new Set(), at: new Map() };
+
+  const run = async (): Promise<void> => {
+    clearTimeout(timer);
+    timer = undefined;
+    while (running) await running;
+    if (!dirty || stopped) return;
+    const gitChanged = gitDirty;
+    dirty = gitDirty = false;
+    firstChangeAt = 0;
+    const current = sessionSnapshot(sessionDir);
+    if (current !== snapshot) {
+      snapshot = current;
+      snapshotAt = Date.now();
+    }
+    running = runPass(dir, gitChanged, optimized, summaries, abort.signal)
+      .then((pass) => {
+        if ("mismatch" in pass) {
+          close();
+          onError(new Error(`${pass.mismatch} Stopped watching; restart it once the project is re-embedded.`));
+          return;
+        }
+        holding = pass.held > 0;
+        if (pass.events > 0) opts.onIngest?.(pass);
+      }, onError)
+      .finally(() => { running = null; });
+    await running;
+  };
+
+  const schedule = (git: boolean) => {
+    if (stopped) return;
+    dirty = true;
+    if (git) gitDirty = true;
+    const now = Date.now();
+    if (firstChangeAt === 0) firstChangeAt = now;
+    clearTimeout(timer);
+    // Debounce, but never past maxWait from the first change in the burst
+    timer = setTimeout(run, Math.max(0, Math.min(debounceMs, firstChangeAt + maxWaitMs - now)));
+    timer.unref();
+  };
+
+  // The session directory only exists once Claude Code has run here; the poll picks it up later
+  const attachSessions = () => {
+    if (sessionDir) return;
+    sessionDir = sessionDirFor(dir);
+    if (!sessionDir) return;
+    const w = watchDir(sessionDir, persistent, (file) => { if (!file || file.endsWith(".jsonl")) schedule(false); });
+    if (w) watchers.push(w);
+  };
+  attachSessions();
+
+  const gitDir = join(dir, ".git");
+  if (isDir(gitDir)) {
+    const refs = watchDir(join(gitDir, "refs"), persistent, () => schedule(true));
+    if (refs) watchers.push(refs);
+    try {
+      watchers.push(watch(gitDir, { persistent }, (_event, file) => {
+        if (file && GIT_TOP_LEVEL.has(basename(String(file)))) schedule(true);
+      }));
+    } catch {
+      // unreadable .git; the poll still covers sessions
+    }
+  }
+
+  // A held turn is indexed once its file has been quiet for the settle time; a deferred summary once its interval is up
+  const poll = setInterval(() => {
+    attachSessions();
+    if (
+      sessionSnapshot(sessionDir) !== snapshot ||
+      (holding && Date.now() - snapshotAt >= OPEN_TURN_SETTLE_MS) ||
+      summariesDue(summaries).length > 0
+    ) {
+      schedule(false);
+    }
+  }, opts.pollMs ?? DEFAULT_POLL_MS);
+  if (!persistent) poll.unref();
+
+  /** Stop watching without waiting for the pass in flight (which may be the caller). */
+  function close(): void {
+    stopped = true;
+    abort.abort();
+    clearTimeout(timer);
+    clearInterval(poll);
+    for (const w of watchers) w.close();
+  }
+
+  // Catch up on whatever happened since the last onboarding or watch
+  dirty = gitDirty = true;
+  void run();
+
+  return {
+    async flush() {
+      dirty = true;
+      await run();
+    },
+    async stop() {
+      // Already stopped by an embedding mismatch (nothing can be stored) or an earlier stop()
+      const closed = stopped;
+      close();
+      while (running) await running;
+      if (!closed) await refreshSummaries(dir, summaries, [...summaries.stale]);
+    },
+  };
+}
+
+/** startWatcher for a project that has been onboarded; null (nothing to keep live) otherwise. */
+export async function watchOnboardedProject(projectDir: string, opts?: WatcherOptions): Promise<Watcher | null> {
+  const { loadProjectMeta } = await import("./timeline-db.js");
+  if (!(await loadProjectMeta(projectDir))) return null;
+  return startWatcher(projectDir, opts);
+}
+
+/** "12 events (3 prompt, 9 tool_call)" */
+export function formatWatchPass(pass: WatchPass): string {
+  const types = Object.entries(pass.byType)
+    .sort((a, b) => b[1] - a[1])
+    .map(([type, n]) => `${n} ${type}`)
+    .join(", ");
+  return `${pass.events} event(s) (${types}) in ${(pass.durationMs / 1000).toFixed(1)}s`;
+}
@@ -22,6 +22,9 @@ const MINIMAL_TOOLS = new Set([
 const STANDARD_TOOLS = new Set([
   // Main entry point
   "preflight_check",
+  "test_triage_rules",
+  "triage_report",
+  "train_triage_model",
   // All 14 prompt discipline tools
   "scope_work",
   "clarify_intent",
@@ -33,6 +36,7 @@ const STANDARD_TOOLS = new Set([
   "check_session_health",
   "log_correction",
   "check_patterns",
+  "manage_patterns",
   "audit_workspace",
   "session_handoff",
   "what_changed",
@@ -45,6 +49,7 @@ const STANDARD_TOOLS = new Set([
   "search_contracts",
   // Timeline tools — local embeddings, zero config
   "onboard_project",
+  "reembed_project",
   "search_history",
   "timeline_view",
   "scan_sessions",
@@ -1,6 +1,8 @@
+import { z } from "zod";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { run } from "../lib/git.js";
 import { readIfExists, findWorkspaceDocs } from "../lib/files.js";
+import { outputFormatParam, renderResult } from "../lib/output.js";
 
 /** Extract top-level work areas from file paths generically */
 function detectWorkAreas(files: string[]): Set<string> {
@@ -29,12 +31,27 @@ function detectWorkAreas(files: string[]): Set<string> {
   return areas;
 }
 
+const auditWorkspaceOutput = z.object({
+  docs: z.array(z.object({ name: z.string(), age_hours: z.number(), stale: z.boolean(), size: z.number() })),
+  stale_count: z.number(),
+  work_areas: z.array(z.string()),
+  undocumented: z.array(z.string()),
+  tracking_docs: z.array(z.string()),
+  /** Only counted when there are tracking docs. */
+  test_files: z.number().nullable(),
+});
+
 export function registerAuditWorkspace(server: McpServer): void {
-  server.tool(
+  server.registerTool(
     "audit_workspace",
-    `Audit workspace documentation freshness vs actual project state. Compares .claude/ workspace docs against recent git commits to find stale or missing documentation. Call after completing a batch of work or at session end.`,
-    {},
-    async () => {
+    {
+      description: `Audit workspace documentation freshness vs actual project state. Compares .claude/ workspace docs against recent git commits to find stale or missing documentation. Call after completing a batch of work or at session end.`,
+      inputSchema: {
+        output_format: outputFormatParam,
+      },
+      outputSchema: auditWorkspaceOutput,
+    },
+    async ({ output_format }) => {
       const docs = findWorkspaceDocs();
       const recentFiles = run("git diff --name-only HEAD~10 2>/dev/null || echo ''").split("\n").filter(Boolean);
       const sections: string[] = [];
@@ -74,8 +91,9 @@ export function registerAuditWorkspace(server: McpServer): void {
 
       // Check for gap trackers or similar tracking docs
       const trackingDocs = Object.entries(docs).filter(([n]) => /gap|track|progress/i.test(n));
+      let testFilesCount: number | null = null;
       if (trackingDocs.length > 0) {
-        const testFilesCount = parseInt(run("find tests -name '*.spec.ts' -o -name '*.test.ts' 2>/dev/null | wc -l").trim()) || 0;
+        testFilesCount = parseInt(run("find tests -name '*.spec.ts' -o -name '*.test.ts' 2>/dev/null | wc -l").trim()) || 0;
         sections.push(`## Tracking Docs\n${trackingDocs.map(([n]) => {
           const age = docStatus.find(d => d.name === n)?.ageHours ?? "?";
           return `- .claude/${n} — last updated ${age}h ago`;
@@ -91,7 +109,14 @@ export function registerAuditWorkspace(server: McpServer): void {
 
       sections.push(`## Recommendation\n${recs.join("\n")}`);
 
-      return { content: [{ type: "text" as const, text: sections.join("\n\n") }] };
+      return renderResult(sections.join("\n\n"), {
+        docs: docStatus.map(d => ({ name: d.name, age_hours: d.ageHours, stale: d.stale, size: d.size })),
+        stale_count: staleCount,
+        work_areas: [...workAreas],
+        undocumented,
+        tracking_docs: trackingDocs.map(([n]) => n),
+        test_files: testFilesCount,
+      }, output_format);
     }
   );
 }
@@ -1,18 +1,21 @@
 import { z } from "zod";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { loadPatterns, matchPatterns, formatPatternMatches } from "../lib/patterns.js";
+import { findFileCorrections, formatFileCorrection } from "../lib/corrections.js";
+import { extractFilePaths } from "../lib/prompt-gate.js";
 
 export function registerCheckPatterns(server: McpServer): void {
   server.tool(
     "check_patterns",
-    "Check if the current prompt matches any learned correction patterns from past mistakes. Use this to avoid repeating known pitfalls.",
+    "Check if the current prompt matches any learned correction patterns from past mistakes, or names a file whose edits were corrected before. Use this to avoid repeating known pitfalls.",
     {
       prompt: z.string().describe("The prompt to check against known patterns"),
     },
     async ({ prompt }) => {
       const patterns = loadPatterns();
+      const fileCorrections = findFileCorrections(extractFilePaths(prompt));
 
-      if (patterns.length === 0) {
+      if (patterns.length === 0 && fileCorrections.length === 0) {
         return {
           content: [{
             type: "text" as const,
@@ -21,9 +24,9 @@ export function registerCheckPatterns(server: McpServer): void {
         };
       }
 
-      const matches = matchPatterns(prompt, patterns);
+      const matches = await matchPatterns(prompt, patterns);
 
-      if (matches.length === 0) {
+      if (matches.length === 0 && fileCorrections.length === 0) {
         return {
           content: [{
             type: "text" as const,
@@ -32,10 +35,16 @@ export function registerCheckPatterns(server: McpServer): void {
         };
       }
 
+      const sections: string[] = [];
+      if (matches.length > 0) sections.push(formatPatternMatches(matches));
+      if (fileCorrections.length > 0) {
+        sections.push(["⚠️ Files with past corrections:", "", ...fileCorrections.map(fc => `- ${formatFileCorrection(fc)}`)].join("\n"));
+      }
+
       return {
         content: [{
           type: "text" as const,
-          text: formatPatternMatches(matches),
+          text: sections.join("\n"),
         }],
       };
     },
@@ -3,10 +3,18 @@ import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { run, getBranch, getStatus, getRecentCommits, getDiffFiles, getStagedFiles } from "../lib/git.js";
 import { findWorkspaceDocs, PROJECT_DIR } from "../lib/files.js";
 import { searchSemantic } from "../lib/timeline-db.js";
-import { getRelatedProjects } from "../lib/config.js";
+import { getRelatedProjects, getTriageConfig } from "../lib/config.js";
+import { triagePrompt } from "../lib/triage.js";
 import { existsSync, readFileSync } from "fs";
 import { join, basename, resolve } from "path";
 import { loadAllContracts, searchContracts, formatContracts } from "../lib/contracts.js";
+import {
+  outputFormatParam,
+  renderResult,
+  clarifyQuestionSchema,
+  elicitationStatusSchema,
+} from "../lib/output.js";
+import { buildClarifyQuestions, elicitClarification, formatClarifyQuestions } from "../lib/clarify.js";
 
 /** Parse test failures from common report formats without fragile shell pipelines */
 function getTestFailures(): string {
@@ -127,15 +135,44 @@ async function searchCrossProjectContext(userMessage: string): Promise<string[]>
   return contextItems.slice(0, 5); // Limit to top 5 context items
 }
 
+const clarifyIntentOutput = z.object({
+  git: z.object({
+    branch: z.string(),
+    dirty_files: z.array(z.string()),
+    staged: z.array(z.string()),
+    recent_commits: z.array(z.string()),
+    recently_changed: z.array(z.string()),
+  }),
+  /** Only gathered when the suspected area involves tests, fixes, UI or APIs. */
+  tests: z.object({ type_errors: z.number(), failing: z.string(), files: z.array(z.string()) }).optional(),
+  priority_docs: z.array(z.string()),
+  contracts: z.array(z.object({
+    name: z.string(),
+    kind: z.enum(["interface", "type", "enum", "route", "schema", "event", "model"]),
+    file: z.string(),
+  })),
+  related_context: z.array(z.string()),
+  signals: z.array(z.string()),
+  questions: z.array(clarifyQuestionSchema),
+  elicitation: elicitationStatusSchema.optional(),
+  answers: z.record(z.string(), z.string()).optional(),
+  sharpened_prompt: z.string().optional(),
+});
+
 export function registerClarifyIntent(server: McpServer): void {
-  server.tool(
+  server.registerTool(
     "clarify_intent",
-    `Clarify a vague user instruction by gathering project context. Call BEFORE executing when the user's prompt is missing specific files, actions, scope, or done conditions. Returns git state, test failures, recent changes, and workspace priorities.`,
     {
-      user_message: z.string().describe("The user's raw message/instruction to clarify"),
-      suspected_area: z.string().optional().describe("Best guess area: 'tests', 'git', 'ui', 'api', 'schema'"),
+      description: `Clarify a vague user instruction by gathering project context. Call BEFORE executing when the user's prompt is missing specific files, actions, scope, or done conditions. Returns git state, test failures, recent changes, and workspace priorities.`,
+      inputSchema: {
+        user_message: z.string().describe("The user's raw message/instruction to clarify"),
+        suspected_area: z.string().optional().describe("Best guess area: 'tests', 'git', 'ui', 'api', 'schema'"),
+        interactive: z.boolean().default(true).describe("Ask multiple-choice clarification questions through MCP elicitation when the client supports it"),
+        output_format: outputFormatParam,
+      },
+      outputSchema: clarifyIntentOutput,
     },
-    async ({ user_message, suspected_area }) => {
+    async ({ user_message, suspected_area, interactive, output_format }) => {
       const sections: string[] = [];
       const branch = getBranch();
       const status = getStatus();
@@ -144,6 +181,20 @@ export function registerClarifyIntent(server: McpServer): void {
       const staged = getStagedFiles();
       const dirtyCount = status ? status.split("\n").filter(Boolean).length : 0;
 
+      const data: z.infer<typeof clarifyIntentOutput> = {
+        git: {
+          branch,
+          dirty_files: status ? status.split("\n").filter(Boolean) : [],
+          staged: staged ? staged.split("\n").filter(Boolean) : [],
+          recent_commits: recentCommits.split("\n").filter(Boolean),
+          recently_changed: recentFiles.split("\n").filter(Boolean),
+        },
+        priority_docs: [],
+        contracts: [],
+        related_context: [],
+        signals: [],
+        questions: [],
+      };
       sections.push(`## Git State\nBranch: ${branch}\nDirty files: ${dirtyCount}\n${status ? `\`\`\`\n${status}\n\`\`\`` : "Working tree clean"}\nStaged: ${staged || "nothing"}\n\nRecent commits:\n\`\`\`\n${recentCommits}\n\`\`\`\n\nRecently changed files:\n\`\`\`\n${recentFiles}\n\`\`\``);
 
       // Gather test/type state when relevant
@@ -159,6 +210,11 @@ export function registerClarifyIntent(server: McpServer): void {
         const failingTests = getTestFailures();
         hasTestFailures = failingTests !== "all passing" && failingTests !== "no test report found";
 
+        data.tests = {
+          type_errors: parseInt(typeErrors, 10) || 0,
+          failing: failingTests,
+          files: testFiles ? testFiles.split("\n").filter(Boolean) : [],
+        };
         sections.push(`## Test State\nType errors: ${typeErrors}\nFailing tests: ${failingTests}\nTest files:\n\`\`\`\n${testFiles || "none found"}\n\`\`\``);
       }
 
@@ -167,6 +223,7 @@ export function registerClarifyIntent(server: McpServer): void {
       const priorityDocs = Object.entries(workspaceDocs)
         .filter(([n]) => /gap|roadmap|current|todo|changelog/i.test(n))
         .slice(0, 3);
+      data.priority_docs = priorityDocs.map(([n]) => n);
       if (priorityDocs.length > 0) {
         sections.push(`## Workspace Priorities\n${priorityDocs.map(([n, d]) => `### .claude/${n}\n\`\`\`\n${d.content}\n\`\`\``).join("\n\n")}`);
       }
@@ -181,20 +238,41 @@ export function registerClarifyIntent(server: McpServer): void {
       const contractDirs = [resolve(PROJECT_DIR), ...getRelatedProjects()];
       const allContracts = loadAllContracts(contractDirs);
       const matchedContracts = searchContracts(user_message, allContracts);
+      data.contracts = matchedContracts.slice(0, 8).map(c => ({ name: c.name, kind: c.kind, file: c.file }));
       if (matchedContracts.length > 0) {
         sections.push(`## Matching Contracts\n${formatContracts(matchedContracts, 8)}`);
       }
 
       // Search for cross-project context
       const crossProjectContext = await searchCrossProjectContext(user_message);
+      data.related_context = crossProjectContext;
+      data.signals = signals;
       if (crossProjectContext.length > 0) {
         sections.push(`## Related Project Context\n${crossProjectContext.map(c => `- ${c}`).join("\n")}`);
       }
 
       sections.push(`## Intent Signals\n${signals.map(s => `- ${s}`).join("\n")}`);
+
+      // Concrete questions (same machinery as preflight_check), asked directly when possible
+      const { ambiguous_targets } = triagePrompt(user_message, getTriageConfig());
+      const questions = await buildClarifyQuestions(user_message, { targets: ambiguous_targets });
+      data.questions = questions;
+      if (interactive && questions.length > 0) {
+        const outcome = await elicitClarification(server, user_message, questions);
+        data.elicitation = outcome.status;
+        if (outcome.sharpened) {
+          data.answers = outcome.answers;
+          data.sharpened_prompt = outcome.sharpened;
+          sections.push(`## Sharpened Prompt\n\`\`\`\n${outcome.sharpened}\n\`\`\``);
+          return renderResult(sections.join("\n\n"), data, output_format);
+        }
+      }
+      if (questions.length > 0) {
+        sections.push(`## Clarifying Questions\n${formatClarifyQuestions(questions).join("\n\n")}`);
+      }
       sections.push(`## Recommendation\n1. **Proceed with specifics** — state what you'll do and why\n2. **Ask ONE question** — if context doesn't disambiguate`);
 
-      return { content: [{ type: "text" as const, text: sections.join("\n\n") }] };
+      return renderResult(sections.join("\n\n"), data, output_format);
     }
   );
 }
@@ -4,9 +4,8 @@
 
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-import { readFileSync, statSync } from "node:fs";
 import { basename } from "node:path";
-import { findSessionDirs, findSessionFiles } from "../lib/session-parser.js";
+import { loadSession, latestSessionFile, type Session } from "../lib/session-model.js";
 
 // ── Pricing (per 1M tokens) ────────────────────────────────────────────────
 
@@ -18,8 +17,6 @@ const PRICING: Record<string, { input: number; output: number }> = {
 
 const DEFAULT_MODEL = "claude-sonnet-4";
 
-const CORRECTION_SIGNALS = /\b(no[,.\s]|wrong|not that|i meant|actually|try again|revert|undo|that's not|not what i)\b/i;
-
 const PREFLIGHT_TOOLS = new Set([
   "preflight_check",
   "clarify_intent",
@@ -35,22 +32,9 @@ function estimateTokens(text: string): number {
   return Math.ceil(text.length / 4);
 }
 
-function extractText(content: unknown): string {
-  if (typeof content === "string") return content;
-  if (Array.isArray(content)) {
-    return content
-      .filter((b: any) => typeof b.text === "string")
-      .map((b: any) => b.text)
-      .join("\n");
-  }
-  return "";
-}
-
-function extractToolNames(content: unknown): string[] {
-  if (!Array.isArray(content)) return [];
-  return content
-    .filter((b: any) => b.type === "tool_use" && b.name)
-    .map((b: any) => b.name as string);
+/** MCP tools are reported as mcp__<server>__<tool>. */
+function baseToolName(name: string): string {
+  return name.replace(/^mcp__.+?__/, "");
 }
 
 function formatTokens(n: number): string {
@@ -73,8 +57,13 @@ function formatDuration(ms: number): string {
 }
 
 interface SessionAnalysis {
+  /** Uncached input tokens (everything, when estimated). */
   inputTokens: number;
+  cacheWriteTokens: number;
+  cacheReadTokens: number;
   outputTokens: number;
+  /** True when the transcript recorded API usage; false means chars/4 estimates. */
+  fromUsage: boolean;
   promptCount: number;
   toolCallCount: number;
   corrections: number;
@@ -85,91 +74,33 @@ interface SessionAnalysis {
   lastTimestamp: string | null;
 }
 
-function analyzeSessionFile(filePath: string): SessionAnalysis {
-  const content = readFileSync(filePath, "utf-8");
-  const lines = content.trim().split("\n").filter(Boolean);
-
+function analyzeSession(session: Session): SessionAnalysis {
   const result: SessionAnalysis = {
-    inputTokens: 0,
-    outputTokens: 0,
-    promptCount: 0,
-    toolCallCount: 0,
-    corrections: 0,
+    inputTokens: session.hasUsage ? session.usage.input_tokens : session.estimatedInputTokens,
+    cacheWriteTokens: session.usage.cache_creation_input_tokens,
+    cacheReadTokens: session.usage.cache_read_input_tokens,
+    outputTokens: session.hasUsage ? session.usage.output_tokens : session.outputTokens,
+    fromUsage: session.hasUsage,
+    promptCount: session.turns.length,
+    toolCallCount: session.toolCalls.length,
+    corrections: session.corrections.length,
     wastedOutputTokens: 0,
     preflightCalls: 0,
     preflightTokens: 0,
-    firstTimestamp: null,
-    lastTimestamp: null,
+    firstTimestamp: session.firstTimestamp,
+    lastTimestamp: session.lastTimestamp,
   };
 
-  let lastType = "";
-  let lastAssistantTokens = 0;
+  // A correction wastes whatever the turn it corrected produced
+  session.turns.forEach((turn, i) => {
+    if (turn.isCorrection && i > 0) result.wastedOutputTokens += session.turns[i - 1].outputTokens;
+  });
 
-  for (const line of lines) {
-    let obj: any;
-    try {
-      obj = JSON.parse(line);
-    } catch {
-      continue;
-    }
-
-    // Track timestamps
-    const ts = obj.timestamp;
-    if (ts) {
-      const tsStr = typeof ts === "string" ? ts : new Date(ts < 1e12 ? ts * 1000 : ts).toISOString();
-      if (!result.firstTimestamp) result.firstTimestamp = tsStr;
-      result.lastTimestamp = tsStr;
-    }
-
-    if (obj.type === "user") {
-      const text = extractText(obj.message?.content);
-      const tokens = estimateTokens(text);
-      result.inputTokens += tokens;
-      result.promptCount++;
-
-      // Correction detection
-      if (lastType === "assistant" && CORRECTION_SIGNALS.test(text)) {
-        result.corrections++;
-        result.wastedOutputTokens += lastAssistantTokens;
-      }
-      lastType = "user";
-    } else if (obj.type === "assistant") {
-      const msgContent = obj.message?.content;
-      const text = extractText(msgContent);
-      const tokens = estimateTokens(text);
-      result.outputTokens += tokens;
-      lastAssistantTokens = tokens;
-
-      // Tool calls
-      const toolNames = extractToolNames(msgContent);
-      result.toolCallCount += toolNames.length;
-
-      for (const name of toolNames) {
-        if (PREFLIGHT_TOOLS.has(name)) {
-          result.preflightCalls++;
-          // Estimate tool call tokens (name + args)
-          const toolBlocks = (msgContent as any[]).filter(
-            (b: any) => b.type === "tool_use" && b.name === name,
-          );
-          for (const tb of toolBlocks) {
-            result.preflightTokens += estimateTokens(
-              JSON.stringify(tb.input ?? {}),
-            );
-          }
-        }
-      }
-      lastType = "assistant";
-    } else if (obj.type === "tool_result") {
-      const text = extractText(obj.content);
-      const tokens = estimateTokens(text);
-      result.inputTokens += tokens;
-
-      // Check if this is a preflight tool result
-      if (obj.tool_use_id) {
-        // We can't perfectly match tool_use_id to name, so count tokens as preflight
-        // if they're small (typical preflight responses)
-      }
-    }
+  for (const call of session.toolCalls) {
+    if (!PREFLIGHT_TOOLS.has(baseToolName(call.name))) continue;
+    result.preflightCalls++;
+    // Arguments in, result text back
+    result.preflightTokens += estimateTokens(JSON.stringify(call.input ?? {})) + Math.ceil((call.result?.size ?? 0) / 4);
   }
 
   return result;
@@ -202,17 +133,7 @@ export function registerEstimateCost(server: McpServer): void {
       if (session_dir) {
         filePath = session_dir;
       } else {
-        // Find latest session file
-        const dirs = findSessionDirs();
-        let latest: { path: string; mtime: Date } | null = null;
-        for (const dir of dirs) {
-          const files = findSessionFiles(dir.sessionDir);
-          for (const f of files) {
-            if (!latest || f.mtime > latest.mtime) {
-              latest = f;
-            }
-          }
-        }
+        const latest = latestSessionFile();
         if (!latest) {
           return {
             content: [
@@ -226,9 +147,9 @@ export function registerEstimateCost(server: McpServer): void {
         filePath = latest.path;
       }
 
-      // Verify file exists
+      let session: Session;
       try {
-        statSync(filePath);
+        session = await loadSession(filePath);
       } catch {
         return {
           content: [
@@ -240,9 +161,13 @@ export function registerEstimateCost(server: McpServer): void {
         };
       }
 
-      const analysis = analyzeSessionFile(filePath);
-      const totalTokens = analysis.inputTokens + analysis.outputTokens;
-      const inputCost = (analysis.inputTokens / 1_000_000) * pricing.input;
+      const analysis = analyzeSession(session);
+      const totalTokens =
+        analysis.inputTokens + analysis.cacheWriteTokens + analysis.cacheReadTokens + analysis.outputTokens;
+      // Cache writes bill at 1.25x input, cache reads at 0.1x
+      const inputCost =
+        ((analysis.inputTokens + analysis.cacheWriteTokens * 1.25 + analysis.cacheReadTokens * 0.1) / 1_000_000) *
+        pricing.input;
       const outputCost = (analysis.outputTokens / 1_000_000) * pricing.output;
       const totalCost = inputCost + outputCost;
       const wasteCost =
@@ -280,8 +205,11 @@ export function registerEstimateCost(server: McpServer): void {
         `Duration: ${durationStr} | ${analysis.promptCount} prompts | ${analysis.toolCallCount} tool calls`,
         `File: ${basename(filePath)}`,
         ``,
-        `Token Usage (estimated):`,
+        analysis.fromUsage ? `Token Usage (from API usage):` : `Token Usage (estimated):`,
         `  Input:   ~${formatTokens(analysis.inputTokens)} tokens`,
+        ...(analysis.cacheWriteTokens + analysis.cacheReadTokens > 0
+          ? [`  Cache:   ~${formatTokens(analysis.cacheWriteTokens)} written, ~${formatTokens(analysis.cacheReadTokens)} read`]
+          : []),
         `  Output:  ~${formatTokens(analysis.outputTokens)} tokens`,
         `  Total:   ~${formatTokens(totalTokens)} tokens`,
         ``,
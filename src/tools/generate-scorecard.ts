@@ -5,12 +5,7 @@
 
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-import {
-  findSessionDirs,
-  findSessionFiles,
-  parseSession,
-  type TimelineEvent,
-} from "../lib/session-parser.js";
+import { listSessionFiles, loadSessions as loadSessionModels, type Session } from "../lib/session-model.js";
 import { existsSync, readFileSync, writeFileSync, mkdirSync } from "fs";
 import { join } from "path";
 import { homedir } from "os";
@@ -60,52 +55,6 @@ function clamp(v: number): number {
 
 const PATH_RE = /(?:\/[\w./-]+\.\w{1,6}|\b\w+\.\w{2,6}\b)/;
 const FILE_EXT_RE = /\.\b(?:ts|tsx|js|jsx|py|rs|go|rb|java|c|cpp|h|css|scss|html|json|yaml|yml|toml|md|sql|sh)\b/;
-const CORRECTION_PATTERNS = [/\bno\b/i, /\bwrong\b/i, /\bnot that\b/i, /\bi meant\b/i, /\bactually\b/i, /\binstead\b/i, /\bundo\b/i, /\brevert\b/i];
-
-interface ParsedSession {
-  id: string;
-  events: TimelineEvent[];
-  userMessages: TimelineEvent[];
-  assistantMessages: TimelineEvent[];
-  toolCalls: TimelineEvent[];
-  corrections: TimelineEvent[];
-  compactions: TimelineEvent[];
-  commits: TimelineEvent[];
-  subAgentSpawns: TimelineEvent[];
-  durationMinutes: number;
-}
-
-function classifyEvents(events: TimelineEvent[]): ParsedSession {
-  const userMessages = events.filter((e) => e.type === "user_prompt");
-  const assistantMessages = events.filter((e) => e.type === "assistant_response");
-  const toolCalls = events.filter((e) => e.type === "tool_call");
-  const corrections = events.filter((e) => e.type === "correction");
-  const compactions = events.filter((e) => e.type === "compaction");
-  const commits = events.filter((e) => e.type === "git_commit");
-  const subAgentSpawns = events.filter((e) => e.type === "sub_agent_spawn");
-
-  let durationMinutes = 0;
-  if (events.length >= 2) {
-    const first = new Date(events[0].timestamp).getTime();
-    const last = new Date(events[events.length - 1].timestamp).getTime();
-    if (!isNaN(first) && !isNaN(last)) {
-      durationMinutes = (last - first) / 60000;
-    }
-  }
-
-  return {
-    id: events[0]?.session_id ?? "unknown",
-    events,
-    userMessages,
-    assistantMessages,
-    toolCalls,
-    corrections,
-    compactions,
-    commits,
-    subAgentSpawns,
-    durationMinutes,
-  };
-}
 
 function hasFileRef(text: string): boolean {
   return PATH_RE.test(text) || FILE_EXT_RE.test(text);
@@ -117,13 +66,13 @@ function pct(num: number, den: number): number {
 
 // ── Scoring Functions ──────────────────────────────────────────────────────
 
-function scorePlans(sessions: ParsedSession[]): CategoryScore {
+function scorePlans(sessions: Session[]): CategoryScore {
   if (sessions.length === 0) return { name: "Plans", score: 75, grade: "B", evidence: "No sessions to analyze" };
 
   let planned = 0;
   for (const s of sessions) {
-    const first3 = s.userMessages.slice(0, 3);
-    const hasPlanning = first3.some((m) => m.content.length > 100 && hasFileRef(m.content));
+    const first3 = s.turns.slice(0, 3);
+    const hasPlanning = first3.some((t) => t.prompt.content.length > 100 && hasFileRef(t.prompt.content));
     if (hasPlanning) planned++;
   }
   const score = clamp(pct(planned, sessions.length));
@@ -135,12 +84,12 @@ function scorePlans(sessions: ParsedSession[]): CategoryScore {
   };
 }
 
-function scoreClarification(sessions: ParsedSession[]): CategoryScore {
+function scoreClarification(sessions: Session[]): CategoryScore {
   let specific = 0, total = 0;
   for (const s of sessions) {
-    for (const m of s.userMessages) {
+    for (const t of s.turns) {
       total++;
-      if (hasFileRef(m.content)) specific++;
+      if (hasFileRef(t.prompt.content)) specific++;
     }
   }
   const score = clamp(pct(specific, total));
@@ -152,12 +101,14 @@ function scoreClarification(sessions: ParsedSession[]): CategoryScore {
   };
 }
 
-function scoreDelegation(sessions: ParsedSession[]): CategoryScore {
+function scoreDelegation(sessions: Session[]): CategoryScore {
   let total = 0, quality = 0;
   for (const s of sessions) {
-    for (const e of s.subAgentSpawns) {
+    for (const spawn of s.subAgentSpawns) {
       total++;
-      if (e.content.length > 200) quality++;
+      const input = spawn.input as { prompt?: unknown; description?: unknown };
+      const task = typeof input.prompt === "string" ? input.prompt : spawn.event.content;
+      if (task.length > 200) quality++;
     }
   }
   if (total === 0) return { name: "Delegation", score: 75, grade: "B", evidence: "No sub-agent spawns detected. Default score." };
@@ -170,25 +121,22 @@ function scoreDelegation(sessions: ParsedSession[]): CategoryScore {
   };
 }
 
-function scoreFollowUpSpecificity(sessions: ParsedSession[]): CategoryScore {
+function scoreFollowUpSpecificity(sessions: Session[]): CategoryScore {
   let followUps = 0, specific = 0;
   const badExamples: string[] = [];
   const goodExamples: string[] = [];
 
   for (const s of sessions) {
-    for (let i = 0; i < s.events.length; i++) {
-      const ev = s.events[i];
-      if (ev.type !== "user_prompt") continue;
-      // Check if preceded by assistant
-      const prev = s.events.slice(0, i).reverse().find((e) => e.type === "assistant_response" || e.type === "user_prompt");
-      if (prev?.type !== "assistant_response") continue;
+    for (const turn of s.turns) {
+      if (!turn.followsAssistant) continue;
+      const text = turn.prompt.content;
 
       followUps++;
-      if (hasFileRef(ev.content) || ev.content.length >= 50) {
+      if (hasFileRef(text) || text.length >= 50) {
         specific++;
-        if (goodExamples.length < 3 && hasFileRef(ev.content)) goodExamples.push(ev.content.slice(0, 120));
+        if (goodExamples.length < 3 && hasFileRef(text)) goodExamples.push(text.slice(0, 120));
       } else {
-        if (badExamples.length < 3) badExamples.push(ev.content.slice(0, 80));
+        if (badExamples.length < 3) badExamples.push(text.slice(0, 80));
       }
     }
   }
@@ -202,14 +150,13 @@ function scoreFollowUpSpecificity(sessions: ParsedSession[]): CategoryScore {
   };
 }
 
-function scoreTokenEfficiency(sessions: ParsedSession[]): CategoryScore {
+function scoreTokenEfficiency(sessions: Session[]): CategoryScore {
   let totalCalls = 0, totalFiles = 0;
   for (const s of sessions) {
     totalCalls += s.toolCalls.length;
     const files = new Set<string>();
     for (const tc of s.toolCalls) {
-      const match = tc.content.match(/(?:file_path|path)["']?\s*[:=]\s*["']([^"']+)/);
-      if (match) files.add(match[1]);
+      if (tc.file) files.add(tc.file);
     }
     totalFiles += files.size || 1;
   }
@@ -234,13 +181,13 @@ function scoreTokenEfficiency(sessions: ParsedSession[]): CategoryScore {
   };
 }
 
-function scoreSequencing(sessions: ParsedSession[]): CategoryScore {
+function scoreSequencing(sessions: Session[]): CategoryScore {
   let totalSwitches = 0, totalPrompts = 0;
   for (const s of sessions) {
     let lastArea = "";
-    for (const m of s.userMessages) {
+    for (const t of s.turns) {
       totalPrompts++;
-      const pathMatch = m.content.match(/(?:\/[\w./-]+)/);
+      const pathMatch = t.prompt.content.match(/(?:\/[\w./-]+)/);
       const area = pathMatch ? pathMatch[0].split("/").slice(0, -1).join("/") : "";
       if (area && lastArea && area !== lastArea) totalSwitches++;
       if (area) lastArea = area;
@@ -263,15 +210,16 @@ function scoreSequencing(sessions: ParsedSession[]): CategoryScore {
   };
 }
 
-function scoreCompactionManagement(sessions: ParsedSession[]): CategoryScore {
+function scoreCompactionManagement(sessions: Session[]): CategoryScore {
   let totalCompactions = 0, covered = 0;
   for (const s of sessions) {
     if (s.compactions.length === 0) continue;
+    const commitEvents = new Set(s.commits.map((c) => c.event));
     for (const c of s.compactions) {
       totalCompactions++;
       const cIdx = s.events.indexOf(c);
       const nearby = s.events.slice(Math.max(0, cIdx - 10), cIdx);
-      if (nearby.some((e) => e.type === "git_commit")) covered++;
+      if (nearby.some((e) => commitEvents.has(e))) covered++;
     }
   }
   if (totalCompactions === 0) return { name: "Compaction Management", score: 100, grade: "A+", evidence: "No compactions needed — sessions stayed manageable." };
@@ -284,7 +232,7 @@ function scoreCompactionManagement(sessions: ParsedSession[]): CategoryScore {
   };
 }
 
-function scoreSessionLifecycle(sessions: ParsedSession[]): CategoryScore {
+function scoreSessionLifecycle(sessions: Session[]): CategoryScore {
   if (sessions.length === 0) return { name: "Session Lifecycle", score: 75, grade: "B", evidence: "No sessions." };
   let good = 0;
   for (const s of sessions) {
@@ -303,15 +251,16 @@ function scoreSessionLifecycle(sessions: ParsedSession[]): CategoryScore {
   };
 }
 
-function scoreErrorRecovery(sessions: ParsedSession[]): CategoryScore {
-  let totalCorrections = 0, fastRecoveries = 0, totalMessages = 0;
+function scoreErrorRecovery(sessions: Session[]): CategoryScore {
+  let totalCorrections = 0, fastRecoveries = 0, totalMessages = 0, confidenceSum = 0;
   for (const s of sessions) {
     totalMessages += s.events.length;
     for (const c of s.corrections) {
       totalCorrections++;
-      const cIdx = s.events.indexOf(c);
+      confidenceSum += c.correctionConfidence;
+      const cIdx = s.events.indexOf(c.prompt);
       const after = s.events.slice(cIdx + 1, cIdx + 3);
-      if (after.some((e) => e.type === "tool_call" || e.type === "assistant_response")) fastRecoveries++;
+      if (after.some((e) => e.type === "tool_call" || e.type === "assistant")) fastRecoveries++;
     }
   }
   if (totalCorrections === 0) return { name: "Error Recovery", score: 95, grade: "A", evidence: "No corrections needed." };
@@ -325,11 +274,11 @@ function scoreErrorRecovery(sessions: ParsedSession[]): CategoryScore {
     name: "Error Recovery",
     score,
     grade: letterGrade(score),
-    evidence: `${totalCorrections} corrections (${(correctionRate * 100).toFixed(1)}% of messages). ${fastRecoveries} recovered within 2 messages.`,
+    evidence: `${totalCorrections} corrections (${(correctionRate * 100).toFixed(1)}% of messages, avg confidence ${(confidenceSum / totalCorrections).toFixed(2)}). ${fastRecoveries} recovered within 2 messages.`,
   };
 }
 
-function scoreWorkspaceHygiene(sessions: ParsedSession[]): CategoryScore {
+function scoreWorkspaceHygiene(sessions: Session[]): CategoryScore {
   let bonus = 0;
   for (const s of sessions) {
     const allContent = s.events.map((e) => e.content).join(" ");
@@ -344,13 +293,13 @@ function scoreWorkspaceHygiene(sessions: ParsedSession[]): CategoryScore {
   };
 }
 
-function scoreCrossSessionContinuity(sessions: ParsedSession[]): CategoryScore {
+function scoreCrossSessionContinuity(sessions: Session[]): CategoryScore {
   if (sessions.length === 0) return { name: "Cross-Session Continuity", score: 75, grade: "B", evidence: "No sessions." };
   let good = 0;
   for (const s of sessions) {
     const first3Tools = s.toolCalls.slice(0, 3);
     const readsContext = first3Tools.some((tc) =>
-      /CLAUDE\.md|\.claude\/|checkpoint|context|README/i.test(tc.content)
+      /CLAUDE\.md|\.claude\/|checkpoint|context|README/i.test(tc.event.content)
     );
     if (readsContext) good++;
   }
@@ -363,7 +312,7 @@ function scoreCrossSessionContinuity(sessions: ParsedSession[]): CategoryScore {
   };
 }
 
-function scoreVerification(sessions: ParsedSession[]): CategoryScore {
+function scoreVerification(sessions: Session[]): CategoryScore {
   if (sessions.length === 0) return { name: "Verification", score: 75, grade: "B", evidence: "No sessions." };
   let verified = 0;
   for (const s of sessions) {
@@ -386,7 +335,7 @@ function scoreVerification(sessions: ParsedSession[]): CategoryScore {
 // ── Main Scoring ───────────────────────────────────────────────────────────
 
 function computeScorecard(
-  sessions: ParsedSession[],
+  sessions: Session[],
   project: string,
   period: string,
 ): Scorecard {
@@ -568,22 +517,12 @@ async function generatePDF(html: string, outputPath: string): Promise<void> {
 
 // ── Session Loading ────────────────────────────────────────────────────────
 
-function loadSessions(opts: {
+async function loadSessions(opts: {
   project?: string;
   sessionId?: string;
   since?: string;
   period: string;
-}): ParsedSession[] {
-  const dirs = findSessionDirs();
-  let targetDirs = dirs;
-
-  if (opts.project) {
-    targetDirs = dirs.filter((d) =>
-      d.projectName.toLowerCase().includes(opts.project!.toLowerCase()) ||
-      d.project.toLowerCase().includes(opts.project!.toLowerCase())
-    );
-  }
-
+}): Promise<Session[]> {
   // Determine time filter
   let sinceDate: Date | null = null;
   if (opts.since) {
@@ -602,26 +541,12 @@ function loadSessions(opts: {
     }
   }
 
-  const sessions: ParsedSession[] = [];
-
-  for (const dir of targetDirs) {
-    const files = findSessionFiles(dir.sessionDir);
-    for (const f of files) {
-      if (opts.sessionId && f.sessionId !== opts.sessionId) continue;
-      if (sinceDate && f.mtime < sinceDate) continue;
-
-      try {
-        const events = parseSession(f.path, dir.project, dir.projectName);
-        if (events.length > 0) {
-          sessions.push(classifyEvents(events));
-        }
-      } catch {
-        // Skip unparseable files
-      }
-    }
-  }
-
-  return sessions;
+  const files = listSessionFiles({
+    ...(opts.project ? { project: opts.project } : {}),
+    ...(opts.sessionId ? { sessionId: opts.sessionId } : {}),
+    ...(sinceDate ? { since: sinceDate } : {}),
+  });
+  return (await loadSessionModels(files)).filter((s) => s.events.length > 0);
 }
 
 // ── Historical Baseline ────────────────────────────────────────────────────
@@ -736,10 +661,10 @@ function generateTrendSVG(dailyScores: { date: string; score: number }[]): strin
 </svg>`;
 }
 
-function groupSessionsByDay(sessions: ParsedSession[]): Map<string, ParsedSession[]> {
-  const map = new Map<string, ParsedSession[]>();
+function groupSessionsByDay(sessions: Session[]): Map<string, Session[]> {
+  const map = new Map<string, Session[]>();
   for (const s of sessions) {
-    const ts = s.events[0]?.timestamp;
+    const ts = s.firstTimestamp;
     if (!ts) continue;
     const day = new Date(ts).toISOString().slice(0, 10);
     if (!map.has(day)) map.set(day, []);
@@ -748,7 +673,7 @@ function groupSessionsByDay(sessions: ParsedSession[]): Map<string, ParsedSessio
   return map;
 }
 
-function scoreDailyData(sessions: ParsedSession[]): DailyScore[] {
+function scoreDailyData(sessions: Session[]): DailyScore[] {
   const byDay = groupSessionsByDay(sessions);
   const days = [...byDay.keys()].sort();
   return days.map((date) => {
@@ -759,7 +684,7 @@ function scoreDailyData(sessions: ParsedSession[]): DailyScore[] {
       score: sc.overall,
       categories: sc.categories,
       sessionCount: daySessions.length,
-      promptCount: daySessions.reduce((s, d) => s + d.userMessages.length, 0),
+      promptCount: daySessions.reduce((s, d) => s + d.turns.length, 0),
       toolCallCount: daySessions.reduce((s, d) => s + d.toolCalls.length, 0),
       correctionCount: daySessions.reduce((s, d) => s + d.corrections.length, 0),
       compactionCount: daySessions.reduce((s, d) => s + d.compactions.length, 0),
@@ -767,13 +692,13 @@ function scoreDailyData(sessions: ParsedSession[]): DailyScore[] {
   });
 }
 
-function findBestWorstPrompt(sessions: ParsedSession[]): { best: string; worst: string } {
+function findBestWorstPrompt(sessions: Session[]): { best: string; worst: string } {
   let best = "", worst = "";
   let bestScore = -1, worstScore = Infinity;
 
   for (const s of sessions) {
-    for (const m of s.userMessages) {
-      const text = m.content;
+    for (const t of s.turns) {
+      const text = t.prompt.content;
       if (text.length < 5) continue;
       // Score: length + file refs bonus
       const score = text.length + (hasFileRef(text) ? 200 : 0);
@@ -815,7 +740,7 @@ const IMPROVEMENT_TIPS: Record<string, string> = {
   "Verification": "Always run tests/build at the end of a session to verify changes work.",
 };
 
-function buildTrendReport(sessions: ParsedSession[], project: string, period: string): TrendReport {
+function buildTrendReport(sessions: Session[], project: string, period: string): TrendReport {
   const dailyScores = scoreDailyData(sessions);
   const baseline = loadBaseline(project);
 
@@ -841,7 +766,7 @@ function buildTrendReport(sessions: ParsedSession[], project: string, period: st
 
   const { best, worst } = findBestWorstPrompt(sessions);
 
-  const totalPrompts = sessions.reduce((s, d) => s + d.userMessages.length, 0);
+  const totalPrompts = sessions.reduce((s, d) => s + d.turns.length, 0);
   const totalCorrections = sessions.reduce((s, d) => s + d.corrections.length, 0);
 
   return {
@@ -956,11 +881,11 @@ interface ComparativeReport {
   patterns: string[];
 }
 
-function buildComparativeReport(projectNames: string[], period: string, since?: string): ComparativeReport {
+async function buildComparativeReport(projectNames: string[], period: string, since?: string): Promise<ComparativeReport> {
   const projects: { name: string; scorecard: Scorecard }[] = [];
 
   for (const pName of projectNames) {
-    const sessions = loadSessions({ project: pName, period, since });
+    const sessions = await loadSessions({ project: pName, period, since });
     if (sessions.length === 0) continue;
     const sc = computeScorecard(sessions, pName, period);
     projects.push({ name: pName, scorecard: sc });
@@ -1124,7 +1049,7 @@ export function registerGenerateScorecard(server: McpServer): void {
         if (projects.length < 2) {
           return { content: [{ type: "text" as const, text: "Comparative report requires at least 2 projects in compare_projects." }] };
         }
-        const cr = buildComparativeReport(projects, params.period, params.since);
+        const cr = await buildComparativeReport(projects, params.period, params.since);
         if (params.output === "pdf") {
           const html = comparativeToHTML(cr);
           const outputPath = params.output_path ?? `/tmp/comparative-${date}.pdf`;
@@ -1139,7 +1064,7 @@ export function registerGenerateScorecard(server: McpServer): void {
       }
 
       // ── Load sessions ──
-      const sessions = loadSessions({
+      const sessions = await loadSessions({
         project: params.project,
         sessionId: params.session_id,
         since: params.since,
@@ -3,18 +3,7 @@ import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { getBranch } from "../lib/git.js";
 import { appendLog, readLog, now } from "../lib/state.js";
 import { refreshPatterns } from "../lib/patterns.js";
-
-const CATEGORIES = [
-  "vague_prompt",
-  "stale_context",
-  "wrong_assumption",
-  "wrong_file",
-  "wrong_scope",
-  "misread_intent",
-  "incomplete_work",
-  "style_mismatch",
-  "other",
-] as const;
+import { CORRECTION_CATEGORIES } from "../lib/corrections.js";
 
 export function registerLogCorrection(server: McpServer): void {
   server.tool(
@@ -24,7 +13,7 @@ export function registerLogCorrection(server: McpServer): void {
       what_user_said: z.string().describe("The user's correction message"),
       what_you_did_wrong: z.string().describe("What you did that was incorrect"),
       root_cause: z.string().describe("Why — was it a vague prompt, stale context, wrong assumption, or something else?"),
-      category: z.enum(CATEGORIES).describe("Error category"),
+      category: z.enum(CORRECTION_CATEGORIES).describe("Error category"),
     },
     async ({ what_user_said, what_you_did_wrong, root_cause, category }) => {
       const entry = {
@@ -38,7 +27,7 @@ export function registerLogCorrection(server: McpServer): void {
       appendLog("corrections.jsonl", entry);
 
       // Re-extract patterns from all corrections
-      const updatedPatterns = refreshPatterns();
+      const updatedPatterns = await refreshPatterns();
 
       const corrections = readLog("corrections.jsonl");
       const total = corrections.length;
@@ -0,0 +1,102 @@
+// =============================================================================
+// manage_patterns — List, acknowledge, resolve, mute and export correction patterns
+// =============================================================================
+
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  loadPatterns,
+  refreshPatterns,
+  setPatternStatus,
+  exportPatterns,
+  decayOf,
+  isExpired,
+  formatTimeAgo,
+  TEAM_PATTERNS_FILE,
+  type CorrectionPattern,
+  type PatternStatus,
+} from "../lib/patterns.js";
+
+const STATUS_FOR_ACTION: Record<string, PatternStatus> = {
+  acknowledge: "acknowledged",
+  resolve: "resolved",
+  mute: "muted",
+  reactivate: "active",
+};
+
+const STATUS_ORDER: PatternStatus[] = ["active", "acknowledged", "resolved", "muted"];
+
+export function registerManagePatterns(server: McpServer): void {
+  server.tool(
+    "manage_patterns",
+    "Manage learned correction patterns. List them with status and recency, acknowledge (keep warning, stop raising triage), resolve (fixed at the root — reopens if corrected again), mute, reactivate, or export to .preflight/patterns.yml so the team inherits them via git.",
+    {
+      action: z.enum(["list", "acknowledge", "resolve", "mute", "reactivate", "export"]).default("list"),
+      id: z.string().optional().describe("Pattern id (from list or check_patterns), required for status changes"),
+      note: z.string().optional().describe("Why the status changed, e.g. how it was fixed"),
+      refresh: z.boolean().default(false).describe("Re-extract patterns from the corrections log first"),
+    },
+    async ({ action, id, note, refresh }) => {
+      if (refresh) await refreshPatterns();
+
+      if (action === "export") {
+        const { path, exported, total } = exportPatterns();
+        return {
+          content: [{
+            type: "text" as const,
+            text: `## Patterns Exported ✅\n\nWrote ${total} pattern(s) to \`${TEAM_PATTERNS_FILE}\` (${exported} from this checkout, muted ones excluded).\nCommit \`${path}\` to share them with the team.`,
+          }],
+        };
+      }
+
+      if (action !== "list") {
+        if (!id) {
+          return { content: [{ type: "text" as const, text: `❌ \`id\` is required for ${action}. Run with action: list to see pattern ids.` }] };
+        }
+        const updated = setPatternStatus(id, STATUS_FOR_ACTION[action], note);
+        if (!updated) {
+          return { content: [{ type: "text" as const, text: `❌ No pattern with id \`${id}\`. Run with action: list to see pattern ids.` }] };
+        }
+        return {
+          content: [{
+            type: "text" as const,
+            text: `## Pattern ${updated.status} ✅\n\n${formatPattern(updated)}`,
+          }],
+        };
+      }
+
+      const patterns = loadPatterns();
+      if (patterns.length === 0) {
+        return {
+          content: [{
+            type: "text" as const,
+            text: "No correction patterns yet. Patterns are extracted as corrections are logged, or shared by teammates in `.preflight/patterns.yml`.",
+          }],
+        };
+      }
+
+      const sections = [`## Correction Patterns (${patterns.length})`];
+      for (const status of STATUS_ORDER) {
+        const group = patterns
+          .filter(p => p.status === status)
+          .sort((a, b) => b.frequency * decayOf(b) - a.frequency * decayOf(a));
+        if (group.length === 0) continue;
+        sections.push("", `### ${status} (${group.length})`, ...group.map(formatPattern));
+      }
+      return { content: [{ type: "text" as const, text: sections.join("\n") }] };
+    }
+  );
+}
+
+function formatPattern(p: CorrectionPattern): string {
+  const flags = [
+    p.source === "team" ? "team" : "",
+    isExpired(p) ? "expired" : "",
+  ].filter(Boolean);
+  const lines = [
+    `- \`${p.id}\` "${p.pattern}" — ${p.frequency}x, last seen ${formatTimeAgo(p.lastSeen)}, weight ${decayOf(p).toFixed(2)}${flags.length ? ` [${flags.join(", ")}]` : ""}`,
+  ];
+  if (p.note) lines.push(`  Note: ${p.note}`);
+  if (p.examples[0]) lines.push(`  e.g. "${p.examples[0].slice(0, 120)}"`);
+  return lines.join("\n");
+}
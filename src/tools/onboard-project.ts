@@ -3,19 +3,27 @@ import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import * as fs from "fs";
 import * as path from "path";
 import { 
-  insertEvents, 
-  getLastIndexedTimestamp, 
   listIndexedProjects, 
-  getEventsTable,
+  dropEventsTable,
+  embeddingMismatch,
   registerProject,
   loadProjectMeta,
-  saveProjectMeta 
+  saveProjectMeta,
+  loadIngestLedger,
+  saveIngestLedger,
+  indexedGitTips,
+  type GitScope,
 } from "../lib/timeline-db.js";
-import { findSessionDirs, parseAllSessions } from "../lib/session-parser.js";
-import { extractGitHistory } from "../lib/git-extractor.js";
+import { findSessionDirs } from "../lib/session-parser.js";
+import { ingestProject } from "../lib/ingest.js";
+import { sessionDirFor } from "../lib/project-paths.js";
+import { extractGitHistory, filterCommitsByAuthor, gitRefTips } from "../lib/git-extractor.js";
 import { createEmbeddingProvider } from "../lib/embeddings.js";
+import { getConfig } from "../lib/config.js";
 import { execSync } from "child_process";
 import { extractAndSaveContracts } from "../lib/contracts.js";
+import { PROJECT_DIR } from "../lib/files.js";
+import { captureProjectCorrections } from "../lib/corrections.js";
 
 const GIT_DEPTH_MAP: Record<string, number | undefined> = {
   all: undefined,
@@ -30,14 +38,14 @@ export function registerOnboardProject(server: McpServer) {
     "Index a project's Claude Code sessions and git history into the timeline database for semantic search and chronological viewing.",
     {
       project_dir: z.string().describe("Absolute path to the project directory"),
-      embedding_provider: z.enum(["local", "openai"]).default("local"),
-      openai_api_key: z.string().optional(),
+      embedding_provider: z.enum(["local", "openai", "openai-compatible", "ollama"]).optional().describe("Override .preflight/config.yml embeddings.provider (with that provider's default model). Search embeds queries with the configured provider, so override only to match it."),
+      openai_api_key: z.string().optional().describe("API key for the openai / openai-compatible provider"),
       git_depth: z.enum(["all", "6months", "1year", "3months"]).default("all"),
       git_since: z.string().optional().describe("Override git_depth with exact start date (ISO: '2025-08-01')"),
       git_authors: z.array(z.string()).optional().describe("Filter git commits to these authors. If omitted, auto-detects the primary author (most commits)."),
       reindex: z.boolean().default(false).describe("If true, drop existing data and rebuild from scratch"),
     },
-    async (params) => {
+    async (params, extra) => {
       const { project_dir, embedding_provider, openai_api_key, git_depth, git_since, git_authors, reindex } = params;
 
       // 1. Validate project_dir
@@ -85,22 +93,36 @@ export function registerOnboardProject(server: McpServer) {
       }
 
       // 2. Find Claude session dir
-      const sessionDirs = findSessionDirs();
-      const projectSession = sessionDirs.find(
-        (s) => s.project === project_dir || s.projectName === projectName
+      const resolvedDir = path.resolve(project_dir);
+      const directDir = sessionDirFor(resolvedDir);
+      const projectSession = directDir
+        ? { sessionDir: directDir }
+        : findSessionDirs().find((s) => s.project === resolvedDir);
+
+      const configured = getConfig().embeddings;
+      const embedder = createEmbeddingProvider(
+        embedding_provider && embedding_provider !== configured.provider
+          ? { provider: embedding_provider, ...(openai_api_key ? { api_key: openai_api_key } : {}) }
+          : { ...configured, ...(openai_api_key ? { api_key: openai_api_key } : {}) },
       );
+      // Appending vectors from another model would leave the project unsearchable
+      if (!reindex) {
+        const mismatch = await embeddingMismatch(project_dir, embedder);
+        if (mismatch) {
+          return { content: [{ type: "text", text: `❌ ${mismatch} Or pass reindex: true to rebuild it from the sources.` }] };
+        }
+      }
+      progress.push(`🧠 Embedding with ${embedder.provider} ${embedder.model} (${embedder.dimensions} dims)`);
 
-      // 3. Determine incremental timestamps
-      let sessionSince: Date | undefined;
-      let gitSince: Date | undefined;
+      // 3. Incremental state: sessions resume from the ledger's byte offsets, git from its ref tips
+      let gitAfter: string[] | undefined;
 
       if (reindex) {
         progress.push("♻️ Reindex requested — rebuilding from scratch");
-        // Drop existing data for this project
+        // Drop the table rather than its rows, so it's recreated at the embedder's vector size
         try {
-          const table = await getEventsTable(project_dir);
-          await table.delete(`project = "${project_dir}"`);
-          // Reset project metadata
+          await dropEventsTable(project_dir);
+          // Reset project metadata (and with it the recorded embedding model)
           const meta = {
             project_dir: project_dir,
             onboarded_at: new Date().toISOString(),
@@ -110,92 +132,99 @@ export function registerOnboardProject(server: McpServer) {
         } catch {
           // Table may not exist yet
         }
+        await saveIngestLedger(project_dir, { files: {} });
       } else {
-        const lastSession = await getLastIndexedTimestamp(projectName, "session");
-        const lastGit = await getLastIndexedTimestamp(projectName, "git");
-        if (lastSession) {
-          sessionSince = new Date(lastSession);
-          progress.push(`📋 Incremental session scan since ${lastSession}`);
-        }
-        if (lastGit) {
-          gitSince = new Date(lastGit);
-          progress.push(`📋 Incremental git scan since ${lastGit}`);
+        const ledger = await loadIngestLedger(project_dir);
+        if (ledger.git) {
+          gitAfter = indexedGitTips(ledger);
+          progress.push(`📋 Incremental git scan past ${gitAfter.length} indexed ref tip(s) (indexed ${ledger.git.indexed_at})`);
         }
       }
 
-      // 4. Parse sessions
-      let sessionEvents: any[] = [];
-      if (projectSession) {
-        progress.push(`📂 Scanning sessions in ${projectSession.sessionDir}`);
-        sessionEvents = parseAllSessions(projectSession.sessionDir, sessionSince ? { since: sessionSince } : undefined);
-        progress.push(`  Found ${sessionEvents.length} new session events`);
-      } else {
-        progress.push("⚠️ No Claude Code session directory found for this project");
-      }
-
-      // 5. Extract git history
+      // 4. Extract git history (small and bounded, so it's read up front to size the progress total)
       let gitSinceDate: Date | undefined;
       if (git_since) {
         gitSinceDate = new Date(git_since);
         progress.push(`📅 Git history since ${git_since}`);
       } else {
         const depthDays = GIT_DEPTH_MAP[git_depth];
-        gitSinceDate = gitSince ?? (depthDays ? new Date(Date.now() - depthDays * 86400000) : undefined);
+        gitSinceDate = depthDays ? new Date(Date.now() - depthDays * 86400000) : undefined;
       }
+      // Recorded whatever the author filter keeps, so filtered-out commits aren't listed again
+      const gitTips = gitRefTips(project_dir);
       let gitEvents = extractGitHistory(project_dir, {
         since: gitSinceDate,
         maxCount: 10000,
+        from: gitTips,
+        after: gitAfter,
       });
 
       // Filter by authors
       if (effectiveAuthors && effectiveAuthors.length > 0) {
-        const authorPatterns = effectiveAuthors.map(a => a.toLowerCase());
         const beforeCount = gitEvents.length;
-        gitEvents = gitEvents.filter((e: any) => {
-          try {
-            const meta = JSON.parse(e.metadata || "{}");
-            const author = (meta.author || "").toLowerCase();
-            return authorPatterns.some(p => author.includes(p));
-          } catch { return true; }
-        });
+        gitEvents = filterCommitsByAuthor(gitEvents, effectiveAuthors);
         progress.push(`👤 Filtered to authors [${effectiveAuthors.join(", ")}]: ${gitEvents.length}/${beforeCount} commits`);
       }
+      // Recorded in the ledger so the watcher indexes new commits the same way
+      const gitScope: GitScope = {
+        ...(effectiveAuthors && effectiveAuthors.length > 0 ? { authors: effectiveAuthors } : {}),
+        ...(gitSinceDate ? { since: gitSinceDate.toISOString() } : {}),
+      };
 
       progress.push(`📦 Found ${gitEvents.length} new git events`);
 
-      const allEvents = [...sessionEvents, ...gitEvents];
-
-      if (allEvents.length === 0) {
-        progress.push("\n✅ No new events to index. Database is up to date.");
-        return { content: [{ type: "text", text: progress.join("\n") }] };
+      // 5. Stream sessions + git through embedding into LanceDB
+      if (projectSession) {
+        progress.push(`📂 Scanning sessions in ${projectSession.sessionDir}`);
+      } else {
+        progress.push("⚠️ No Claude Code session directory found for this project");
       }
 
-      // 6. Embed all events in batches
-      const embedder = createEmbeddingProvider({
-        provider: embedding_provider,
-        apiKey: openai_api_key,
+      const progressToken = extra._meta?.progressToken;
+      const result = await ingestProject({
+        projectDir: project_dir,
+        embedder,
+        ...(projectSession ? { sessionDir: projectSession.sessionDir } : {}),
+        gitEvents,
+        gitTips,
+        gitScope,
+        reset: reindex,
+        signal: extra.signal,
+        onProgress: async (p) => {
+          if (progressToken === undefined) return;
+          await extra.sendNotification({
+            method: "notifications/progress",
+            params: { progressToken, progress: p.progress, total: p.total, message: p.message },
+          });
+        },
       });
+      if (extra.signal.aborted) {
+        progress.push(`\n⏸️ Stopped after storing ${result.events} events. Rerun to resume.`);
+        return { content: [{ type: "text", text: progress.join("\n") }] };
+      }
 
-      const BATCH_SIZE = 50;
-      const totalBatches = Math.ceil(allEvents.length / BATCH_SIZE);
-      progress.push(`\n🧠 Embedding ${allEvents.length} events (${totalBatches} batches)...`);
-
-      for (let i = 0; i < allEvents.length; i += BATCH_SIZE) {
-        const batchNum = Math.floor(i / BATCH_SIZE) + 1;
-        const batch = allEvents.slice(i, i + BATCH_SIZE);
-        const texts = batch.map((e: any) => e.content || e.summary || "");
-        const vectors = await embedder.embedBatch(texts);
-        for (let j = 0; j < batch.length; j++) {
-          (batch[j] as any).vector = vectors[j];
+      if (projectSession) {
+        const sessionEvents = result.events - Math.min(result.events, gitEvents.length);
+        progress.push(
+          `  Read ${result.files} session file(s)${result.resumed > 0 ? ` (${result.resumed} resumed)` : ""}, ${result.unchanged} unchanged — ${sessionEvents} new session events`
+        );
+
+        // corrections.jsonl lives in the server's own project, so only capture for it
+        if (path.resolve(project_dir) === path.resolve(PROJECT_DIR)) {
+          const capture = await captureProjectCorrections();
+          if (capture && capture.captured > 0) {
+            progress.push(`  📝 Captured ${capture.captured} corrections into the correction log (${capture.patterns} patterns)`);
+          }
         }
-        progress.push(`  Embedding batch ${batchNum}/${totalBatches}...`);
       }
 
-      // 7. Insert into LanceDB (specify the project directory)
-      await insertEvents(allEvents, project_dir);
+      if (result.events === 0) {
+        progress.push("\n✅ No new events to index. Database is up to date.");
+        return { content: [{ type: "text", text: progress.join("\n") }] };
+      }
       progress.push("💾 Inserted into database");
 
-      // 8. Extract contracts
+      // 6. Extract contracts
       try {
         const contractResult = extractAndSaveContracts(project_dir);
         progress.push(`📑 Extracted ${contractResult.count} contracts (types, interfaces, routes, schemas)`);
@@ -203,18 +232,18 @@ export function registerOnboardProject(server: McpServer) {
         progress.push(`⚠️ Contract extraction failed: ${err}`);
       }
 
-      // 9. Summary
-      const prompts = allEvents.filter((e: any) => e.type === "prompt").length;
-      const commits = allEvents.filter((e: any) => e.type === "commit").length;
-      const corrections = allEvents.filter((e: any) => e.type === "correction").length;
-      const others = allEvents.length - prompts - commits - corrections;
+      // 7. Summary
+      const prompts = result.byType.prompt ?? 0;
+      const commits = result.byType.commit ?? 0;
+      const corrections = result.byType.correction ?? 0;
+      const others = result.events - prompts - commits - corrections;
 
       // Get total count from project metadata
       const meta = await loadProjectMeta(project_dir);
-      const totalEvents = meta?.event_count ?? allEvents.length;
+      const totalEvents = meta?.event_count ?? result.events;
 
       progress.push(
-        `\n✅ Indexed **${allEvents.length}** new events (${prompts} prompts, ${commits} commits, ${corrections} corrections${others > 0 ? `, ${others} other` : ""}). Total: **${totalEvents}** events.`
+        `\n✅ Indexed **${result.events}** new events (${prompts} prompts, ${commits} commits, ${corrections} corrections${others > 0 ? `, ${others} other` : ""}). Total: **${totalEvents}** events.`
       );
 
       return { content: [{ type: "text", text: progress.join("\n") }] };
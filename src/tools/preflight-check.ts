@@ -1,7 +1,10 @@
 // Unified preflight_check — single entry point that triages and chains tools
 import { z } from "zod";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { triagePrompt, type TriageLevel, type TriageResult } from "../lib/triage.js";
+import { formatConfidence, type AmbiguousTarget } from "../lib/triage.js";
+import { assessPrompt, extractFilePaths, findClarificationIssues } from "../lib/prompt-gate.js";
+import { formatSimilarity } from "../lib/patterns.js";
+import { formatFileCorrection } from "../lib/corrections.js";
 import { existsSync, statSync } from "fs";
 import { resolve } from "path";
 import { PROJECT_DIR } from "../lib/files.js";
@@ -11,32 +14,130 @@ import { findWorkspaceDocs } from "../lib/files.js";
 import { getConfig } from "../lib/config.js";
 import { searchSemantic } from "../lib/timeline-db.js";
 import { basename, join } from "path";
-import { loadPatterns, matchPatterns, formatPatternMatches } from "../lib/patterns.js";
+import {
+  outputFormatParam,
+  renderResult,
+  triageLevelSchema,
+  clarifyQuestionSchema,
+  elicitationStatusSchema,
+  ambiguousTargetSchema,
+} from "../lib/output.js";
+import {
+  buildClarifyQuestions,
+  elicitClarification,
+  formatClarifyQuestions,
+  type ClarifyQuestion,
+} from "../lib/clarify.js";
 
 // ---------------------------------------------------------------------------
-// Helpers
+// Types
 // ---------------------------------------------------------------------------
 
-/** Extract file paths from prompt text */
-function extractFilePaths(prompt: string): string[] {
-  const matches = prompt.match(/[\w\-./\\]+\.\w{1,6}/g) || [];
-  return [...new Set(matches)];
+interface FileCheck {
+  path: string;
+  exists: boolean;
+  size?: number;
+  modified?: string;
+}
+
+interface RelatedHit {
+  project: string;
+  content: string;
+  source_file?: string;
 }
 
+type ScopeSize = "SMALL" | "MEDIUM" | "LARGE";
+
+interface SequenceStep {
+  step: number;
+  description: string;
+  risk: "HIGH" | "MEDIUM" | "LOW";
+}
+
+const triageResultSchema = z.object({
+  level: triageLevelSchema,
+  confidence: z.number().optional(),
+  reasons: z.array(z.string()),
+  recommended_tools: z.array(z.string()),
+  cross_service_hits: z.array(z.string()).optional(),
+  ambiguous_targets: z.array(ambiguousTargetSchema).optional(),
+  source: z.enum(["classifier", "keyword", "heuristic", "model"]).optional(),
+});
+
+const fileCheckSchema = z.object({
+  path: z.string(),
+  exists: z.boolean(),
+  size: z.number().optional(),
+  modified: z.string().optional(),
+});
+
+/** The preflight report, returned as structured content. */
+const preflightReportSchema = z.object({
+  timestamp: z.string(),
+  /** Level after force_level and pattern boosts — what the sections below are based on. */
+  level: triageLevelSchema,
+  /** true when the prompt is clear to run as-is. */
+  proceed: z.boolean(),
+  triage: triageResultSchema.nullable(),
+  pattern_matches: z.array(z.object({
+    id: z.string(),
+    pattern: z.string(),
+    frequency: z.number(),
+    similarity: z.number(),
+    method: z.enum(["embedding", "keyword"]),
+  })),
+  file_corrections: z.array(z.object({
+    file: z.string(),
+    count: z.number(),
+    lastSeen: z.string(),
+    user_said: z.string(),
+    undone: z.object({ kind: z.enum(["reverted", "rewritten"]), hunk: z.string() }).optional(),
+  })),
+  file_verification: z.array(fileCheckSchema),
+  clarification: z.object({
+    branch: z.string(),
+    dirty_files: z.number(),
+    issues: z.array(z.string()),
+    ambiguous_targets: z.array(ambiguousTargetSchema),
+    questions: z.array(clarifyQuestionSchema),
+    /** Elicitation result, when the questions were put to the user. */
+    elicitation: elicitationStatusSchema.optional(),
+    answers: z.record(z.string(), z.string()).optional(),
+    /** The prompt rewritten with the user's answers. */
+    sharpened_prompt: z.string().optional(),
+  }).optional(),
+  related_projects: z.array(z.object({ alias: z.string(), path: z.string() })),
+  related_hits: z.array(z.object({ project: z.string(), content: z.string(), source_file: z.string().optional() })),
+  scope: z.enum(["SMALL", "MEDIUM", "LARGE"]).optional(),
+  sequence: z.array(z.object({ step: z.number(), description: z.string(), risk: z.enum(["HIGH", "MEDIUM", "LOW"]) })).optional(),
+});
+
+type PreflightReport = z.infer<typeof preflightReportSchema>;
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
 /** Verify files exist and return stats */
-function verifyFiles(paths: string[]): string[] {
-  const lines: string[] = [];
+function verifyFiles(paths: string[]): FileCheck[] {
+  const checks: FileCheck[] = [];
   for (const p of paths) {
     const abs = resolve(PROJECT_DIR, p);
     if (!abs.startsWith(resolve(PROJECT_DIR))) continue; // path traversal guard
     if (existsSync(abs)) {
       const s = statSync(abs);
-      lines.push(`✅ \`${p}\` — ${s.size} bytes, modified ${s.mtime.toISOString().slice(0, 16)}`);
+      checks.push({ path: p, exists: true, size: s.size, modified: s.mtime.toISOString() });
     } else {
-      lines.push(`❌ \`${p}\` — not found`);
+      checks.push({ path: p, exists: false });
     }
   }
-  return lines;
+  return checks;
+}
+
+function formatFileChecks(checks: FileCheck[]): string[] {
+  return checks.map(c => c.exists
+    ? `✅ \`${c.path}\` — ${c.size} bytes, modified ${c.modified!.slice(0, 16)}`
+    : `❌ \`${c.path}\` — not found`);
 }
 
 /** Get related project paths from config + env */
@@ -59,9 +160,9 @@ function getRelatedProjects(): { alias: string; path: string }[] {
 }
 
 /** Search related projects for relevant context */
-async function searchRelated(prompt: string, projects: { alias: string; path: string }[]): Promise<string[]> {
+async function searchRelated(prompt: string, projects: { alias: string; path: string }[]): Promise<RelatedHit[]> {
   if (projects.length === 0) return [];
-  const results: string[] = [];
+  const results: RelatedHit[] = [];
 
   for (const query of [`${prompt} type interface schema`, `${prompt} API endpoint`]) {
     try {
@@ -70,10 +171,11 @@ async function searchRelated(prompt: string, projects: { alias: string; path: st
         limit: 3,
       });
       for (const hit of hits) {
-        const name = basename(hit.project);
-        const content = hit.content.slice(0, 200);
-        const file = hit.source_file ? ` (${hit.source_file})` : "";
-        results.push(`- **${name}:** ${content}${file}`);
+        results.push({
+          project: basename(hit.project),
+          content: hit.content.slice(0, 200),
+          ...(hit.source_file ? { source_file: hit.source_file } : {}),
+        });
       }
     } catch { /* skip */ }
   }
@@ -82,7 +184,11 @@ async function searchRelated(prompt: string, projects: { alias: string; path: st
 }
 
 /** Inline clarify logic — extracts intent signals and git state */
-function buildClarifySection(prompt: string): string[] {
+function buildClarifySection(
+  prompt: string,
+  targets: AmbiguousTarget[] = [],
+  questions: ClarifyQuestion[] = [],
+): { sections: string[]; data: NonNullable<PreflightReport["clarification"]> } {
   const sections: string[] = [];
   const branch = getBranch();
   const status = getStatus();
@@ -104,41 +210,46 @@ function buildClarifySection(prompt: string): string[] {
   }
 
   // Ambiguity signals
-  const issues: string[] = [];
-  if (/\b(it|them|the thing|that|those|this|these)\b/i.test(prompt)) issues.push("Contains vague pronouns — clarify what 'it'/'them' refers to");
-  if (/\b(fix|update|change|refactor|improve)\b/i.test(prompt) && !extractFilePaths(prompt).length) issues.push("Vague verb without specific file targets");
-  if (prompt.trim().length < 40) issues.push("Very short prompt — likely missing context");
+  const issues = findClarificationIssues(prompt);
 
   if (issues.length > 0) {
     sections.push(`### ⚠️ Clarification Needed\n${issues.map(i => `- ${i}`).join("\n")}`);
   }
 
-  return sections;
+  // Multiple-choice questions: ambiguous nouns, "it", branches, recent errors
+  sections.push(...formatClarifyQuestions(questions));
+
+  return {
+    sections,
+    data: { branch, dirty_files: dirtyCount, issues, ambiguous_targets: targets, questions },
+  };
 }
 
 /** Build scope section for multi-step */
-function buildScopeSection(prompt: string): string[] {
+function buildScopeSection(prompt: string): { sections: string[]; files: FileCheck[]; size: ScopeSize } {
   const sections: string[] = [];
   const filePaths = extractFilePaths(prompt);
   const fileVerification = verifyFiles(filePaths);
 
   if (fileVerification.length > 0) {
-    sections.push(`### Referenced Files\n${fileVerification.join("\n")}`);
+    sections.push(`### Referenced Files\n${formatFileChecks(fileVerification).join("\n")}`);
   }
 
   // Estimate complexity
   const hasMultipleFiles = filePaths.length > 3;
   const hasMultipleDirs = new Set(filePaths.map(f => f.split("/")[0])).size > 2;
-  const complexity = hasMultipleFiles && hasMultipleDirs ? "LARGE" : filePaths.length > 1 ? "MEDIUM" : "SMALL";
+  const complexity: ScopeSize = hasMultipleFiles && hasMultipleDirs ? "LARGE" : filePaths.length > 1 ? "MEDIUM" : "SMALL";
   sections.push(`### Scope: ${complexity}`);
 
-  return sections;
+  return { sections, files: fileVerification, size: complexity };
 }
 
+const RISK_ICONS: Record<SequenceStep["risk"], string> = { HIGH: "🔴", MEDIUM: "🟡", LOW: "🟢" };
+
 /** Build sequence section for multi-step */
-function buildSequenceSection(prompt: string): string[] {
+function buildSequenceSection(prompt: string): { sections: string[]; steps: SequenceStep[] } {
   // Split prompt into sub-tasks
-  const subtasks: string[] = [];
+  const steps: SequenceStep[] = [];
 
   // Split on "and", "then", numbered lists, bullet points
   const parts = prompt
@@ -148,23 +259,24 @@ function buildSequenceSection(prompt: string): string[] {
 
   if (parts.length > 1) {
     for (let i = 0; i < parts.length; i++) {
-      const risk = /schema|migrat|database|config|env|deploy/i.test(parts[i]) ? "🔴 HIGH" :
-                   /api|route|endpoint/i.test(parts[i]) ? "🟡 MEDIUM" : "🟢 LOW";
-      subtasks.push(`${i + 1}. ${parts[i].charAt(0).toUpperCase() + parts[i].slice(1)} — Risk: ${risk}`);
+      const risk = /schema|migrat|database|config|env|deploy/i.test(parts[i]) ? "HIGH" :
+                   /api|route|endpoint/i.test(parts[i]) ? "MEDIUM" : "LOW";
+      steps.push({ step: i + 1, description: parts[i].charAt(0).toUpperCase() + parts[i].slice(1), risk });
     }
   } else {
-    subtasks.push(`1. ${prompt.slice(0, 100)} — Risk: 🟡 MEDIUM`);
+    steps.push({ step: 1, description: prompt.slice(0, 100), risk: "MEDIUM" });
   }
 
-  return [
+  const sections = [
     `### Execution Plan`,
-    ...subtasks,
+    ...steps.map(s => `${s.step}. ${s.description} — Risk: ${RISK_ICONS[s.risk]} ${s.risk}`),
     "",
     "### Checkpoints",
     "- [ ] Verify after each step before proceeding",
     "- [ ] Run tests between steps that touch different layers",
     "- [ ] Commit after each successful step",
   ];
+  return { sections, steps };
 }
 
 // ---------------------------------------------------------------------------
@@ -172,54 +284,58 @@ function buildSequenceSection(prompt: string): string[] {
 // ---------------------------------------------------------------------------
 
 export function registerPreflightCheck(server: McpServer): void {
-  server.tool(
+  server.registerTool(
     "preflight_check",
-    "Run a preflight check on your prompt before Claude starts working. Catches vague instructions, surfaces missing context from related services, and builds execution plans for complex tasks.",
     {
-      prompt: z.string().describe("The user's prompt to check"),
-      force_level: z.enum(["skip", "light", "full"]).optional().describe("Override triage — skip passes through, light does clarify only, full does everything"),
+      description: "Run a preflight check on your prompt before Claude starts working. Catches vague instructions, surfaces missing context from related services, and builds execution plans for complex tasks.",
+      inputSchema: {
+        prompt: z.string().describe("The user's prompt to check"),
+        force_level: z.enum(["skip", "light", "full"]).optional().describe("Override triage — skip passes through, light does clarify only, full does everything"),
+        interactive: z.boolean().default(true).describe("For ambiguous prompts, ask the clarification questions through MCP elicitation (when the client supports it) and return a sharpened prompt"),
+        output_format: outputFormatParam,
+      },
+      outputSchema: preflightReportSchema,
     },
-    async ({ prompt, force_level }) => {
+    async ({ prompt, force_level, interactive, output_format }) => {
       const ts = now();
+      const report: PreflightReport = {
+        timestamp: ts,
+        level: "trivial",
+        proceed: true,
+        triage: null,
+        pattern_matches: [],
+        file_corrections: [],
+        file_verification: [],
+        related_projects: [],
+        related_hits: [],
+      };
+      const done = (text: string) => renderResult(text, { ...report }, output_format);
 
       // --- Force level overrides ---
       if (force_level === "skip") {
-        return { content: [{ type: "text" as const, text: "✅ Preflight: clear to proceed." }] };
+        return done("✅ Preflight: clear to proceed.");
       }
 
-      // --- Triage ---
-      const preflightConfig = getConfig();
-      const triageConfig = {
-        alwaysCheck: preflightConfig.triage.rules.always_check,
-        skip: preflightConfig.triage.rules.skip,
-        crossServiceKeywords: preflightConfig.triage.rules.cross_service_keywords,
-        strictness: preflightConfig.triage.strictness,
-        relatedAliases: preflightConfig.related_projects.map(p => p.alias),
-      };
-      const triage = triagePrompt(prompt, triageConfig);
-      let effectiveLevel: TriageLevel = triage.level;
+      // --- Triage + pattern matching (shared with the UserPromptSubmit hook) ---
+      const { triage, level: effectiveLevel, pattern_matches: patternMatches, file_corrections: fileCorrections } =
+        await assessPrompt(prompt, { forceLevel: force_level });
 
-      if (force_level === "light") effectiveLevel = "ambiguous";
-      if (force_level === "full") effectiveLevel = "multi-step";
-
-      // --- Pattern matching ---
-      const patterns = loadPatterns();
-      const patternMatches = matchPatterns(prompt, patterns);
-
-      // Boost triage level if patterns match
-      if (patternMatches.length > 0 && effectiveLevel === "trivial") {
-        effectiveLevel = "ambiguous";
-        triage.reasons.push(`matches ${patternMatches.length} known correction pattern(s)`);
-      }
+      report.triage = triage;
+      report.level = effectiveLevel;
+      report.proceed = effectiveLevel === "trivial" || effectiveLevel === "clear";
+      report.pattern_matches = patternMatches.map(p => ({
+        id: p.id, pattern: p.pattern, frequency: p.frequency, similarity: p.similarity, method: p.method,
+      }));
+      report.file_corrections = fileCorrections;
 
       // --- Trivial ---
       if (effectiveLevel === "trivial") {
-        return { content: [{ type: "text" as const, text: "✅ Preflight: clear to proceed." }] };
+        return done("✅ Preflight: clear to proceed.");
       }
 
       const sections: string[] = [
         `# 🛫 Preflight Check`,
-        `_${ts} | Triage: **${effectiveLevel}** (confidence: ${triage.confidence.toFixed(2)})_`,
+        `_${ts} | Triage: **${effectiveLevel}**${formatConfidence(triage)}_`,
         `_Reasons: ${triage.reasons.join("; ")}_`,
       ];
 
@@ -227,38 +343,59 @@ export function registerPreflightCheck(server: McpServer): void {
       if (patternMatches.length > 0) {
         sections.push("");
         for (const p of patternMatches) {
-          sections.push(`⚡ Known pitfall: "${p.pattern}" (you've corrected this ${p.frequency}x before)`);
+          sections.push(`⚡ Known pitfall: "${p.pattern}" (you've corrected this ${p.frequency}x before; ${formatSimilarity(p)})`);
         }
       }
+      if (fileCorrections.length > 0) {
+        sections.push("");
+        for (const fc of fileCorrections) sections.push(`⚡ ${formatFileCorrection(fc)}`);
+      }
 
       // --- Clear: verify files ---
       if (effectiveLevel === "clear") {
-        const filePaths = extractFilePaths(prompt);
-        const verification = verifyFiles(filePaths);
-        if (verification.length > 0) {
-          sections.push("", "## File Verification", ...verification);
+        report.file_verification = verifyFiles(extractFilePaths(prompt));
+        if (report.file_verification.length > 0) {
+          sections.push("", "## File Verification", ...formatFileChecks(report.file_verification));
         }
         sections.push("", "✅ Preflight: clear to proceed.");
-        return { content: [{ type: "text" as const, text: sections.join("\n") }] };
+        return done(sections.join("\n"));
       }
 
       // --- Ambiguous+: clarify ---
-      sections.push("", "## Clarification", ...buildClarifySection(prompt));
+      const questions = await buildClarifyQuestions(prompt, { targets: triage.ambiguous_targets });
+      const clarify = buildClarifySection(prompt, triage.ambiguous_targets, questions);
+      report.clarification = clarify.data;
 
       if (effectiveLevel === "ambiguous") {
-        return { content: [{ type: "text" as const, text: sections.join("\n") }] };
+        if (interactive && questions.length > 0) {
+          const outcome = await elicitClarification(server, prompt, questions);
+          report.clarification.elicitation = outcome.status;
+          if (outcome.sharpened) {
+            report.clarification.answers = outcome.answers;
+            report.clarification.sharpened_prompt = outcome.sharpened;
+            report.proceed = true;
+            sections.push("", "## Sharpened Prompt", "```", outcome.sharpened, "```", "", "✅ Preflight: proceed with the sharpened prompt.");
+            return done(sections.join("\n"));
+          }
+        }
+        sections.push("", "## Clarification", ...clarify.sections);
+        return done(sections.join("\n"));
       }
 
+      sections.push("", "## Clarification", ...clarify.sections);
+
       // --- Cross-service: clarify + related projects ---
       const relatedProjects = getRelatedProjects();
+      report.related_projects = relatedProjects;
       if (effectiveLevel === "cross-service" || effectiveLevel === "multi-step") {
         if (relatedProjects.length > 0) {
           sections.push("", `## Related Services (${relatedProjects.length} configured)`);
           sections.push(relatedProjects.map(p => `- **${p.alias}:** \`${p.path}\``).join("\n"));
 
-          const relatedContext = await searchRelated(prompt, relatedProjects);
-          if (relatedContext.length > 0) {
-            sections.push("", "### Relevant Context from Related Projects", ...relatedContext);
+          report.related_hits = await searchRelated(prompt, relatedProjects);
+          if (report.related_hits.length > 0) {
+            sections.push("", "### Relevant Context from Related Projects",
+              ...report.related_hits.map(h => `- **${h.project}:** ${h.content}${h.source_file ? ` (${h.source_file})` : ""}`));
           }
 
           if (triage.cross_service_hits && triage.cross_service_hits.length > 0) {
@@ -267,16 +404,22 @@ export function registerPreflightCheck(server: McpServer): void {
         }
       }
 
+      const scope = buildScopeSection(prompt);
+      report.file_verification = scope.files;
+      report.scope = scope.size;
+
       if (effectiveLevel === "cross-service") {
-        sections.push("", ...buildScopeSection(prompt));
-        return { content: [{ type: "text" as const, text: sections.join("\n") }] };
+        sections.push("", ...scope.sections);
+        return done(sections.join("\n"));
       }
 
       // --- Multi-step: clarify + scope + sequence ---
-      sections.push("", "## Scope", ...buildScopeSection(prompt));
-      sections.push("", "## Sequence", ...buildSequenceSection(prompt));
+      const sequence = buildSequenceSection(prompt);
+      report.sequence = sequence.steps;
+      sections.push("", "## Scope", ...scope.sections);
+      sections.push("", "## Sequence", ...sequence.sections);
 
-      return { content: [{ type: "text" as const, text: sections.join("\n") }] };
+      return done(sections.join("\n"));
     }
   );
 }
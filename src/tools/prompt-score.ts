@@ -7,6 +7,7 @@ import { z } from "zod";
 import { readFile, writeFile, mkdir } from "node:fs/promises";
 import { join } from "node:path";
 import { homedir } from "node:os";
+import { rewritePrompt } from "../lib/prompt-rewrite.js";
 
 interface ScoreHistory {
   scores: number[];
@@ -47,8 +48,8 @@ function scorePrompt(text: string): ScoreResult {
   let actionability = 0;
   let doneCondition = 0;
 
-  // Specificity: file paths, function names, specific identifiers
-  if (/[\/\\][\w.-]+\.\w+/.test(text) || /`[^`]+`/.test(text)) {
+  // Specificity: file paths, function names, specific identifiers (a `<placeholder>` names nothing)
+  if (/[\/\\][\w.-]+\.\w+/.test(text.replace(/<[^>]*>/g, "")) || /`(?!<[^`]*>`)[^`]+`/.test(text)) {
     specificity = 25;
   } else if (/\b(file|component|function|class|module|test|route)\b/i.test(text)) {
     specificity = 15;
@@ -115,11 +116,12 @@ function scorePrompt(text: string): ScoreResult {
 export function registerPromptScore(server: McpServer): void {
   server.tool(
     "prompt_score",
-    "Score a prompt on specificity, scope, actionability, and done-condition. Returns a letter grade with specific improvement tips.",
+    "Score a prompt on specificity, scope, actionability, and done-condition. Returns a letter grade with specific improvement tips, plus a rewritten prompt that fixes the weak dimensions using repo context and its score delta.",
     {
       prompt: z.string().describe("The prompt text to score"),
+      rewrite: z.boolean().default(true).describe("Also produce an improved prompt (uses dirty files, recent commits, and matched contracts)"),
     },
-    async ({ prompt }) => {
+    async ({ prompt, rewrite }) => {
       const result = scorePrompt(prompt);
       const history = await loadHistory();
       history.scores.push(result.total);
@@ -140,10 +142,34 @@ export function registerPromptScore(server: McpServer): void {
         ...result.feedback,
         ``,
         `Session average: ${avg}/100 (${history.scores.length} prompts scored)`,
-      ].join("\n");
+      ];
+
+      if (rewrite && result.total < 100) {
+        const { rewritten, evidenced, changes } = rewritePrompt(prompt, {
+          specificity: result.specificity < 25,
+          scope: result.scope < 25,
+          actionability: result.actionability < 25,
+          doneCondition: result.doneCondition < 25,
+        });
+        // Placeholders and generic lines would hit the keywords without saying anything
+        const after = scorePrompt(evidenced);
+        const delta = (a: number, b: number) => (b - a >= 0 ? `+${b - a}` : `${b - a}`);
+        report.push(
+          ``,
+          `✏️ Rewritten prompt: ${after.grade} (${after.total}/100, ${delta(result.total, after.total)})`,
+          `────────────────────────`,
+          rewritten,
+          `────────────────────────`,
+          `Specificity ${delta(result.specificity, after.specificity)} · Scope ${delta(result.scope, after.scope)} · Actionability ${delta(result.actionability, after.actionability)} · Done condition ${delta(result.doneCondition, after.doneCondition)}`,
+          ...changes,
+          ...(evidenced !== rewritten
+            ? [`Placeholders and generic lines aren't scored — fill them in with specifics to earn those points.`]
+            : []),
+        );
+      }
 
       return {
-        content: [{ type: "text" as const, text: report }],
+        content: [{ type: "text" as const, text: report.join("\n") }],
       };
     }
   );
@@ -0,0 +1,60 @@
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import * as fs from "fs";
+import * as path from "path";
+import { getEmbedder, describeEmbedding } from "../lib/timeline-db.js";
+import { reembedProject } from "../lib/reembed.js";
+
+export function registerReembedProject(server: McpServer) {
+  server.tool(
+    "reembed_project",
+    "Re-vectorize an onboarded project's stored events with the embedding model configured in .preflight/config.yml, after switching models. Works from the stored text — sessions and git history aren't re-read. Resumable: rerun after an interruption to continue.",
+    {
+      project_dir: z.string().describe("Absolute path to the project directory"),
+      batch_size: z.number().int().min(1).max(1000).default(100).describe("Events per embedding request and database write"),
+      force: z.boolean().default(false).describe("Re-embed even if the project is already on the configured model"),
+    },
+    async (params, extra) => {
+      const { project_dir, batch_size, force } = params;
+
+      if (!fs.existsSync(project_dir)) {
+        return { content: [{ type: "text", text: `❌ Directory not found: ${project_dir}` }] };
+      }
+
+      const projectName = path.basename(project_dir);
+      const progressToken = extra._meta?.progressToken;
+      let result;
+      try {
+        result = await reembedProject({
+          projectDir: project_dir,
+          embedder: await getEmbedder(),
+          batchSize: batch_size,
+          force,
+          signal: extra.signal,
+          onProgress: async (p) => {
+            if (progressToken === undefined) return;
+            await extra.sendNotification({
+              method: "notifications/progress",
+              params: { progressToken, progress: p.progress, total: p.total, message: p.message },
+            });
+          },
+        });
+      } catch (err) {
+        return { content: [{ type: "text", text: `❌ Re-embedding ${projectName} failed: ${err instanceof Error ? err.message : err}. Rerun to resume — rows already re-embedded are kept.` }] };
+      }
+
+      const to = describeEmbedding(result.to);
+      if (result.status === "already") {
+        return { content: [{ type: "text", text: `✅ **${projectName}** is already embedded with ${to}. Pass force: true to re-embed anyway.` }] };
+      }
+      if (result.status === "interrupted") {
+        return { content: [{ type: "text", text: `⏸️ Re-embedding **${projectName}** stopped at ${result.resumed + result.embedded}/${result.total} events. Rerun to resume.` }] };
+      }
+
+      const lines = [`✅ Re-embedded **${result.total}** events of **${projectName}**`];
+      lines.push(`🧠 ${result.from ? describeEmbedding(result.from) : "no previous vectors"} → ${to}`);
+      if (result.resumed > 0) lines.push(`📋 Resumed: ${result.resumed} events were re-embedded by an earlier run`);
+      return { content: [{ type: "text", text: lines.join("\n") }] };
+    }
+  );
+}
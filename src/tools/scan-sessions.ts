@@ -1,8 +1,6 @@
 import { z } from "zod";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import * as fs from "fs";
-import * as path from "path";
-import { findSessionDirs, findSessionFiles } from "../lib/session-parser.js";
+import { listSessionFiles, loadSession, readSessionBranch } from "../lib/session-model.js";
 
 interface SessionInfo {
   project: string;
@@ -12,7 +10,9 @@ interface SessionInfo {
   mtime: Date;
   size: number;
   branch?: string;
-  lastMessage?: string;
+  /** Last N prompts/assistant replies, oldest first. */
+  lastMessages: string[];
+  /** Only counted when messages are listed or sorted on. */
   messageCount?: number;
 }
 
@@ -32,53 +32,6 @@ function formatSize(bytes: number): string {
   return `${(bytes / (1024 * 1024)).toFixed(1)}MB`;
 }
 
-function readLastLines(filePath: string, n: number): string[] {
-  try {
-    const content = fs.readFileSync(filePath, "utf-8");
-    const lines = content.trim().split("\n");
-    return lines.slice(-n);
-  } catch {
-    return [];
-  }
-}
-
-function readFirstLine(filePath: string): string | null {
-  try {
-    const fd = fs.openSync(filePath, "r");
-    const buf = Buffer.alloc(4096);
-    const bytesRead = fs.readSync(fd, buf, 0, 4096, 0);
-    fs.closeSync(fd);
-    const text = buf.toString("utf-8", 0, bytesRead);
-    const nl = text.indexOf("\n");
-    return nl >= 0 ? text.slice(0, nl) : text;
-  } catch {
-    return null;
-  }
-}
-
-function extractBranchFromSession(firstLine: string | null): string | undefined {
-  if (!firstLine) return undefined;
-  try {
-    const obj = JSON.parse(firstLine);
-    return obj.branch || obj.metadata?.branch;
-  } catch {
-    return undefined;
-  }
-}
-
-function extractMessageContent(line: string): string | undefined {
-  try {
-    const obj = JSON.parse(line);
-    if (obj.type === "human" || obj.type === "prompt") return obj.content?.slice(0, 120);
-    if (obj.type === "assistant") return obj.content?.slice(0, 120);
-    if (obj.message?.content) return obj.message.content.slice(0, 120);
-    if (typeof obj.content === "string") return obj.content.slice(0, 120);
-  } catch {
-    // not JSON
-  }
-  return undefined;
-}
-
 export function registerScanSessions(server: McpServer) {
   server.tool(
     "scan_sessions",
@@ -90,52 +43,44 @@ export function registerScanSessions(server: McpServer) {
       sort: z.enum(["recent", "size", "messages"]).default("recent"),
     },
     async (params) => {
-      const allDirs = findSessionDirs();
-      const filtered = params.project
-        ? allDirs.filter(
-            (d) =>
-              d.projectName === params.project ||
-              d.project === params.project ||
-              d.projectName.toLowerCase().includes(params.project!.toLowerCase())
-          )
-        : allDirs;
-
-      if (filtered.length === 0) {
+      const files = listSessionFiles(params.project ? { project: params.project } : {});
+
+      if (files.length === 0) {
         return { content: [{ type: "text", text: "## Sessions\n_No session directories found._" }] };
       }
 
-      // Gather all sessions
+      // Gather all sessions; transcripts are only parsed when their messages are needed
+      const parse = params.include_messages > 0 || params.sort === "messages";
       const sessions: SessionInfo[] = [];
-      for (const dir of filtered) {
-        const files = findSessionFiles(dir.sessionDir);
-        for (const f of files) {
-          let size = 0;
+      for (const f of files) {
+        const info: SessionInfo = {
+          project: f.project,
+          projectName: f.projectName,
+          sessionId: f.sessionId,
+          path: f.path,
+          mtime: f.mtime,
+          size: f.size,
+          lastMessages: [],
+        };
+        if (parse) {
+          let session;
           try {
-            size = fs.statSync(f.path).size;
-          } catch {}
-
-          const firstLine = readFirstLine(f.path);
-          const branch = extractBranchFromSession(firstLine);
-
-          const info: SessionInfo = {
-            project: dir.project,
-            projectName: dir.projectName,
-            sessionId: f.sessionId,
-            path: f.path,
-            mtime: f.mtime,
-            size,
-            branch,
-          };
-
-          if (params.include_messages > 0) {
-            const lastLines = readLastLines(f.path, params.include_messages);
-            const messages = lastLines.map(extractMessageContent).filter(Boolean) as string[];
-            info.lastMessage = messages[messages.length - 1];
-            info.messageCount = messages.length;
+            session = await loadSession(f);
+          } catch {
+            continue;
           }
-
-          sessions.push(info);
+          const messages = session.events.filter(
+            (e) => e.type === "prompt" || e.type === "correction" || e.type === "assistant"
+          );
+          info.branch = session.branch || undefined;
+          info.lastMessages = params.include_messages > 0
+            ? messages.slice(-params.include_messages).map((e) => e.content_preview)
+            : [];
+          info.messageCount = messages.length;
+        } else {
+          info.branch = readSessionBranch(f.path);
         }
+        sessions.push(info);
       }
 
       const now = Date.now();
@@ -153,7 +98,7 @@ export function registerScanSessions(server: McpServer) {
       // Sort
       if (params.sort === "recent") visible.sort((a, b) => b.mtime.getTime() - a.mtime.getTime());
       else if (params.sort === "size") visible.sort((a, b) => b.size - a.size);
-      else visible.sort((a, b) => (b.messageCount || 0) - (a.messageCount || 0));
+      else visible.sort((a, b) => (b.messageCount ?? 0) - (a.messageCount ?? 0));
 
       // Group by project
       const byProject = new Map<string, SessionInfo[]>();
@@ -178,8 +123,8 @@ export function registerScanSessions(server: McpServer) {
 
           lines.push(`${prefix} **${s.sessionId.slice(0, 8)}** — ${branch} — Last active: ${age} — ${size}`);
 
-          if (s.lastMessage) {
-            lines.push(`   Last: "${s.lastMessage}"`);
+          for (const message of s.lastMessages) {
+            lines.push(`   Last: "${message}"`);
           }
         }
 
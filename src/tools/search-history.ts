@@ -1,7 +1,10 @@
 import { z } from "zod";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { searchSemantic, listIndexedProjects } from "../lib/timeline-db.js";
-import { getRelatedProjects } from "../lib/config.js";
+import { searchSemantic, searchHybrid, listIndexedProjects, type HybridMatch } from "../lib/timeline-db.js";
+import { getConfig, getRelatedProjects } from "../lib/config.js";
+import { rerankCandidates, type RerankScore } from "../lib/reranker.js";
+import { expandThreads, type Thread } from "../lib/threads.js";
+import { parseSessionSummary, formatSessionSummary, formatSessionSpan } from "../lib/session-summary.js";
 import type { SearchScope } from "../types.js";
 
 const RELATIVE_DATE_RE = /^(\d+)(days?|weeks?|months?|years?)$/;
@@ -25,11 +28,85 @@ const TYPE_BADGES: Record<string, string> = {
   correction: "❌ correction",
   commit: "📦 commit",
   tool_call: "🔧 tool_call",
+  tool_result: "📤 tool_result",
   compaction: "🗜️ compaction",
   sub_agent_spawn: "🚀 sub_agent_spawn",
   error: "⚠️ error",
+  session_summary: "🧵 session",
 };
 
+const SNIPPET_CHARS = 200;
+/** Per-event text in an expanded thread. */
+const THREAD_LINE_CHARS = 160;
+/** Context kept before the first matched term in a snippet. */
+const SNIPPET_LEAD = 60;
+
+/** Query terms as the full-text index tokenizes them: alphanumeric runs, lowercased. */
+function queryTerms(query: string): string[] {
+  return [...new Set(query.toLowerCase().match(/[a-z0-9]+/g) ?? [])].filter((t) => t.length >= 2);
+}
+
+/**
+ * A window of `content` around the first query term it contains, with every
+ * term in the window in bold. Content with no term in it (a purely semantic
+ * match) is shown from the start.
+ */
+function highlightSnippet(content: string, terms: string[]): string {
+  const text = content.replace(/\s+/g, " ").trim();
+  if (terms.length === 0) return text.slice(0, SNIPPET_CHARS);
+  // Whole tokens only, matching the index: "diff" doesn't light up inside "getDiffFiles"
+  const termRe = new RegExp(`(?<![A-Za-z0-9])(?:${terms.join("|")})(?![A-Za-z0-9])`, "gi");
+
+  const first = text.search(termRe);
+  const start = first > SNIPPET_LEAD ? first - SNIPPET_LEAD : 0;
+  const window = text.slice(start, start + SNIPPET_CHARS);
+  const marked = window.replace(termRe, (m) => `**${m}**`);
+  return `${start > 0 ? "…" : ""}${marked}${start + SNIPPET_CHARS < text.length ? "…" : ""}`;
+}
+
+/** "keyword #1 (BM25 12.4) + semantic #3 (0.71)" */
+function explainMatch(match: HybridMatch): string {
+  const parts: string[] = [];
+  if (match.keyword) parts.push(`keyword #${match.keyword.rank} (BM25 ${match.keyword.bm25.toFixed(1)})`);
+  if (match.vector) parts.push(`semantic #${match.vector.rank} (${match.vector.similarity.toFixed(2)})`);
+  return parts.join(" + ");
+}
+
+/** "0.87 × 1.30 correction × 1.12 recency = 1.27" */
+function explainRerank(score: RerankScore, type: string): string {
+  const parts = [score.relevance.toFixed(2)];
+  if (score.typeBoost !== 1) parts.push(`${score.typeBoost.toFixed(2)} ${type}`);
+  if (score.recencyBoost > 1.005) parts.push(`${score.recencyBoost.toFixed(2)} recency`);
+  return parts.length > 1 ? `${parts.join(" × ")} = ${score.final.toFixed(2)}` : parts[0];
+}
+
+function formatTimestamp(timestamp: string | undefined): string {
+  return timestamp ? new Date(timestamp).toISOString().replace("T", " ").slice(0, 16) : "unknown";
+}
+
+/** "📦 a1b2c3d fix: ledger rounding (by hash)" per linked commit */
+function formatCommits(thread: Thread): string[] {
+  return thread.commits.map(({ event, linkedBy }) => {
+    const hash = event.source_file.replace(/^git:/, "").slice(0, 7);
+    const subject = event.content.split("\n")[0].slice(0, 80);
+    return `- 📦 ${hash} ${subject} _(${linkedBy === "hash" ? "committed in session" : "committed during session"})_`;
+  });
+}
+
+/** The hit in context: one line per event, the hit marked ▶ */
+function formatThread(thread: Thread): string[] {
+  const lines: string[] = [];
+  if (thread.more.before > 0) lines.push(`  ⋮ ${thread.more.before} earlier`);
+  thread.events.forEach((e, i) => {
+    const marker = i === thread.matchIndex ? "▶" : " ";
+    const text = e.content.replace(/\s+/g, " ").trim();
+    const clipped = text.length > THREAD_LINE_CHARS ? text.slice(0, THREAD_LINE_CHARS) + "…" : text;
+    lines.push(`${marker} ${formatTimestamp(e.timestamp).slice(11)} [${TYPE_BADGES[e.type] || e.type}] ${clipped}`);
+  });
+  if (thread.more.after > 0) lines.push(`  ⋮ ${thread.more.after} later`);
+  return lines;
+}
+
 /** Get project directories to search based on scope */
 async function getSearchProjects(scope: SearchScope): Promise<string[]> {
   const currentProject = process.env.CLAUDE_PROJECT_DIR;
@@ -54,19 +131,25 @@ async function getSearchProjects(scope: SearchScope): Promise<string[]> {
 export function registerSearchHistory(server: McpServer) {
   server.tool(
     "search_history",
-    "Semantic search across the unified timeline of prompts, commits, corrections, and tool calls. Find relevant events using natural language queries.",
+    "Search the unified timeline of prompts, commits, corrections, and tool calls. Hybrid by default: keyword (BM25) matches for identifiers and error codes fused with semantic matches for natural language.",
     {
-      query: z.string().describe("Natural language search query"),
+      query: z.string().describe("Natural language, identifiers (getDiffFiles) or error codes (P2002)"),
+      mode: z.enum(["hybrid", "semantic"]).default("hybrid").describe("hybrid: keyword + semantic fused by rank; semantic: vector similarity only"),
       scope: z.enum(["current", "related", "all"]).default("current").describe("Search scope: current project, related projects (PREFLIGHT_RELATED), or all indexed projects"),
       project: z.string().optional().describe("Filter to a specific project name (overrides scope)"),
       branch: z.string().optional(),
       author: z.string().optional().describe("Filter commits to this author (partial match, case-insensitive)"),
-      type: z.enum(["prompt", "assistant", "correction", "commit", "tool_call", "compaction", "sub_agent_spawn", "error", "all"]).default("all"),
+      type: z.enum(["prompt", "assistant", "correction", "commit", "tool_call", "tool_result", "compaction", "sub_agent_spawn", "error", "all"]).default("all"),
       since: z.string().optional().describe("ISO date or relative: '2025-06-01', '3months'"),
       until: z.string().optional().describe("ISO date or relative"),
       limit: z.number().default(10),
+      rerank: z.boolean().optional().describe("Rescore the top candidates with a local cross-encoder plus recency/type boosts (default: search.rerank.enabled in .preflight/config.yml)"),
+      level: z.enum(["event", "session"]).default("event").describe("event: individual messages, commits and tool calls; session: whole sessions, matched on their summaries (goal, files, commits, corrections, outcome)"),
+      context: z.number().int().min(0).max(20).default(0).describe("Show each event hit as a thread: this many surrounding session events on each side, plus the session's commits"),
     },
     async (params) => {
+      const settings = getConfig().search;
+      const rerank = params.rerank ?? settings.rerank.enabled;
       const since = params.since ? parseRelativeDate(params.since) : undefined;
       const until = params.until ? parseRelativeDate(params.until) : undefined;
 
@@ -88,54 +171,111 @@ export function registerSearchHistory(server: McpServer) {
         };
       }
 
-      let results = await searchSemantic(params.query, {
+      const searchOpts = {
         project_dirs: projectDirs,
         project: undefined, // Don't filter by single project when using project_dirs
         branch: params.branch,
-        type: params.type === "all" ? undefined : params.type,
+        type: params.level === "session" ? ("session_summary" as const) : params.type === "all" ? undefined : params.type,
         since,
         until,
-        limit: params.author ? params.limit * 3 : params.limit, // over-fetch if filtering by author
-      });
+        // Over-fetch for the author filter, and give the reranker its top_n to choose from
+        limit: Math.max(params.author ? params.limit * 3 : params.limit, rerank ? settings.rerank.top_n : 0),
+      };
+      let results: any[];
+      try {
+        results = params.mode === "semantic"
+          ? await searchSemantic(params.query, searchOpts)
+          : await searchHybrid(params.query, searchOpts);
+      } catch (err) {
+        // Chiefly a project indexed with another embedding model; the message says how to fix it
+        return {
+          content: [{
+            type: "text",
+            text: `## Search Results for "${params.query}"\n❌ ${err instanceof Error ? err.message : err}`,
+          }],
+        };
+      }
 
       // Post-filter by author (stored in metadata JSON)
-      if (params.author) {
+      if (params.author && params.level === "event") {
         const authorLower = params.author.toLowerCase();
         results = results.filter((r: any) => {
           try {
             const meta = JSON.parse(r.metadata || "{}");
             return (meta.author || "").toLowerCase().includes(authorLower);
           } catch { return false; }
-        }).slice(0, params.limit);
+        });
+      }
+
+      // Retrieval scores aren't comparable across projects or signals; the reranker's are
+      let rerankModel: string | null = null;
+      if (rerank && results.length > 0) {
+        const { scores, model } = await rerankCandidates(
+          params.query,
+          results.map((r) => ({
+            content: r.content || "",
+            type: r.type,
+            timestamp: r.timestamp,
+            retrievalScore: r._match ? r._score : 1 - (r._distance ?? 1),
+          })),
+          { ...settings, rerank: { ...settings.rerank, enabled: true } },
+        );
+        rerankModel = model;
+        results = results
+          .map((r, i) => ({ ...r, _rerank: scores[i] }))
+          .sort((a, b) => b._rerank.final - a._rerank.final);
       }
+      results = results.slice(0, params.limit);
 
       if (results.length === 0) {
         return { content: [{ type: "text", text: `## Search Results for "${params.query}"\n_No results found._` }] };
       }
 
+      // Session summaries carry their own commits; events get threads only when asked
+      const threads = params.level === "event" && params.context > 0
+        ? await expandThreads(results, params.context)
+        : new Map<string, Thread>();
+
       const projects = new Set(results.map((r: any) => r.project || "unknown"));
+      const unit = params.level === "session" ? "session" : "result";
       const lines: string[] = [
         `## Search Results for "${params.query}"`,
-        `_${results.length} result${results.length !== 1 ? "s" : ""} across ${projects.size} project${projects.size !== 1 ? "s" : ""}_`,
+        `_${results.length} ${unit}${results.length !== 1 ? "s" : ""} across ${projects.size} project${projects.size !== 1 ? "s" : ""}${
+          rerank ? ` · reranked by ${rerankModel ?? "retrieval score + boosts (cross-encoder unavailable)"}` : ""
+        }_`,
         "",
       ];
 
+      const terms = queryTerms(params.query);
       results.forEach((event: any, i: number) => {
         const badge = TYPE_BADGES[event.type] || event.type;
-        const ts = event.timestamp ? new Date(event.timestamp).toISOString().replace("T", " ").slice(0, 16) : "unknown";
         const proj = event.project || "unknown";
         const branch = event.branch ? ` / ${event.branch}` : "";
-        const score = event._distance != null ? (1 - event._distance).toFixed(2) : "?";
-
-        lines.push(`### ${i + 1}. [${badge}] ${proj}${branch} — ${ts}`);
+        const thread = threads.get(event.id);
+        const summary = parseSessionSummary(event);
 
-        const content = (event.content || event.summary || "").slice(0, 200);
-        lines.push(`> ${content.replace(/\n/g, "\n> ")}`);
+        if (summary) {
+          lines.push(`### ${i + 1}. [${badge} ${summary.session_id.slice(0, 8)}] ${proj} — ${formatSessionSpan(summary)}`);
+          lines.push(...formatSessionSummary(summary).map((l) => `> ${l}`));
+        } else {
+          lines.push(`### ${i + 1}. [${badge}] ${proj}${branch} — ${formatTimestamp(event.timestamp)}`);
+          if (event._match) {
+            lines.push(`> ${highlightSnippet(event.content || "", terms)}`);
+          } else {
+            const content = (event.content || event.summary || "").slice(0, 200);
+            lines.push(`> ${content.replace(/\n/g, "\n> ")}`);
+          }
+        }
 
-        const meta: string[] = [`Score: ${score}`];
+        const meta: string[] = event._match
+          ? [`Matched: ${explainMatch(event._match)}`, `RRF: ${event._score.toFixed(4)}`]
+          : [`Score: ${event._distance != null ? (1 - event._distance).toFixed(2) : "?"}`];
+        if (event._rerank) meta.push(`Rerank: ${explainRerank(event._rerank, event.type)}`);
         if (event.session_id) meta.push(`Session: ${event.session_id.slice(0, 8)}`);
         if (event.commit_hash) meta.push(`Hash: ${event.commit_hash.slice(0, 7)}`);
         lines.push(meta.join(" | "));
+        if (thread) lines.push("```", ...formatThread(thread), "```");
+        if (thread && thread.commits.length > 0) lines.push("Commits:", ...formatCommits(thread));
         lines.push("");
       });
 
@@ -3,8 +3,61 @@ import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { existsSync, readFileSync } from "fs";
 import { join } from "path";
 import { run, getBranch, getRecentCommits, getStatus } from "../lib/git.js";
-import { readIfExists, findWorkspaceDocs } from "../lib/files.js";
+import { readIfExists, findWorkspaceDocs, PROJECT_DIR } from "../lib/files.js";
 import { STATE_DIR, now } from "../lib/state.js";
+import { outputFormatParam, renderResult } from "../lib/output.js";
+import type { SessionSummary } from "../lib/session-summary.js";
+
+/** Sessions summarized in an incoming handoff: the last in full, the rest one line each. */
+const RECENT_SESSIONS = 3;
+
+const sessionSummarySchema = z.object({
+  session_id: z.string(),
+  project: z.string(),
+  branch: z.string(),
+  started: z.string(),
+  ended: z.string(),
+  goal: z.string(),
+  later_prompts: z.array(z.string()),
+  files_edited: z.array(z.string()),
+  files_read: z.array(z.string()),
+  commits: z.array(z.object({ hash: z.string(), subject: z.string(), linked_by: z.enum(["hash", "time"]) })),
+  corrections: z.array(z.string()),
+  correction_count: z.number(),
+  compactions: z.number(),
+  outcome: z.enum(["committed", "uncommitted", "ended_on_correction", "ended_on_error"]),
+  last_response: z.string(),
+  prompts: z.number(),
+  events: z.number(),
+});
+
+/** Incoming handoffs fill the state fields; outgoing ones check for a recent checkpoint. */
+const sessionHandoffOutput = z.object({
+  direction: z.enum(["outgoing", "incoming"]),
+  branch: z.string(),
+  time: z.string(),
+  last_checkpoint: z.string().nullable().optional(),
+  recent_commits: z.array(z.string()),
+  uncommitted: z.array(z.string()),
+  recent_sessions: z.array(sessionSummarySchema).optional(),
+  /** As printed by `gh pr list --json number,title,headRefName`. */
+  open_prs: z.array(z.object({ number: z.number(), title: z.string(), headRefName: z.string() })).optional(),
+  recent_docs: z.array(z.object({ name: z.string(), modified: z.string() })).optional(),
+  correction_categories: z.record(z.string(), z.number()).optional(),
+  has_recent_checkpoint: z.boolean().optional(),
+});
+
+/** Most recent session summaries from the project's timeline; empty if it was never onboarded. */
+async function recentSessionSummaries(limit: number): Promise<SessionSummary[]> {
+  try {
+    const { loadProjectMeta } = await import("../lib/timeline-db.js");
+    if (!(await loadProjectMeta(PROJECT_DIR))) return [];
+    const { loadSessionSummaries } = await import("../lib/session-summary.js");
+    return await loadSessionSummaries([PROJECT_DIR], { limit });
+  } catch {
+    return [];
+  }
+}
 
 /** Check if a CLI tool is available */
 function hasCommand(cmd: string): boolean {
@@ -13,22 +66,30 @@ function hasCommand(cmd: string): boolean {
 }
 
 export function registerSessionHandoff(server: McpServer): void {
-  server.tool(
+  server.registerTool(
     "session_handoff",
-    `Generate a handoff brief for the next session. Reads last checkpoint, recent commits, open PRs, workspace state, and correction patterns to create a "here's where we are" document. Call at session end or when starting a new session to catch up on what happened.`,
     {
-      direction: z.enum(["outgoing", "incoming"]).describe("'outgoing' = ending this session, 'incoming' = starting a new one"),
+      description: `Generate a handoff brief for the next session. Reads last checkpoint, recent commits, open PRs, workspace state, and correction patterns to create a "here's where we are" document. Call at session end or when starting a new session to catch up on what happened.`,
+      inputSchema: {
+        direction: z.enum(["outgoing", "incoming"]).describe("'outgoing' = ending this session, 'incoming' = starting a new one"),
+        output_format: outputFormatParam,
+      },
+      outputSchema: sessionHandoffOutput,
     },
-    async ({ direction }) => {
+    async ({ direction, output_format }) => {
       const branch = getBranch();
       const sections: string[] = [];
+      const data: z.infer<typeof sessionHandoffOutput> = { direction, branch, time: now(), recent_commits: [], uncommitted: [] };
 
       if (direction === "incoming") {
         const lastCheckpoint = readIfExists(".claude/last-checkpoint.md", 50);
         const recentLog = getRecentCommits(10);
         const dirty = getStatus();
 
-        sections.push(`## Session Handoff — INCOMING\n**Branch**: ${branch}\n**Time**: ${now()}`);
+        sections.push(`## Session Handoff — INCOMING\n**Branch**: ${branch}\n**Time**: ${data.time}`);
+        data.last_checkpoint = lastCheckpoint || null;
+        data.recent_commits = recentLog.split("\n").filter(Boolean);
+        data.uncommitted = dirty ? dirty.split("\n").filter(Boolean) : [];
 
         if (lastCheckpoint) {
           sections.push(`## Last Checkpoint\n${lastCheckpoint}`);
@@ -36,6 +97,17 @@ export function registerSessionHandoff(server: McpServer): void {
           sections.push(`## Last Checkpoint\nNone found. This may be the first session or checkpoints weren't saved.`);
         }
 
+        // What the last sessions set out to do and how they ended, from the timeline index
+        const sessions = await recentSessionSummaries(RECENT_SESSIONS);
+        data.recent_sessions = sessions;
+        if (sessions.length > 0) {
+          const { formatSessionSummary, formatSessionSpan, formatSessionLine } = await import("../lib/session-summary.js");
+          const [latest, ...earlier] = sessions;
+          const parts = [`## Last Session (${formatSessionSpan(latest)})`, ...formatSessionSummary(latest)];
+          if (earlier.length > 0) parts.push("", "**Before that**:", ...earlier.map((s) => `- ${formatSessionLine(s)}`));
+          sections.push(parts.join("\n"));
+        }
+
         sections.push(`## Recent Commits\n\`\`\`\n${recentLog}\n\`\`\``);
 
         if (dirty) {
@@ -46,6 +118,10 @@ export function registerSessionHandoff(server: McpServer): void {
         if (hasCommand("gh")) {
           const openPRs = run("gh pr list --state open --json number,title,headRefName 2>/dev/null || echo '[]'");
           if (openPRs && openPRs !== "[]") {
+            try {
+              const prs: unknown = JSON.parse(openPRs);
+              if (Array.isArray(prs)) data.open_prs = prs;
+            } catch { /* gh printed something else */ }
             sections.push(`## Open PRs\n\`\`\`json\n${openPRs}\n\`\`\``);
           }
         }
@@ -54,6 +130,7 @@ export function registerSessionHandoff(server: McpServer): void {
         const freshDocs = Object.entries(docs)
           .sort((a, b) => b[1].mtime.getTime() - a[1].mtime.getTime())
           .slice(0, 5);
+        data.recent_docs = freshDocs.map(([n, d]) => ({ name: n, modified: d.mtime.toISOString() }));
         if (freshDocs.length > 0) {
           sections.push(`## Most Recently Updated Workspace Docs\n${freshDocs.map(([n, d]) =>
             `- .claude/${n} (updated ${Math.round((Date.now() - d.mtime.getTime()) / 3600000)}h ago)`
@@ -70,6 +147,7 @@ export function registerSessionHandoff(server: McpServer): void {
               if (corr.length > 0) {
                 const cats: Record<string, number> = {};
                 for (const c of corr) cats[c.category] = (cats[c.category] || 0) + 1;
+                data.correction_categories = cats;
                 sections.push(`## Known Error Patterns\n${Object.entries(cats).map(([k, v]) => `- ${k}: ${v}x`).join("\n")}\n\n**Watch out for these patterns.**`);
               }
             }
@@ -84,7 +162,9 @@ export function registerSessionHandoff(server: McpServer): void {
         const dirtyCount = dirty ? dirty.split("\n").filter(Boolean).length : 0;
         const recentLog = getRecentCommits(5);
 
-        sections.push(`## Session Handoff — OUTGOING\n**Branch**: ${branch}\n**Time**: ${now()}`);
+        sections.push(`## Session Handoff — OUTGOING\n**Branch**: ${branch}\n**Time**: ${data.time}`);
+        data.uncommitted = dirty ? dirty.split("\n").filter(Boolean) : [];
+        data.recent_commits = recentLog.split("\n").filter(Boolean);
 
         if (dirtyCount > 0) {
           sections.push(`## ⚠️ Uncommitted Work (${dirtyCount} files)\n\`\`\`\n${dirty}\n\`\`\`\n\n**Action**: Commit this work or it will be lost to the next session.`);
@@ -112,6 +192,7 @@ export function registerSessionHandoff(server: McpServer): void {
           } catch { return false; }
         })();
 
+        data.has_recent_checkpoint = hasRecentCheckpoint;
         if (!hasRecentCheckpoint) {
           sections.push(`## ⚠️ No recent checkpoint\nRun the \`checkpoint\` tool to save session state for the next session.`);
         }
@@ -119,7 +200,7 @@ export function registerSessionHandoff(server: McpServer): void {
         sections.push(`## Before ending:\n1. Commit all work\n2. Run \`checkpoint\` with summary + next steps\n3. Update any stale workspace docs (run \`audit_workspace\`)\n4. Push to remote`);
       }
 
-      return { content: [{ type: "text" as const, text: sections.join("\n\n") }] };
+      return renderResult(sections.join("\n\n"), data, output_format);
     }
   );
 }
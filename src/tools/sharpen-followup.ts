@@ -1,28 +1,9 @@
 // CATEGORY 4: sharpen_followup — Follow-up Specificity
 import { z } from "zod";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { run } from "../lib/git.js";
+import { run, getDirtyFiles } from "../lib/git.js";
 import { now } from "../lib/state.js";
-
-/** Parse git porcelain output into deduplicated file paths, handling renames (R/C) */
-function parsePortelainFiles(output: string): string[] {
-  if (!output.trim()) return [];
-  const files = new Set<string>();
-  for (const line of output.split("\n").filter(Boolean)) {
-    if (line.length < 4) continue;
-    const status = line.slice(0, 2);
-    const rest = line.slice(3);
-    if (status.startsWith("R") || status.startsWith("C")) {
-      // "R  old -> new" — include both old and new
-      const parts = rest.split(" -> ");
-      parts.forEach((p) => { const t = p.trim(); if (t) files.add(t); });
-    } else {
-      const t = rest.trim();
-      if (t) files.add(t);
-    }
-  }
-  return [...files];
-}
+import { buildClarifyQuestions, elicitClarification, freeQuestion, type ClarifyQuestion } from "../lib/clarify.js";
 
 /** Get recently changed files, safe for first commit / shallow clones */
 function getRecentChangedFiles(): string[] {
@@ -49,11 +30,12 @@ export function registerSharpenFollowup(server: McpServer): void {
       followup_message: z.string().describe("The user's follow-up message to analyze"),
       previous_action: z.string().describe("Description of what was just done"),
       previous_files: z.array(z.string()).optional().describe("Files involved in the previous action"),
+      interactive: z.boolean().default(true).describe("Ask the clarifying questions through MCP elicitation when the client supports it"),
     },
-    async ({ followup_message, previous_action, previous_files }) => {
+    async ({ followup_message, previous_action, previous_files, interactive }) => {
       const msg = followup_message.trim();
       const assumptions: string[] = [];
-      const questions: string[] = [];
+      const questions: ClarifyQuestion[] = [];
       let confidence: "high" | "medium" | "low" = "high";
 
       // Vagueness detection
@@ -87,8 +69,7 @@ export function registerSharpenFollowup(server: McpServer): void {
       // Gather context to resolve ambiguity
       const contextFiles: string[] = [...(previous_files ?? [])];
       const recentChanged = getRecentChangedFiles();
-      const porcelainOutput = run("git status --porcelain 2>/dev/null");
-      const untrackedOrModified = parsePortelainFiles(porcelainOutput);
+      const untrackedOrModified = getDirtyFiles();
 
       const allKnownFiles = [...new Set([...contextFiles, ...recentChanged, ...untrackedOrModified])].filter(Boolean);
 
@@ -102,10 +83,7 @@ export function registerSharpenFollowup(server: McpServer): void {
             sharpened = sharpened.replace(new RegExp(`\\b${p}\\b`, "i"), contextFiles[0]);
           }
           assumptions.push(`Resolved ${singularPronouns.map(p => `"${p}"`).join(", ")} → ${contextFiles[0]} (only file from previous action)`);
-        } else if (contextFiles.length > 1) {
-          confidence = "low";
-          questions.push(`Which file do you mean? Previous action touched: ${contextFiles.join(", ")}`);
-        } else if (recentChanged.length === 1) {
+        } else if (contextFiles.length === 0 && recentChanged.length === 1) {
           for (const p of singularPronouns) {
             sharpened = sharpened.replace(new RegExp(`\\b${p}\\b`, "i"), recentChanged[0]);
           }
@@ -113,7 +91,11 @@ export function registerSharpenFollowup(server: McpServer): void {
           confidence = "medium";
         } else {
           confidence = "low";
-          questions.push("Which file or component are you referring to? No single obvious target found.");
+          // The previous action's files are the likeliest candidates; otherwise anything recently touched
+          questions.push(...await buildClarifyQuestions(msg, { files: contextFiles.length > 1 ? contextFiles : allKnownFiles }));
+          if (!questions.some(q => q.kind === "file")) {
+            questions.push(freeQuestion("file", "Which file or component are you referring to? No single obvious target found.", singularPronouns[0]));
+          }
         }
       }
 
@@ -129,10 +111,10 @@ export function registerSharpenFollowup(server: McpServer): void {
           confidence = otherFiles.length <= 3 ? "medium" : "low";
         } else if (otherFiles.length > 10) {
           confidence = "low";
-          questions.push(`Found ${otherFiles.length} candidate files — too many to assume. Which subset do you mean?`);
+          questions.push(freeQuestion("others", `Found ${otherFiles.length} candidate files — too many to assume. Which subset do you mean?`, pluralPronouns[0]));
         } else {
           confidence = "low";
-          questions.push('What does "the others" refer to? No additional files found in context.');
+          questions.push(freeQuestion("others", 'What does "the others" refer to? No additional files found in context.', pluralPronouns[0]));
         }
       }
 
@@ -143,15 +125,28 @@ export function registerSharpenFollowup(server: McpServer): void {
           confidence = confidence === "high" ? "medium" : "low";
         } else if (allKnownFiles.length > 8) {
           confidence = "low";
-          questions.push(`"${scopeMatches[0]}" is ambiguous — ${allKnownFiles.length} files in scope. Please specify a directory or glob pattern.`);
+          questions.push(freeQuestion("scope", `"${scopeMatches[0]}" is ambiguous — ${allKnownFiles.length} files in scope. Please specify a directory or glob pattern.`, scopeMatches[0]));
         } else {
           confidence = "low";
-          questions.push(`What does "${scopeMatches[0]}" cover? No files found in recent context.`);
+          questions.push(freeQuestion("scope", `What does "${scopeMatches[0]}" cover? No files found in recent context.`, scopeMatches[0]));
+        }
+      }
+
+      // Ask the user directly when the client supports elicitation
+      let clarified = false;
+      if (interactive && questions.length > 0) {
+        const outcome = await elicitClarification(server, sharpened, questions);
+        if (outcome.sharpened) {
+          sharpened = outcome.sharpened;
+          clarified = true;
+          assumptions.push(`Clarified by user: ${Object.values(outcome.answers).join("; ")}`);
+          questions.splice(0, questions.length, ...questions.filter(q => !outcome.answers[q.id]));
+          if (questions.length === 0) confidence = "high";
         }
       }
 
       // Bare command enrichment
-      if (isBareCommand && contextFiles.length > 0) {
+      if (isBareCommand && contextFiles.length > 0 && !clarified) {
         sharpened = `${sharpened} in ${contextFiles.join(", ")}`;
         assumptions.push(`Added file scope from previous action: ${contextFiles.join(", ")}`);
         if (confidence === "high") confidence = "medium";
@@ -182,7 +177,7 @@ export function registerSharpenFollowup(server: McpServer): void {
 
       if (questions.length > 0) {
         lines.push("### Clarifying Questions");
-        questions.forEach((q) => lines.push(`- ❓ ${q}`));
+        questions.forEach((q) => lines.push(`- ❓ ${q.question}${q.options.length > 0 ? ` ${q.options.join(", ")}` : ""}`));
         lines.push("");
       }
 
@@ -0,0 +1,86 @@
+// =============================================================================
+// test_triage_rules — Check .preflight/triage.yml classifiers against samples
+// =============================================================================
+
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { formatConfidence } from "../lib/triage.js";
+import { triagePromptWithModel } from "../lib/triage-model.js";
+import { getConfig, getTriageConfig } from "../lib/config.js";
+import { compileTriageRules } from "../lib/triage-rules.js";
+
+export function registerTestTriageRules(server: McpServer): void {
+  server.tool(
+    "test_triage_rules",
+    "Unit-test the classifiers in .preflight/triage.yml. Runs every rule's `examples` through the same triage preflight_check uses (rules, then the learned model or the built-in heuristics) and reports mismatches, or classifies ad-hoc sample prompts and shows which rule fired.",
+    {
+      prompts: z.array(z.string()).optional().describe("Ad-hoc prompts to classify. If omitted, runs each rule's examples."),
+      rule: z.string().optional().describe("Only run examples for this rule name"),
+    },
+    async ({ prompts, rule }) => {
+      const config = getTriageConfig();
+      // Compiled here rather than via getTriageRules, which only logs what it dropped
+      const { rules, errors } = compileTriageRules(getConfig().triage.classifiers);
+      const problems = errors.length > 0
+        ? ["", `### ⚠️ Problems in .preflight/triage.yml`, ...errors.map(e => `- ${e}`)]
+        : [];
+
+      // --- Ad-hoc mode ---
+      if (prompts && prompts.length > 0) {
+        const lines = [`## Triage Rule Check (${rules.length} classifier(s) loaded)`, ""];
+        for (const p of prompts) {
+          const result = await triagePromptWithModel(p, config);
+          lines.push(`### "${p.slice(0, 120)}"`);
+          lines.push(`**${result.level}**${formatConfidence(result)}`);
+          lines.push(...result.reasons.map(r => `- ${r}`));
+          lines.push("");
+        }
+        lines.push(...problems);
+        return { content: [{ type: "text" as const, text: lines.join("\n") }] };
+      }
+
+      // --- Example mode ---
+      const selected = rule ? rules.filter(r => r.name === rule) : rules;
+      if (selected.length === 0) {
+        const text = rule
+          ? `❌ No classifier named "${rule}". Loaded: ${rules.map(r => r.name).join(", ") || "(none)"}`
+          : "No classifiers defined. Add a `classifiers:` list to .preflight/triage.yml.";
+        return { content: [{ type: "text" as const, text: [text, ...problems].join("\n") }] };
+      }
+
+      let passed = 0;
+      let total = 0;
+      const failures: string[] = [];
+      const untested: string[] = [];
+
+      for (const r of selected) {
+        if (r.examples.length === 0) {
+          untested.push(r.name);
+          continue;
+        }
+        for (const ex of r.examples) {
+          total++;
+          const result = await triagePromptWithModel(ex.prompt, config);
+          if (result.level === ex.expect) {
+            passed++;
+          } else {
+            failures.push(
+              `- **${r.name}**: "${ex.prompt}" → expected \`${ex.expect}\`, got \`${result.level}\`\n  _${result.reasons.join("; ")}_`,
+            );
+          }
+        }
+      }
+
+      const icon = failures.length === 0 ? "✅" : "❌";
+      const lines = [
+        `## ${icon} Triage Rules: ${passed}/${total} examples passed`,
+        `Classifiers: ${selected.length} (in priority order: ${selected.map(r => `${r.name}@${r.priority}`).join(", ")})`,
+      ];
+      if (failures.length > 0) lines.push("", "### Failures", ...failures);
+      if (untested.length > 0) lines.push("", `⚠️ No examples for: ${untested.join(", ")}`);
+      lines.push(...problems);
+
+      return { content: [{ type: "text" as const, text: lines.join("\n") }] };
+    }
+  );
+}
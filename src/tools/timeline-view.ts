@@ -2,6 +2,7 @@ import { z } from "zod";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { getTimeline, listIndexedProjects } from "../lib/timeline-db.js";
 import { getRelatedProjects } from "../lib/config.js";
+import { loadSessionSummaries, formatSessionLine, type SessionSummary } from "../lib/session-summary.js";
 import type { SearchScope } from "../types.js";
 
 const RELATIVE_DATE_RE = /^(\d+)(days?|weeks?|months?|years?)$/;
@@ -23,6 +24,7 @@ const TYPE_ICONS: Record<string, string> = {
   prompt: "💬",
   assistant: "🤖",
   tool_call: "🔧",
+  tool_result: "📤",
   correction: "❌",
   commit: "📦",
   compaction: "🗜️",
@@ -62,9 +64,10 @@ export function registerTimeline(server: McpServer) {
       author: z.string().optional().describe("Filter commits to this author (partial match, case-insensitive)"),
       since: z.string().optional(),
       until: z.string().optional(),
-      type: z.enum(["prompt", "assistant", "correction", "commit", "tool_call", "compaction", "sub_agent_spawn", "error", "all"]).default("all"),
+      type: z.enum(["prompt", "assistant", "correction", "commit", "tool_call", "tool_result", "compaction", "sub_agent_spawn", "error", "all"]).default("all"),
       limit: z.number().default(50),
       offset: z.number().default(0),
+      sessions: z.boolean().default(true).describe("Open each day with a one-line summary of every session that ended on it"),
     },
     async (params) => {
       const since = params.since ? parseRelativeDate(params.since) : undefined;
@@ -123,6 +126,18 @@ export function registerTimeline(server: McpServer) {
         days.get(day)!.push(event);
       }
 
+      // Session summaries for the days shown, keyed by the day each session ended
+      const sessionsByDay = new Map<string, SessionSummary[]>();
+      if (params.sessions) {
+        const summaries = await loadSessionSummaries(projectDirs, { since, until, branch: params.branch }).catch(() => []);
+        for (const summary of summaries) {
+          const day = new Date(summary.ended).toISOString().slice(0, 10);
+          if (!days.has(day)) continue;
+          if (!sessionsByDay.has(day)) sessionsByDay.set(day, []);
+          sessionsByDay.get(day)!.push(summary);
+        }
+      }
+
       // Header
       const proj = params.project || "all projects";
       const branch = params.branch ? ` / ${params.branch}` : "";
@@ -139,6 +154,12 @@ export function registerTimeline(server: McpServer) {
 
       for (const day of sortedDays) {
         lines.push(`### ${day}`);
+        const daySessions = sessionsByDay.get(day);
+        if (daySessions) {
+          // Oldest first, like the events below
+          for (const summary of [...daySessions].reverse()) lines.push(`- 🧵 ${formatSessionLine(summary)}`);
+          lines.push("");
+        }
         const dayEvents = days.get(day)!;
         // Sort by timestamp within day
         dayEvents.sort((a: any, b: any) => {
@@ -0,0 +1,61 @@
+// =============================================================================
+// train_triage_model — Fit the learned triage classifier on session history
+// =============================================================================
+
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { PROJECT_DIR } from "../lib/files.js";
+import { getTriageConfig } from "../lib/config.js";
+import { trainTriageModel, loadTriageModel } from "../lib/triage-model.js";
+
+export function registerTrainTriageModel(server: McpServer): void {
+  server.tool(
+    "train_triage_model",
+    "Train (or inspect) the learned triage classifier. Embeds labelled prompts from .preflight/triage-cases/ plus timeline prompts that were followed by a correction (→ ambiguous), and reports accuracy on a held-out split next to the heuristic rules'. Once trained, preflight_check uses it in place of the heuristic rules when it is confident.",
+    {
+      action: z.enum(["train", "status"]).default("train"),
+      k: z.number().int().min(1).max(50).optional().describe("Neighbours to vote (default from triage.yml model.k)"),
+    },
+    async ({ action, k }) => {
+      if (action === "status") {
+        const model = loadTriageModel();
+        if (!model) {
+          return { content: [{ type: "text" as const, text: "No usable triage model (none trained, or it was trained on fewer than two levels). Triage uses the rule chain. Run with action: train." }] };
+        }
+        return { content: [{ type: "text" as const, text: formatModel(model, "Triage Model") }] };
+      }
+
+      try {
+        const model = await trainTriageModel(PROJECT_DIR, getTriageConfig(), { k });
+        return { content: [{ type: "text" as const, text: formatModel(model, "✅ Triage Model Trained") }] };
+      } catch (err) {
+        return { content: [{ type: "text" as const, text: `❌ Training failed: ${err instanceof Error ? err.message : err}` }] };
+      }
+    }
+  );
+}
+
+function formatModel(model: NonNullable<ReturnType<typeof loadTriageModel>>, title: string): string {
+  const counts = Object.entries(model.label_counts)
+    .sort((a, b) => (b[1] ?? 0) - (a[1] ?? 0))
+    .map(([l, n]) => `- ${l}: ${n}`)
+    .join("\n");
+  const pct = (n: number) => `${(n * 100).toFixed(1)}%`;
+  const precision = Object.entries(model.rule_precision)
+    .map(([l, p]) => `- ${l}: ${pct(p ?? 0)}`)
+    .join("\n");
+  return [
+    `## ${title}`,
+    `Trained: ${model.trained_at} | Provider: ${model.provider} (${model.dimensions} dims) | k=${model.k}`,
+    `Examples: ${model.examples.length}`,
+    model.holdout
+      ? `Held-out accuracy (${model.holdout.size} prompts): **${pct(model.holdout.accuracy)}** — heuristic rules on the same prompts: ${pct(model.holdout.rule_accuracy)}`
+      : "Held-out accuracy: too few labelled prompts to hold any out",
+    "",
+    "### Labels",
+    counts,
+    "",
+    "### Heuristic precision (used as the rules' confidence)",
+    precision || "_No level has enough labelled predictions yet._",
+  ].join("\n");
+}
@@ -0,0 +1,79 @@
+// =============================================================================
+// triage_report — Run the labelled triage corpus and report accuracy
+// =============================================================================
+
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { PROJECT_DIR } from "../lib/files.js";
+import { getTriageConfig } from "../lib/config.js";
+import {
+  loadTriageCases,
+  evaluateTriageCases,
+  formatTriageReport,
+  seedTriageCases,
+  TRIAGE_CASES_DIR,
+} from "../lib/triage-corpus.js";
+import { outputFormatParam, renderResult, triageLevelSchema } from "../lib/output.js";
+
+const triageReportOutput = z.object({
+  seeded: z.object({ path: z.string(), added: z.number() }).optional(),
+  /** Corpus entries skipped as invalid. */
+  errors: z.array(z.string()),
+  /** null when the corpus is empty. */
+  report: z.object({
+    total: z.number(),
+    correct: z.number(),
+    accuracy: z.number(),
+    /** matrix[expected][predicted] = count */
+    matrix: z.record(triageLevelSchema, z.record(triageLevelSchema, z.number())),
+    misses: z.array(z.object({
+      case: z.object({ prompt: z.string(), expect: triageLevelSchema, note: z.string().optional(), file: z.string().optional() }),
+      predicted: triageLevelSchema,
+      reasons: z.array(z.string()),
+    })),
+  }).nullable(),
+});
+
+export function registerTriageReport(server: McpServer): void {
+  server.registerTool(
+    "triage_report",
+    {
+      description: `Run every labelled prompt in ${TRIAGE_CASES_DIR}/ through triage and report accuracy, a confusion matrix across levels, and misclassified prompts with their reasons. Optionally seeds the corpus from past prompt/correction events in the timeline.`,
+      inputSchema: {
+        seed: z.boolean().default(false).describe("First append indexed prompts that were followed by a correction, as ambiguous cases (requires onboard_project)"),
+        seed_limit: z.number().default(200).describe("Max prompts to seed"),
+        output_format: outputFormatParam,
+      },
+      outputSchema: triageReportOutput,
+    },
+    async ({ seed, seed_limit, output_format }) => {
+      const config = getTriageConfig();
+      const sections: string[] = [];
+      let seeded: { path: string; added: number } | undefined;
+
+      if (seed) {
+        try {
+          const result = await seedTriageCases(PROJECT_DIR, { limit: seed_limit });
+          seeded = result;
+          sections.push(`🌱 Seeded ${result.added} corrected prompt(s) as \`ambiguous\` into \`${result.path}\` — review the labels.`, "");
+        } catch (err) {
+          sections.push(`⚠️ Seeding failed: ${err}`, "");
+        }
+      }
+
+      const { cases, errors } = loadTriageCases(PROJECT_DIR);
+      const data = { ...(seeded ? { seeded } : {}), errors };
+      if (errors.length > 0) {
+        sections.push(`⚠️ Skipped invalid entries:\n${errors.map(e => `- ${e}`).join("\n")}`, "");
+      }
+      if (cases.length === 0) {
+        sections.push(`No labelled cases found in \`${TRIAGE_CASES_DIR}/\`. Add YAML files with \`- prompt: "..."\` / \`expect: ambiguous\` entries, or run with \`seed: true\`.`);
+        return renderResult(sections.join("\n"), { ...data, report: null }, output_format);
+      }
+
+      const report = evaluateTriageCases(cases, config);
+      sections.push(formatTriageReport(report));
+      return renderResult(sections.join("\n"), { ...data, report }, output_format);
+    }
+  );
+}
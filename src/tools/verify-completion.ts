@@ -4,6 +4,7 @@ import { run, getStatus } from "../lib/git.js";
 import { PROJECT_DIR } from "../lib/files.js";
 import { existsSync } from "fs";
 import { join } from "path";
+import { outputFormatParam, renderResult } from "../lib/output.js";
 
 /** Detect package manager from lockfiles */
 function detectPM(): string {
@@ -39,17 +40,29 @@ function hasBuildScript(): boolean {
   } catch { return false; }
 }
 
+const verifyCompletionOutput = z.object({
+  task: z.string(),
+  passed: z.boolean(),
+  checks: z.array(z.object({ name: z.string(), passed: z.boolean(), detail: z.string() })),
+  type_errors: z.number(),
+  dirty_files: z.number(),
+});
+
 export function registerVerifyCompletion(server: McpServer): void {
-  server.tool(
+  server.registerTool(
     "verify_completion",
-    `Verify that work is actually complete before declaring done. Runs type check, relevant tests, checks for uncommitted files, and validates against the original task criteria. Call this BEFORE saying "done" or committing final work.`,
     {
-      task_description: z.string().describe("What was the task? Used to check if success criteria are met."),
-      test_scope: z.string().optional().describe("Which tests to run: 'all', a directory/keyword, or a specific spec file path. Default: auto-detect from changed files."),
-      skip_tests: z.boolean().optional().describe("Skip running tests (only check types + git state). Default: false."),
-      skip_build: z.boolean().optional().describe("Skip build check. Default: false."),
+      description: `Verify that work is actually complete before declaring done. Runs type check, relevant tests, checks for uncommitted files, and validates against the original task criteria. Call this BEFORE saying "done" or committing final work.`,
+      inputSchema: {
+        task_description: z.string().describe("What was the task? Used to check if success criteria are met."),
+        test_scope: z.string().optional().describe("Which tests to run: 'all', a directory/keyword, or a specific spec file path. Default: auto-detect from changed files."),
+        skip_tests: z.boolean().optional().describe("Skip running tests (only check types + git state). Default: false."),
+        skip_build: z.boolean().optional().describe("Skip build check. Default: false."),
+        output_format: outputFormatParam,
+      },
+      outputSchema: verifyCompletionOutput,
     },
-    async ({ task_description, test_scope, skip_tests, skip_build }) => {
+    async ({ task_description, test_scope, skip_tests, skip_build, output_format }) => {
       const pm = detectPM();
       const sections: string[] = [];
       const checks: { name: string; passed: boolean; detail: string }[] = [];
@@ -153,7 +166,13 @@ export function registerVerifyCompletion(server: McpServer): void {
         sections.push(`## Do NOT:\n- Commit with failing checks\n- Say "done" without green tests\n- Push broken code to remote\n\n## DO:\n- Fix each failing check\n- Re-run \`verify_completion\` after fixes\n- Then commit`);
       }
 
-      return { content: [{ type: "text" as const, text: sections.join("\n\n") }] };
+      return renderResult(sections.join("\n\n"), {
+        task: task_description,
+        passed: allPassed,
+        checks,
+        type_errors: errorLines.length,
+        dirty_files: dirtyCount,
+      }, output_format);
     }
   );
 }
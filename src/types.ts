@@ -3,7 +3,14 @@ import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 export type RegisterToolFn = (server: McpServer) => void;
 
 /** Standard MCP tool return format. */
-export type ToolResult = { content: Array<{ type: "text"; text: string }> };
+export type ToolResult = {
+  content: Array<{ type: "text"; text: string }>;
+  /** Typed fields for hooks and scripts (MCP structured content). */
+  structuredContent?: Record<string, unknown>;
+};
+
+/** How a tool renders its text content. Structured content is always attached. */
+export type OutputFormat = "markdown" | "json";
 
 export interface DocInfo {
   content: string;
@@ -48,6 +55,17 @@ export interface ProjectMeta {
   project_dir: string;
   onboarded_at: string;
   event_count: number;
+  /** What produced the stored vectors; recorded on first write. */
+  embedding?: ProjectEmbedding;
+  /** Live events table, once reembed_project has moved the project off "events". */
+  events_table?: string;
+}
+
+/** Embedding provider, model and vector size of a project's events table. */
+export interface ProjectEmbedding {
+  provider: string;
+  model: string;
+  dimensions: number;
 }
 
 /** Project registry entry in index.json */
@@ -0,0 +1,74 @@
+import { describe, it, expect } from "vitest";
+import { scoreCorrection, findUndoneEdits, toolTouch } from "../src/lib/correction-classifier.js";
+
+describe("scoreCorrection", () => {
+  it("only scores turns that follow the assistant", () => {
+    const score = scoreCorrection({ text: "no, that's wrong", afterAssistant: false });
+    expect(score).toEqual({ isCorrection: false, confidence: 0, signals: ["not after assistant"] });
+  });
+
+  it("labels explicit pushback as a correction", () => {
+    const score = scoreCorrection({ text: "no, wrong file, revert that", afterAssistant: true });
+    expect(score.isCorrection).toBe(true);
+    expect(score.confidence).toBe(1);
+    expect(score.signals).toEqual(expect.arrayContaining(["wrong", "revert", "leading no"]));
+  });
+
+  it("doesn't count polite openers as a leading no", () => {
+    const score = scoreCorrection({ text: "no worries, thanks", afterAssistant: true });
+    expect(score.isCorrection).toBe(false);
+    expect(score.signals).not.toContain("leading no");
+  });
+
+  it("needs more than a hedge on its own", () => {
+    expect(scoreCorrection({ text: "actually use the other helper", afterAssistant: true }).isCorrection).toBe(false);
+  });
+
+  it("lets a revert in the next turn tip a hedge over", () => {
+    const score = scoreCorrection({
+      text: "actually use the other helper",
+      afterAssistant: true,
+      before: [toolTouch("Edit", { file_path: "src/a.ts", old_string: "a", new_string: "b" })],
+      after: [
+        toolTouch("Bash", { command: "git checkout -- src/a.ts" }),
+        toolTouch("Edit", { file_path: "src/a.ts", old_string: "a", new_string: "c" }),
+      ],
+    });
+    expect(score.isCorrection).toBe(true);
+    expect(score.signals).toEqual(expect.arrayContaining(["actually", "revert follows", "re-edit follows"]));
+  });
+});
+
+describe("findUndoneEdits", () => {
+  const before = [toolTouch("Edit", { file_path: "src/a.ts", old_string: "foo()", new_string: "bar()" })];
+
+  it("treats a git checkout naming the file as a revert", () => {
+    const after = [toolTouch("Bash", { command: "git checkout -- src/a.ts" })];
+    expect(findUndoneEdits(before, after)).toEqual([{ file: "src/a.ts", kind: "reverted", hunk: "bar()" }]);
+  });
+
+  it("treats a blanket stash as reverting every file", () => {
+    const after = [toolTouch("Bash", { command: "git stash" })];
+    expect(findUndoneEdits(before, after)).toEqual([{ file: "src/a.ts", kind: "reverted", hunk: "bar()" }]);
+  });
+
+  it("treats an exact inverse edit as a revert", () => {
+    const after = [toolTouch("Edit", { file_path: "src/a.ts", old_string: "bar()", new_string: "foo()" })];
+    expect(findUndoneEdits(before, after)).toEqual([{ file: "src/a.ts", kind: "reverted", hunk: "bar()" }]);
+  });
+
+  it("treats editing over the written text as a rewrite", () => {
+    const after = [toolTouch("Edit", { file_path: "src/a.ts", old_string: "bar()", new_string: "baz()" })];
+    expect(findUndoneEdits(before, after)).toEqual([{ file: "src/a.ts", kind: "rewritten", hunk: "bar()" }]);
+  });
+
+  it("treats writing the whole file again as a rewrite", () => {
+    const after = [toolTouch("Write", { file_path: "src/a.ts", content: "export {};" })];
+    expect(findUndoneEdits(before, after)).toEqual([{ file: "src/a.ts", kind: "rewritten", hunk: "bar()" }]);
+  });
+
+  it("ignores edits to other files", () => {
+    const after = [toolTouch("Edit", { file_path: "src/b.ts", old_string: "bar()", new_string: "foo()" })];
+    expect(findUndoneEdits(before, after)).toEqual([]);
+  });
+});
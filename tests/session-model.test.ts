@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { mkdtempSync, writeFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { parseSession } from "../src/lib/session-parser.js";
+import { buildSession, readSessionBranch, type SessionFile } from "../src/lib/session-model.js";
+
+const record = (obj: object) => JSON.stringify(obj) + "\n";
+
+let dir: string;
+
+beforeAll(() => {
+  dir = mkdtempSync(join(tmpdir(), "preflight-model-"));
+});
+
+afterAll(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+function sessionOf(name: string, transcript: string) {
+  const path = join(dir, `${name}.jsonl`);
+  writeFileSync(path, transcript);
+  const file: SessionFile = { sessionId: name, path, mtime: new Date(), size: transcript.length, project: "/p", projectName: "p", sessionDir: dir };
+  return buildSession(file, parseSession(path, "/p", "p"));
+}
+
+describe("buildSession usage", () => {
+  it("counts a message split over several records once, at its largest", () => {
+    // Claude Code writes one record per content block, each repeating the message's usage so far
+    const session = sessionOf("split", [
+      record({ type: "user", timestamp: "2026-01-01T00:00:00Z", message: { content: "do the thing please" } }),
+      record({
+        type: "assistant", timestamp: "2026-01-01T00:00:01Z",
+        message: { id: "m1", model: "x", content: [{ type: "text", text: "ok" }], usage: { input_tokens: 10, output_tokens: 5 } },
+      }),
+      record({
+        type: "assistant", timestamp: "2026-01-01T00:00:02Z",
+        message: {
+          id: "m1", model: "x",
+          content: [
+            { type: "tool_use", id: "t1", name: "Read", input: { file_path: "a.ts" } },
+            { type: "tool_use", id: "t2", name: "Read", input: { file_path: "b.ts" } },
+          ],
+          usage: { input_tokens: 10, output_tokens: 120 },
+        },
+      }),
+      record({
+        type: "assistant", timestamp: "2026-01-01T00:00:03Z",
+        message: { id: "m2", model: "x", content: [{ type: "text", text: "done" }], usage: { input_tokens: 3, output_tokens: 7 } },
+      }),
+    ].join(""));
+
+    expect(session.hasUsage).toBe(true);
+    expect(session.usage).toEqual({ input_tokens: 13, output_tokens: 127, cache_creation_input_tokens: 0, cache_read_input_tokens: 0 });
+    expect(session.turns).toHaveLength(1);
+    expect(session.turns[0].outputTokens).toBe(127);
+    expect(session.turns[0].toolCalls.map((t) => t.name)).toEqual(["Read", "Read"]);
+  });
+});
+
+describe("readSessionBranch", () => {
+  it("reads the branch from the first records", () => {
+    const path = join(dir, "branch.jsonl");
+    writeFileSync(path, record({ type: "user", gitBranch: "feature/x", message: { content: "hi" } }));
+    expect(readSessionBranch(path)).toBe("feature/x");
+  });
+
+  it("is undefined for a missing file", () => {
+    expect(readSessionBranch(join(dir, "missing.jsonl"))).toBeUndefined();
+  });
+});
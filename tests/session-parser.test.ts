@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { mkdtempSync, writeFileSync, appendFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  eventId, parseSession, streamSessionEvents, type SessionChunk, type SessionCursor,
+} from "../src/lib/session-parser.js";
+
+const record = (obj: object) => JSON.stringify(obj) + "\n";
+
+/** A resumed session: the first record's events come before any user turn. */
+const TRANSCRIPT = [
+  record({
+    type: "assistant", timestamp: "2026-01-01T00:00:00Z",
+    message: {
+      id: "m0", model: "x",
+      content: [
+        { type: "text", text: "resumed" },
+        { type: "tool_use", id: "t0", name: "Read", input: { file_path: "z.ts" } },
+        { type: "tool_use", id: "t9", name: "Read", input: { file_path: "y.ts" } },
+      ],
+    },
+  }),
+  record({ type: "user", timestamp: "2026-01-01T00:00:01Z", message: { content: "do the thing please" } }),
+  record({
+    type: "assistant", timestamp: "2026-01-01T00:00:02Z",
+    message: {
+      id: "m1", model: "x",
+      content: [
+        { type: "text", text: "ok" },
+        { type: "tool_use", id: "t1", name: "Edit", input: { file_path: "a.ts", old_string: "a", new_string: "b" } },
+      ],
+    },
+  }),
+  record({ type: "user", timestamp: "2026-01-01T00:00:03Z", message: { content: "no, wrong file, revert that" } }),
+  record({ type: "assistant", timestamp: "2026-01-01T00:00:04Z", message: { id: "m2", model: "x", content: [{ type: "text", text: "done" }] } }),
+].join("");
+
+let dir: string;
+let file: string;
+
+beforeAll(() => {
+  dir = mkdtempSync(join(tmpdir(), "preflight-parser-"));
+  file = join(dir, "session.jsonl");
+  writeFileSync(file, TRANSCRIPT);
+});
+
+afterAll(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+async function collect(path: string, from?: SessionCursor): Promise<SessionChunk[]> {
+  const chunks: SessionChunk[] = [];
+  // Cursors are persisted as JSON; resume from a round-tripped copy
+  const cursor = from && JSON.parse(JSON.stringify(from));
+  for await (const chunk of streamSessionEvents(path, "/p", "p", cursor)) chunks.push(chunk);
+  return chunks;
+}
+
+const idsOf = (chunks: SessionChunk[]) => chunks.flatMap((c) => c.events.map((e) => e.id));
+
+describe("eventId", () => {
+  it("is stable for the same source position", () => {
+    expect(eventId("a.jsonl", 3, 1)).toBe(eventId("a.jsonl", 3, 1));
+    expect(eventId("a.jsonl", 3)).toBe(eventId("a.jsonl", 3, 0));
+    expect(eventId("a.jsonl", 3)).toMatch(/^[0-9a-f]{32}$/);
+  });
+
+  it("differs by file, line and ordinal", () => {
+    const ids = new Set([
+      eventId("a.jsonl", 3, 0),
+      eventId("b.jsonl", 3, 0),
+      eventId("a.jsonl", 4, 0),
+      eventId("a.jsonl", 3, 1),
+    ]);
+    expect(ids.size).toBe(4);
+  });
+});
+
+describe("streamSessionEvents", () => {
+  it("yields the same events as a whole-file parse", async () => {
+    expect(idsOf(await collect(file))).toEqual(parseSession(file, "/p", "p").map((e) => e.id));
+  });
+
+  it("marks a correction", async () => {
+    const events = (await collect(file)).flatMap((c) => c.events);
+    expect(events.find((e) => e.content === "no, wrong file, revert that")?.type).toBe("correction");
+  });
+
+  it("resumes from every cursor without repeating or dropping events", async () => {
+    const chunks = await collect(file);
+    const full = idsOf(chunks);
+    // Mid-record cursors are the ones that need `skip`
+    expect(chunks.some((c) => c.cursor.skip > 0)).toBe(true);
+    for (let i = 0; i < chunks.length; i++) {
+      const resumed = idsOf(await collect(file, chunks[i].cursor));
+      expect([...idsOf(chunks.slice(0, i + 1)), ...resumed]).toEqual(full);
+    }
+  });
+
+  it("resumes after the last event of a record released outside a turn", async () => {
+    const chunks = await collect(file);
+    // The first record's third event (before any user turn) is emitted on its own
+    const third = chunks.find((c) => c.cursor.line === 0 && c.cursor.skip === 3);
+    expect(third).toBeDefined();
+    const resumed = idsOf(await collect(file, third!.cursor));
+    expect(resumed).not.toContain(third!.events[0].id);
+  });
+
+  it("holds back the open last turn of a file still being written", async () => {
+    const settling: SessionChunk[] = [];
+    for await (const chunk of streamSessionEvents(file, "/p", "p", undefined, { settleMs: 60_000 })) settling.push(chunk);
+    const held = settling[settling.length - 1].cursor;
+    expect(settling.flatMap((c) => c.events).map((e) => e.content)).not.toContain("no, wrong file, revert that");
+    expect(held).toMatchObject({ line: 3, skip: 0 });
+    expect(settling[settling.length - 1].held).toBe(true);
+
+    // Once it settles the turn comes out, labelled, from the held cursor
+    expect([...idsOf(settling), ...idsOf(await collect(file, held))]).toEqual(idsOf(await collect(file)));
+    const rest = (await collect(file, held)).flatMap((c) => c.events);
+    expect(rest.find((e) => e.content === "no, wrong file, revert that")?.type).toBe("correction");
+  });
+
+  it("leaves a partly written last line for the next run", async () => {
+    const growing = join(dir, "growing.jsonl");
+    const last = record({ type: "user", timestamp: "2026-01-01T00:00:05Z", message: { content: "and the tests" } });
+    writeFileSync(growing, TRANSCRIPT + last.slice(0, 20));
+    const first = await collect(growing);
+    const end = first[first.length - 1].cursor;
+    expect(end.line).toBe(5);
+
+    appendFileSync(growing, last.slice(20));
+    const rest = (await collect(growing, end)).flatMap((c) => c.events);
+    expect(rest.map((e) => e.content)).toEqual(["and the tests"]);
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect } from "vitest";
+import { fuseRankings, type SearchRow } from "../src/lib/timeline-db.js";
+
+function row(id: string, extra: Partial<SearchRow> = {}): SearchRow {
+  return {
+    id,
+    timestamp: "2026-01-01T00:00:00Z",
+    type: "prompt",
+    project: "/p",
+    project_name: "p",
+    branch: "main",
+    session_id: "s",
+    source_file: "s.jsonl",
+    source_line: 1,
+    content: id,
+    content_preview: id,
+    metadata: "{}",
+    vector: [],
+    ...extra,
+  };
+}
+
+describe("fuseRankings", () => {
+  it("sums 1 / (60 + rank) over the rankings a row appears in", () => {
+    const fused = fuseRankings(
+      [row("a", { _distance: 0.2 }), row("b", { _distance: 0.4 })],
+      [row("b", { _score: 12.5 }), row("c", { _score: 3 })],
+    );
+    const byId = new Map(fused.map((r) => [r.id, r]));
+
+    expect(byId.get("a")!._score).toBeCloseTo(1 / 61);
+    expect(byId.get("b")!._score).toBeCloseTo(1 / 62 + 1 / 61);
+    expect(byId.get("c")!._score).toBeCloseTo(1 / 62);
+  });
+
+  it("records each signal's rank and raw score", () => {
+    const [b] = fuseRankings([row("x"), row("b", { _distance: 0.4 })], [row("b", { _score: 12.5 })]).filter((r) => r.id === "b");
+    expect(b._match).toEqual({
+      vector: { rank: 2, similarity: 0.6 },
+      keyword: { rank: 1, bm25: 12.5 },
+    });
+  });
+
+  it("drops LanceDB's per-signal columns so they can't shadow the fused score", () => {
+    const [hit] = fuseRankings([row("a", { _distance: 0.2 })], []);
+    expect(hit).not.toHaveProperty("_distance");
+    const [kw] = fuseRankings([], [row("a", { _score: 9 })]);
+    expect(kw._score).toBeCloseTo(1 / 61);
+  });
+
+  it("keeps one result per id", () => {
+    expect(fuseRankings([row("a"), row("b")], [row("b"), row("a")])).toHaveLength(2);
+  });
+});
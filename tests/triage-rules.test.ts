@@ -0,0 +1,105 @@
+import { describe, it, expect } from "vitest";
+import {
+  globToRegExp, compileTriageRules, matchTriageRule, DEFAULT_RULE_CONFIDENCE, LEVEL_TOOLS,
+  type TriageRuleSpec,
+} from "../src/lib/triage-rules.js";
+
+describe("globToRegExp", () => {
+  it("keeps * within one directory", () => {
+    const re = globToRegExp("src/*.ts");
+    expect(re.test("src/a.ts")).toBe(true);
+    expect(re.test("src/lib/a.ts")).toBe(false);
+  });
+
+  it("lets **/ match zero or more directories", () => {
+    const re = globToRegExp("src/**/*.ts");
+    expect(re.test("src/a.ts")).toBe(true);
+    expect(re.test("src/lib/deep/a.ts")).toBe(true);
+    expect(re.test("lib/a.ts")).toBe(false);
+  });
+
+  it("lets a bare ** match anything", () => {
+    expect(globToRegExp("migrations/**").test("migrations/2024/01_init.sql")).toBe(true);
+  });
+
+  it("matches ? to a single character", () => {
+    const re = globToRegExp("?.md");
+    expect(re.test("a.md")).toBe(true);
+    expect(re.test("ab.md")).toBe(false);
+  });
+
+  it("escapes regex characters and anchors both ends", () => {
+    const re = globToRegExp("schema.prisma");
+    expect(re.test("schema.prisma")).toBe(true);
+    expect(re.test("schemaXprisma")).toBe(false);
+    expect(re.test("prisma/schema.prisma")).toBe(false);
+  });
+});
+
+describe("compileTriageRules", () => {
+  const spec = (overrides: Partial<TriageRuleSpec>): TriageRuleSpec => ({
+    name: "rule",
+    level: "ambiguous",
+    match: { any: ["payouts"] },
+    ...overrides,
+  });
+
+  it("compiles a single-string field to one case-insensitive regex", () => {
+    const { rules, errors } = compileTriageRules([spec({ match: { all: "\\bpayouts?\\b" } })]);
+    expect(errors).toEqual([]);
+    expect(rules[0].all).toHaveLength(1);
+    expect(matchTriageRule("change the Payouts schedule", rules[0])).not.toBeNull();
+  });
+
+  it("fills in the default confidence and the level's tools", () => {
+    const { rules } = compileTriageRules([spec({ level: "multi-step" })]);
+    expect(rules[0].confidence).toBe(DEFAULT_RULE_CONFIDENCE);
+    expect(rules[0].recommended_tools).toEqual(LEVEL_TOOLS["multi-step"]);
+  });
+
+  it("compiles file globs", () => {
+    const { rules } = compileTriageRules([spec({ match: { files: "prisma/**" } })]);
+    expect(rules[0].fileGlobs).toEqual(["prisma/**"]);
+    expect(matchTriageRule("update prisma/schema.prisma", rules[0])).not.toBeNull();
+    expect(matchTriageRule("update src/schema.ts", rules[0])).toBeNull();
+  });
+
+  it("drops invalid rules and reports why, keeping the rest", () => {
+    const { rules, errors } = compileTriageRules([
+      spec({ name: "bad-level", level: "urgent" as TriageRuleSpec["level"] }),
+      spec({ name: "bad-regex", match: { all: ["("] } }),
+      spec({ name: "bad-confidence", confidence: 2 }),
+      spec({ name: "no-conditions", match: { none: ["read"] } }),
+      spec({ name: "ok" }),
+    ]);
+    expect(rules.map((r) => r.name)).toEqual(["ok"]);
+    expect(errors).toHaveLength(4);
+    expect(errors[0]).toContain(`rule "bad-level": level must be one of`);
+    expect(errors[1]).toContain(`rule "bad-regex": invalid all regex /(/`);
+    expect(errors[2]).toContain(`rule "bad-confidence": confidence must be a number from 0 to 1`);
+    expect(errors[3]).toContain(`rule "no-conditions": needs at least one of`);
+  });
+
+  it("skips examples with an invalid expect and reports them, keeping the rule", () => {
+    const { rules, errors } = compileTriageRules([
+      spec({
+        examples: [
+          { prompt: "change payouts", expect: "ambiguous" },
+          { prompt: "change payouts again", expect: "vague" as TriageRuleSpec["level"] },
+        ],
+      }),
+    ]);
+    expect(rules[0].examples).toHaveLength(1);
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toContain(`rule "rule": example #2 skipped`);
+  });
+
+  it("orders by priority, keeping file order for ties", () => {
+    const { rules } = compileTriageRules([
+      spec({ name: "low" }),
+      spec({ name: "high", priority: 10 }),
+      spec({ name: "low-2" }),
+    ]);
+    expect(rules.map((r) => r.name)).toEqual(["high", "low", "low-2"]);
+  });
+});